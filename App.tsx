@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Project, File, ViewMode, AppSettings, ConsoleMessage } from './types';
-import { getProjects, saveProject, deleteProject, createProject, duplicateProject } from './utils/storage';
+import { Project, File, ViewMode, AppSettings, ConsoleMessage, ConsoleDetails, Snapshot, NetworkRequest, NetworkRequestUpdate } from './types';
+import { getProjects, saveProject, deleteProject, createProject, duplicateProject, clearAllProjects } from './utils/storage';
+import { extractInlineBlobs } from './utils/blobStore';
+import { createSnapshot, SNAPSHOT_INTERVAL_MS } from './utils/history';
+import { BuildConfigUpdate, getBuildConfig } from './utils/buildConfig';
 import BottomNav from './components/Layout/BottomNav';
 import ProjectList from './components/Dashboard/ProjectList';
 import CodeEditor from './components/Editor/CodeEditor';
@@ -9,9 +12,19 @@ import LivePreview from './components/Preview/LivePreview';
 import ApkBuilder from './components/Export/ApkBuilder';
 import SettingsView from './components/Settings/SettingsView';
 import ConsolePanel from './components/Layout/ConsolePanel';
-import { Menu, Play, Settings as SettingsIcon, FolderOpen, ChevronLeft, FilePlus, Upload, Terminal, Square } from 'lucide-react';
+import HistoryPanel from './components/History/HistoryPanel';
+import SourceControlView from './components/SourceControl/SourceControlView';
+import { deleteRepository, wipeRepositories } from './utils/git';
+import { unpublishProject } from './utils/previewServer';
+import { evaluateInPreview, getPreviewCompletions } from './utils/previewBridge';
+import { importZipProject } from './utils/importer';
+import { NATIVE_TARGETS } from './utils/nativeProject';
+import { findFileByPath, findIndexFile, ensureFolders, normalizePath, dirname, basename, getLanguageFromName } from './utils/paths';
+import { Menu, Play, Settings as SettingsIcon, FolderOpen, ChevronLeft, FilePlus, Upload, Terminal, Square, Save, History, Columns2 } from 'lucide-react';
 import clsx from 'clsx';
-import JSZip from 'jszip';
+
+// Oldest requests are dropped from the network inspector beyond this
+const MAX_NETWORK_REQUESTS = 500;
 
 const App: React.FC = () => {
   // State
@@ -23,12 +36,20 @@ const App: React.FC = () => {
   const [activeFile, setActiveFile] = useState<File | null>(null);
   const [openFiles, setOpenFiles] = useState<File[]>([]); // Tab system
   const [showFileExplorer, setShowFileExplorer] = useState(false);
+  const [showSplitPreview, setShowSplitPreview] = useState(false);
+  const [jumpTo, setJumpTo] = useState<{ fileId: string; line: number; requestId: number } | undefined>();
   
   // Console State
   const [showConsole, setShowConsole] = useState(false);
   const [consoleLogs, setConsoleLogs] = useState<ConsoleMessage[]>([]);
+  const [networkRequests, setNetworkRequests] = useState<NetworkRequest[]>([]);
   const [isServerRunning, setIsServerRunning] = useState(false);
 
+  // History State
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const latestProjectRef = useRef<Project | null>(null);
+
   const [settings, setSettings] = useState<AppSettings>({
     theme: 'light',
     fontSize: 14,
@@ -38,11 +59,16 @@ const App: React.FC = () => {
   });
 
   const importInputRef = useRef<HTMLInputElement>(null);
+  const buildConfigTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
   // Load projects on mount
   useEffect(() => {
-    const loadedProjects = getProjects();
-    setProjects(loadedProjects);
+    getProjects()
+      .then(setProjects)
+      .catch(e => {
+          console.error("Failed to load projects", e);
+          addConsoleLog('error', 'Failed to load projects from storage.');
+      });
     
     // Load settings from local storage
     const savedSettings = localStorage.getItem('buildora_settings');
@@ -72,31 +98,85 @@ const App: React.FC = () => {
   useEffect(() => {
     if (activeProject && settings.autoSave) {
       const timer = setTimeout(() => {
-        saveProject(activeProject);
+        persistProject(activeProject);
         setProjects(prev => prev.map(p => p.id === activeProject.id ? activeProject : p));
       }, 1000);
       return () => clearTimeout(timer);
     }
   }, [activeProject, settings.autoSave]);
 
+  // Periodic snapshot while a project is open
+  useEffect(() => {
+    latestProjectRef.current = activeProject;
+  }, [activeProject]);
+
+  useEffect(() => {
+    if (!activeProject) return;
+    const timer = setInterval(() => {
+      if (latestProjectRef.current) {
+        takeSnapshot(latestProjectRef.current, 'auto', 'Automatic snapshot');
+      }
+    }, SNAPSHOT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [activeProject?.id]);
+
   // --- Console Handlers ---
-  const addConsoleLog = (type: ConsoleMessage['type'], message: string) => {
+  const addConsoleLog = (type: ConsoleMessage['type'], message: string, details?: ConsoleDetails) => {
     setConsoleLogs(prev => [...prev, {
         id: Date.now().toString() + Math.random(),
         type,
         message,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...details
     }]);
   };
 
   const clearConsole = () => setConsoleLogs([]);
 
+  const handleNetworkRequest = (update: NetworkRequestUpdate) => {
+    setNetworkRequests(prev => {
+      const index = prev.findIndex(request => request.id === update.id);
+      if (index === -1) return [...prev, update as NetworkRequest].slice(-MAX_NETWORK_REQUESTS);
+      const next = [...prev];
+      next[index] = { ...next[index], ...update };
+      return next;
+    });
+  };
+
+  const handleEvaluate = (expression: string) => {
+    addConsoleLog('command', expression);
+    evaluateInPreview(expression)
+      .then(result => addConsoleLog(result.ok ? 'result' : 'error', result.value.description, { args: [result.value] }))
+      .catch(e => addConsoleLog('error', e?.message || String(e)));
+  };
+
+  // --- Persistence ---
+  const persistProject = (project: Project) => {
+    saveProject(project).catch(e => {
+        console.error("Failed to save project", e);
+        addConsoleLog('error', `Failed to save "${project.name}": ${e?.message || e}`);
+    });
+  };
+
+  const takeSnapshot = (project: Project, reason: Snapshot['reason'], label: string) => {
+    return createSnapshot(project, reason, label)
+      .then(snapshot => {
+          if (snapshot) setHistoryVersion(v => v + 1);
+          return snapshot;
+      })
+      .catch(e => {
+          console.error("Failed to create snapshot", e);
+          addConsoleLog('error', 'Failed to record project snapshot.');
+          return null;
+      });
+  };
+
   // --- Project Handlers ---
   const handleCreateProject = (name: string, type: 'html' | 'php') => {
     const newProject = createProject(name, type);
     setProjects(prev => [newProject, ...prev]);
     setActiveProject(newProject);
-    const indexFile = newProject.files.find(f => f.name.startsWith('index'));
+    const indexFile = findIndexFile(newProject.files);
     if (indexFile) {
         setOpenFiles([indexFile]);
         setActiveFile(indexFile);
@@ -107,12 +187,12 @@ const App: React.FC = () => {
 
   const handleAIProjectCreated = (newProject: Project) => {
     setProjects(prev => [newProject, ...prev]);
-    saveProject(newProject);
+    persistProject(newProject);
     addConsoleLog('system', `AI Project "${newProject.name}" generated.`);
     
     // Open the new project
     setActiveProject(newProject);
-    const indexFile = newProject.files.find(f => f.name === 'index.html');
+    const indexFile = findIndexFile(newProject.files);
     if (indexFile) {
         setOpenFiles([indexFile]);
         setActiveFile(indexFile);
@@ -121,7 +201,12 @@ const App: React.FC = () => {
   };
 
   const handleDeleteProject = (id: string) => {
-    deleteProject(id);
+    deleteProject(id).catch(e => {
+        console.error("Failed to delete project", e);
+        addConsoleLog('error', 'Failed to delete project from storage.');
+    });
+    deleteRepository(id).catch(e => console.error("Failed to delete Git repository", e));
+    unpublishProject(id);
     setProjects(prev => prev.filter(p => p.id !== id));
     if (activeProject?.id === id) {
       setActiveProject(null);
@@ -131,11 +216,16 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDuplicateProject = (id: string) => {
-    const newProject = duplicateProject(id);
-    if (newProject) {
-      setProjects(prev => [newProject, ...prev]);
-      addConsoleLog('system', `Project duplicated: ${newProject.name}`);
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      const newProject = await duplicateProject(id);
+      if (newProject) {
+        setProjects(prev => [newProject, ...prev]);
+        addConsoleLog('system', `Project duplicated: ${newProject.name}`);
+      }
+    } catch (e: any) {
+      console.error("Failed to duplicate project", e);
+      addConsoleLog('error', `Failed to duplicate project: ${e?.message || e}`);
     }
   };
 
@@ -143,7 +233,7 @@ const App: React.FC = () => {
     const project = projects.find(p => p.id === id);
     if (project) {
         const updatedProject = { ...project, name: newName, lastModified: Date.now() };
-        saveProject(updatedProject);
+        persistProject(updatedProject);
         setProjects(prev => prev.map(p => p.id === id ? updatedProject : p));
         if (activeProject?.id === id) {
             setActiveProject(updatedProject);
@@ -155,7 +245,7 @@ const App: React.FC = () => {
   const handleOpenProject = (project: Project) => {
     setActiveProject(project);
     // Restore previously open files or just open index
-    const indexFile = project.files.find(f => f.name.startsWith('index'));
+    const indexFile = findIndexFile(project.files);
     if (indexFile) {
         setOpenFiles([indexFile]);
         setActiveFile(indexFile);
@@ -176,6 +266,24 @@ const App: React.FC = () => {
     setView('export');
   };
 
+  const handleUpdateBuildConfig = (update: BuildConfigUpdate) => {
+    // Applied to the latest project, since builds report back after the settings may have changed
+    let updatedProject: Project | null = null;
+    setActiveProject(prev => {
+      if (!prev) return prev;
+      updatedProject = { ...prev, buildConfig: typeof update === 'function' ? update(getBuildConfig(prev)) : update };
+      return updatedProject;
+    });
+    // Build settings are saved even with auto-save off, debounced while typing
+    clearTimeout(buildConfigTimerRef.current);
+    buildConfigTimerRef.current = setTimeout(() => {
+      const project = updatedProject;
+      if (!project) return;
+      setProjects(prev => prev.map(p => p.id === project.id ? project : p));
+      persistProject(project);
+    }, 500);
+  };
+
   // --- File Handlers ---
   const handleUpdateFileContent = (content: string) => {
     if (activeProject && activeFile) {
@@ -199,54 +307,56 @@ const App: React.FC = () => {
   const handleUpdateMultipleFiles = (filesToUpdate: { name: string, content: string }[]) => {
     if (activeProject) {
       let updatedFiles = [...activeProject.files];
+      const updatedIds = new Map<string, string>(); // file id -> new content
       
+      // AI file names are project paths such as `css/style.css`
       filesToUpdate.forEach(update => {
-        const existingFileIndex = updatedFiles.findIndex(f => f.name === update.name);
-        if (existingFileIndex !== -1) {
-            updatedFiles[existingFileIndex] = { ...updatedFiles[existingFileIndex], content: update.content };
+        const path = normalizePath(update.name);
+        const existingFile = findFileByPath(updatedFiles, path);
+        if (existingFile) {
+            updatedFiles = updatedFiles.map(f => f.id === existingFile.id ? { ...f, content: update.content } : f);
+            updatedIds.set(existingFile.id, update.content);
         } else {
-             updatedFiles.push({
+             const folders = ensureFolders(updatedFiles, dirname(path));
+             updatedFiles = [...folders.files, {
                 id: Date.now().toString() + Math.random(),
-                name: update.name,
+                name: basename(path),
                 content: update.content,
-                language: update.name.endsWith('.css') ? 'css' : update.name.endsWith('.js') ? 'javascript' : 'html',
-                parentId: 'root',
+                language: getLanguageFromName(path),
+                parentId: folders.parentId,
                 isDirectory: false
-            });
+            }];
         }
       });
 
       const updatedProject = { ...activeProject, files: updatedFiles, lastModified: Date.now() };
       setActiveProject(updatedProject);
-      saveProject(updatedProject);
+      persistProject(updatedProject);
+
+      // Keep the pre-edit state around so AI changes can be undone
+      takeSnapshot(activeProject, 'auto', 'Before AI edit')
+        .then(() => takeSnapshot(updatedProject, 'ai', `AI updated ${filesToUpdate.length} files`));
       
       // Update open files and active file if they were changed
       setOpenFiles(prev => prev.map(f => {
-          const update = filesToUpdate.find(u => u.name === f.name);
-          return update ? { ...f, content: update.content } : f;
+          const content = updatedIds.get(f.id);
+          return content !== undefined ? { ...f, content } : f;
       }));
       
       if (activeFile) {
-          const update = filesToUpdate.find(u => u.name === activeFile.name);
-          if (update) {
-              setActiveFile({ ...activeFile, content: update.content });
+          const content = updatedIds.get(activeFile.id);
+          if (content !== undefined) {
+              setActiveFile({ ...activeFile, content });
           }
       }
       addConsoleLog('system', `AI updated ${filesToUpdate.length} files.`);
     }
   };
 
-  const handleAddFile = (name: string, content: string = '', parentId: string = 'root', isDir: boolean = false) => {
+  const handleAddFile = (name: string, content: string = '', parentId: string = 'root', isDir: boolean = false, blobHash?: string) => {
     if (activeProject) {
       // Determine language/type
-      let lang: any = 'html';
-      const ext = name.split('.').pop()?.toLowerCase();
-      if (ext === 'css') lang = 'css';
-      else if (ext === 'js') lang = 'javascript';
-      else if (ext === 'php') lang = 'php';
-      else if (ext === 'json') lang = 'json';
-      else if (['png','jpg','jpeg','gif','webp','svg'].includes(ext || '')) lang = 'image';
-      else if (['ttf','otf','woff','woff2'].includes(ext || '')) lang = 'font';
+      const lang = getLanguageFromName(name);
 
       const newFile: File = {
         id: Date.now().toString(),
@@ -254,7 +364,8 @@ const App: React.FC = () => {
         content,
         language: lang,
         parentId,
-        isDirectory: isDir
+        isDirectory: isDir,
+        ...(blobHash ? { blobHash } : {})
       };
       
       const updatedProject = {
@@ -263,7 +374,7 @@ const App: React.FC = () => {
       };
       
       setActiveProject(updatedProject);
-      saveProject(updatedProject);
+      persistProject(updatedProject);
       setProjects(prev => prev.map(p => p.id === updatedProject.id ? updatedProject : p));
 
       if (!isDir) {
@@ -299,7 +410,7 @@ const App: React.FC = () => {
          handleCloseTab(fileId);
       }
       
-      saveProject(updatedProject);
+      persistProject(updatedProject);
       setProjects(prev => prev.map(p => p.id === updatedProject.id ? updatedProject : p));
       addConsoleLog('system', `Deleted: ${fileToDelete?.name}`);
     }
@@ -320,11 +431,72 @@ const App: React.FC = () => {
       // Update tabs
       setOpenFiles(prev => prev.map(f => f.id === fileId ? { ...f, name: newName } : f));
       
-      saveProject(updatedProject);
+      persistProject(updatedProject);
       setProjects(prev => prev.map(p => p.id === updatedProject.id ? updatedProject : p));
     }
   };
 
+  // --- History Handlers ---
+  const handleManualSave = () => {
+    if (activeProject) {
+      persistProject(activeProject);
+      setProjects(prev => prev.map(p => p.id === activeProject.id ? activeProject : p));
+      takeSnapshot(activeProject, 'manual', 'Manual save');
+      addConsoleLog('system', `Project saved: ${activeProject.name}`);
+    }
+  };
+
+  const applyRestoredFiles = (files: File[]) => {
+    if (!activeProject) return;
+    const updatedProject = { ...activeProject, files, lastModified: Date.now() };
+    setActiveProject(updatedProject);
+    persistProject(updatedProject);
+    setProjects(prev => prev.map(p => p.id === updatedProject.id ? updatedProject : p));
+
+    // Refresh tabs with restored content, dropping tabs of files that no longer exist
+    const newTabs = openFiles
+      .map(tab => files.find(f => f.id === tab.id))
+      .filter((f): f is File => !!f);
+    setOpenFiles(newTabs);
+    const restoredActive = activeFile ? files.find(f => f.id === activeFile.id) : undefined;
+    setActiveFile(restoredActive || newTabs[newTabs.length - 1] || null);
+  };
+
+  const handleFilesCheckedOut = (files: File[]) => {
+    if (activeProject) {
+      takeSnapshot(activeProject, 'auto', 'Before branch checkout');
+      applyRestoredFiles(files);
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    if (!activeProject) return;
+    await takeSnapshot(activeProject, 'restore', 'Before restore');
+    applyRestoredFiles(snapshot.files);
+    takeSnapshot({ ...activeProject, files: snapshot.files }, 'restore', `Restored snapshot from ${new Date(snapshot.timestamp).toLocaleString()}`);
+    addConsoleLog('system', `Project restored to snapshot from ${new Date(snapshot.timestamp).toLocaleString()}`);
+  };
+
+  const handleRestoreFile = async (snapshot: Snapshot, file: File) => {
+    if (!activeProject) return;
+    await takeSnapshot(activeProject, 'restore', `Before restoring ${file.name}`);
+    const exists = activeProject.files.some(f => f.id === file.id);
+    // Bring back any deleted parent folders along with the file
+    const missingParents: File[] = [];
+    let parentId = file.parentId;
+    while (parentId !== 'root' && !activeProject.files.some(f => f.id === parentId)) {
+      const parent = snapshot.files.find(f => f.id === parentId);
+      if (!parent) break;
+      missingParents.unshift(parent);
+      parentId = parent.parentId;
+    }
+    const files = exists
+      ? activeProject.files.map(f => f.id === file.id ? file : f)
+      : [...activeProject.files, ...missingParents, file];
+    applyRestoredFiles(files);
+    addConsoleLog('system', `Restored ${file.name} from snapshot`);
+  };
+
   // --- Tab Handlers ---
   const handleSelectFile = (file: File) => {
       if (file.isDirectory) return; // Can't open folders in editor
@@ -340,6 +512,13 @@ const App: React.FC = () => {
       setShowFileExplorer(false);
   };
 
+  // Opens a file at a line, e.g. the source of an element picked in the preview
+  const handleOpenSource = (file: File, line: number) => {
+      handleSelectFile(file);
+      setJumpTo({ fileId: file.id, line, requestId: Date.now() });
+      if (view !== 'editor') setView('editor');
+  };
+
   const handleCloseTab = (fileId: string) => {
       const newTabs = openFiles.filter(f => f.id !== fileId);
       setOpenFiles(newTabs);
@@ -351,6 +530,8 @@ const App: React.FC = () => {
 
   const handleClearData = () => {
     localStorage.clear();
+    clearAllProjects().catch(e => console.error("Failed to clear project storage", e));
+    wipeRepositories();
     setProjects([]);
     setActiveProject(null);
     setActiveFile(null);
@@ -374,71 +555,17 @@ const App: React.FC = () => {
 
     try {
         if (file.name.endsWith('.zip')) {
-            // Handle potential import issues with JSZip
-            // @ts-ignore
-            const JSZipConstructor = (JSZip as any).default || JSZip;
-            const zip = await JSZipConstructor.loadAsync(file);
-            const files: File[] = [];
-            let hasHtml = false;
-            let hasPhp = false;
-
-            const entries = Object.keys(zip.files);
-            
-            for (const filename of entries) {
-                const entry = zip.files[filename];
-                if (entry.dir || filename.startsWith('__') || filename.includes('/.')) continue;
-                
-                const cleanName = filename.split('/').pop() || filename;
-                const ext = cleanName.split('.').pop()?.toLowerCase();
-                
-                let lang: any = 'html';
-                let content = '';
-
-                // Detect type and read content
-                const isImage = ['png','jpg','jpeg','gif','webp','svg'].includes(ext || '');
-                const isFont = ['ttf','otf','woff','woff2'].includes(ext || '');
-
-                if (isImage || isFont) {
-                    lang = isImage ? 'image' : 'font';
-                    const base64 = await entry.async('base64');
-                    // Guess mime
-                    let mime = 'application/octet-stream';
-                    if(ext === 'png') mime = 'image/png';
-                    if(ext === 'jpg' || ext === 'jpeg') mime = 'image/jpeg';
-                    if(ext === 'svg') mime = 'image/svg+xml';
-                    content = `data:${mime};base64,${base64}`;
-                } else {
-                    content = await entry.async('string');
-                    if (ext === 'css') lang = 'css';
-                    else if (ext === 'js') lang = 'javascript';
-                    else if (ext === 'php') lang = 'php';
-                    else if (ext === 'json') lang = 'json';
-                }
-                
-                if (cleanName.endsWith('.html')) hasHtml = true;
-                if (cleanName.endsWith('.php')) hasPhp = true;
-
-                files.push({
-                    id: Date.now().toString() + Math.random().toString().slice(2),
-                    name: cleanName,
-                    content,
-                    language: lang,
-                    parentId: 'root', // Simplifying folder structure flat for now or infer
-                    isDirectory: false
-                });
-            }
+            const { project: newProject, skipped, native } = await importZipProject(file, file.name.replace(/\.zip$/i, ''));
+            if (native) addConsoleLog('system', `${NATIVE_TARGETS[native.target].label} project detected: importing ${native.webDir}/ and its app settings`);
+            skipped.forEach(entry => addConsoleLog('warn', `Import skipped ${entry.path}: ${entry.reason}`));
+            if (skipped.length > 0) setShowConsole(true);
 
-            if (files.length > 0) {
-                const newProject: Project = {
-                    id: Date.now().toString(),
-                    name: file.name.replace('.zip', ''),
-                    type: hasPhp ? 'php' : 'html',
-                    lastModified: Date.now(),
-                    files
-                };
+            if (newProject.files.some(f => !f.isDirectory)) {
                 setProjects(prev => [newProject, ...prev]);
-                saveProject(newProject);
-                addConsoleLog('system', `Imported project: ${newProject.name}`);
+                persistProject(newProject);
+                addConsoleLog('system', `Imported project: ${newProject.name} (${newProject.files.filter(f => !f.isDirectory).length} files${skipped.length ? `, ${skipped.length} skipped` : ''})`);
+            } else {
+                alert('No supported files found in ZIP.');
             }
         } else if (file.name.endsWith('.json')) {
               const text = await file.text();
@@ -446,12 +573,13 @@ const App: React.FC = () => {
               if (imported.files && Array.isArray(imported.files)) {
                   const newProject = { 
                       ...imported, 
+                      files: await extractInlineBlobs(imported.files),
                       id: Date.now().toString(),
                       name: imported.name || file.name.replace('.json', ''),
                       lastModified: Date.now() 
                   };
                   setProjects(prev => [newProject, ...prev]);
-                  saveProject(newProject);
+                  persistProject(newProject);
                   addConsoleLog('system', `Imported project: ${newProject.name}`);
               } else {
                   alert('Invalid project JSON');
@@ -522,6 +650,27 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center space-x-1">
+             <button 
+               onClick={handleManualSave}
+               className={`p-2 rounded-lg transition-colors ${iconClass}`}
+               title="Save & Snapshot"
+             >
+               <Save className="w-5 h-5" />
+             </button>
+             <button 
+               onClick={() => setShowHistory(true)}
+               className={`p-2 rounded-lg transition-colors ${iconClass}`}
+               title="History"
+             >
+               <History className="w-5 h-5" />
+             </button>
+             <button 
+               onClick={() => setShowSplitPreview(!showSplitPreview)}
+               className={clsx(`p-2 rounded-lg transition-colors`, showSplitPreview ? "bg-blue-100 text-blue-600 dark:bg-blue-900/40 dark:text-blue-300" : iconClass)}
+               title="Split Preview"
+             >
+               <Columns2 className="w-5 h-5" />
+             </button>
              <button 
                onClick={() => setShowConsole(!showConsole)}
                className={clsx(`p-2 rounded-lg transition-colors mr-1`, showConsole ? "bg-blue-100 text-blue-600 dark:bg-blue-900/40 dark:text-blue-300" : iconClass)}
@@ -554,8 +703,17 @@ const App: React.FC = () => {
            <ChevronLeft className="w-6 h-6" />
         </button>
         <h1 className={`text-lg font-bold capitalize ${textClass}`}>
-            {view === 'export' ? 'APK Build Studio' : view}
+            {view === 'export' ? 'APK Build Studio' : view === 'source-control' ? 'Source Control' : view}
         </h1>
+        {view === 'preview' && (
+          <button 
+            onClick={() => setShowConsole(!showConsole)}
+            className={clsx(`ml-auto p-2 rounded-lg transition-colors`, showConsole ? "bg-blue-100 text-blue-600 dark:bg-blue-900/40 dark:text-blue-300" : iconClass)}
+            title="Toggle Console"
+          >
+            <Terminal className="w-5 h-5" />
+          </button>
+        )}
       </header>
     );
   };
@@ -590,8 +748,18 @@ const App: React.FC = () => {
             />
           )}
 
+          {view === 'dashboard' && showConsole && (
+            <ConsolePanel 
+              logs={consoleLogs} 
+              onClose={() => setShowConsole(false)} 
+              onClear={clearConsole}
+            />
+          )}
+
           {view === 'editor' && activeProject && (
             <div className="flex-1 flex flex-col h-full relative">
+              <div className="flex-1 flex flex-col md:flex-row min-h-0">
+               <div className="flex-1 flex flex-col min-h-0 min-w-0">
                {activeFile ? (
                  <CodeEditor 
                    project={activeProject}
@@ -605,6 +773,7 @@ const App: React.FC = () => {
                    onTabClose={handleCloseTab}
                    onUpdateFiles={handleUpdateMultipleFiles}
                    onRenameProject={(newName) => handleRenameProject(activeProject.id, newName)}
+                   jumpTo={jumpTo}
                  />
                ) : (
                  <div className="flex-1 flex flex-col items-center justify-center text-gray-400 dark:text-gray-500 bg-white dark:bg-[#282c34] transition-colors">
@@ -618,6 +787,20 @@ const App: React.FC = () => {
                     </button>
                  </div>
                )}
+               </div>
+
+               {/* Split Preview, updates as you type */}
+               {showSplitPreview && (
+                 <div className="h-1/2 md:h-auto md:w-1/2 border-t md:border-t-0 md:border-l border-gray-200 dark:border-gray-700 flex flex-col min-h-0">
+                   <LivePreview 
+                       project={activeProject} 
+                       onConsoleLog={addConsoleLog}
+                       onNetworkRequest={handleNetworkRequest}
+                       onOpenSource={handleOpenSource}
+                   />
+                 </div>
+               )}
+              </div>
                
                {/* Console Panel (Sliding Up) */}
                {showConsole && (
@@ -625,10 +808,24 @@ const App: React.FC = () => {
                      logs={consoleLogs} 
                      onClose={() => setShowConsole(false)} 
                      onClear={clearConsole}
+                     onEvaluate={handleEvaluate}
+                     onComplete={getPreviewCompletions}
+                     networkRequests={networkRequests}
+                     onClearNetwork={() => setNetworkRequests([])}
                    />
                )}
                
                {/* File Explorer Overlay */}
+               {showHistory && (
+                 <HistoryPanel
+                   project={activeProject}
+                   refreshKey={historyVersion}
+                   onRestoreProject={handleRestoreSnapshot}
+                   onRestoreFile={handleRestoreFile}
+                   onClose={() => setShowHistory(false)}
+                 />
+               )}
+
                {showFileExplorer && (
                  <div className="absolute inset-0 z-20 flex">
                    <div className="w-72 bg-white dark:bg-gray-800 shadow-2xl h-full border-r border-gray-200 dark:border-gray-700 flex flex-col transition-colors">
@@ -657,14 +854,40 @@ const App: React.FC = () => {
           )}
 
           {view === 'preview' && activeProject && (
-            <LivePreview 
-                project={activeProject} 
-                onConsoleLog={addConsoleLog}
+            <div className="flex-1 flex flex-col h-full min-h-0">
+              <div className="flex-1 min-h-0">
+                <LivePreview 
+                    project={activeProject} 
+                    onConsoleLog={addConsoleLog}
+                    onNetworkRequest={handleNetworkRequest}
+                    onOpenSource={handleOpenSource}
+                />
+              </div>
+              {showConsole && (
+                  <ConsolePanel 
+                    logs={consoleLogs} 
+                    onClose={() => setShowConsole(false)} 
+                    onClear={clearConsole}
+                    onEvaluate={handleEvaluate}
+                    onComplete={getPreviewCompletions}
+                    networkRequests={networkRequests}
+                    onClearNetwork={() => setNetworkRequests([])}
+                  />
+              )}
+            </div>
+          )}
+
+          {view === 'source-control' && activeProject && (
+            <SourceControlView
+              project={activeProject}
+              settings={settings}
+              onFilesCheckedOut={handleFilesCheckedOut}
+              onConsoleLog={addConsoleLog}
             />
           )}
 
           {view === 'export' && activeProject && (
-            <ApkBuilder project={activeProject} />
+            <ApkBuilder project={activeProject} onUpdateBuildConfig={handleUpdateBuildConfig} />
           )}
           
           {view === 'settings' && (
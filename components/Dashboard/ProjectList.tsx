@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { AppSettings, Project } from '../../types';
 import { Plus, Folder, Clock, Trash, Copy, Code, FileCode, AlertCircle, Download, Sparkles, Package, Edit } from 'lucide-react';
 import AIGeneratorModal from './AIGeneratorModal';
+import { inlineBlobs } from '../../utils/blobStore';
 import clsx from 'clsx';
 
 interface ProjectListProps {
@@ -49,8 +50,10 @@ const ProjectList: React.FC<ProjectListProps> = ({ projects, settings, onCreate,
     }
   };
 
-  const downloadProject = (project: Project) => {
-      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(project));
+  const downloadProject = async (project: Project) => {
+      // Embed binary assets so the JSON can be imported on another device
+      const portable = await inlineBlobs(project);
+      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(portable));
       const downloadAnchorNode = document.createElement('a');
       downloadAnchorNode.setAttribute("href", dataStr);
       downloadAnchorNode.setAttribute("download", project.name + ".json");
@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import Editor, { OnMount } from '@monaco-editor/react';
 import { File, AppSettings, Project } from '../../types';
+import { getFilePath } from '../../utils/paths';
 import { X, Loader2, AlignLeft, Sparkles, Undo, Redo, Copy, Check, Maximize, ClipboardPaste, Scissors, MessageSquare, Send, Bot } from 'lucide-react';
 import clsx from 'clsx';
 
@@ -16,6 +17,7 @@ interface CodeEditorProps {
   onTabClose?: (id: string) => void;
   onUpdateFiles?: (files: { name: string, content: string }[]) => void;
   onRenameProject?: (newName: string) => void;
+  jumpTo?: { fileId: string; line: number; requestId: number }; // Line to reveal, e.g. from the preview inspector
 }
 
 const CodeEditor: React.FC<CodeEditorProps> = ({ 
@@ -29,9 +31,12 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     onTabSelect,
     onTabClose,
     onUpdateFiles,
-    onRenameProject
+    onRenameProject,
+    jumpTo
 }) => {
   const editorRef = useRef<any>(null);
+  const jumpToRef = useRef(jumpTo);
+  jumpToRef.current = jumpTo;
   const monacoRef = useRef<any>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const streamingRef = useRef<HTMLDivElement>(null);
@@ -108,6 +113,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     // Auto-format on load to ensure AI generated code looks good
     setTimeout(() => {
         editor.getAction('editor.action.formatDocument')?.run();
+        revealJumpTarget();
     }, 500);
 
     // Listen for selection changes
@@ -130,6 +136,21 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     });
   };
 
+  const revealJumpTarget = () => {
+      const editor = editorRef.current;
+      const target = jumpToRef.current;
+      if (!editor || !target || target.fileId !== file.id) return;
+      editor.revealLineInCenter(target.line);
+      editor.setPosition({ lineNumber: target.line, column: 1 });
+      editor.focus();
+  };
+
+  // Reveal jump targets once the file's content is in the editor
+  useEffect(() => {
+      const timer = setTimeout(revealJumpTarget, 0);
+      return () => clearTimeout(timer);
+  }, [jumpTo?.requestId, file.id]);
+
   // Update layout when sidebar or window changes
   useEffect(() => {
       const resizeListener = () => {
@@ -263,6 +284,7 @@ When generating code, ALWAYS use this exact format for EACH file (even if it's j
 \`\`\`language
 [complete working code]
 \`\`\`
+Use the file's full project path as shown in the project context (e.g. === css/style.css ===) so files inside folders are updated correctly.
 
 RULE 9 - PROJECT RENAMING:
 If the user asks you to create a completely new project, tool, or app, and the current project name is generic (like "Untitled Project"), you MUST suggest a short, catchy name for the project by including this exact format anywhere in your response:
@@ -278,7 +300,7 @@ Do not include the code blocks in your conversational response, they will be int
     setChatError(null);
     setStreamingMessage('');
 
-    const projectContext = project.files.map(f => `--- ${f.name} ---\n${f.content}`).join('\n\n');
+    const projectContext = project.files.filter(f => !f.isDirectory).map(f => `--- ${getFilePath(project.files, f)} ---\n${f.content}`).join('\n\n');
     const analyzePrompt = `Analyze this project named "${project.name}". Here is the code:\n\n${projectContext}\n\nPlease keep the entire project context in your mind. Reply with a very friendly, normal conversational message. Just mention the main important topics or what the project is about briefly. Do NOT give a long, detailed technical brief.`;
 
     const newMessages: ChatMessage[] = [
@@ -372,7 +394,7 @@ Do not include the code blocks in your conversational response, they will be int
     setChatMessages(prev => [...prev, userMsg]);
 
     // Build context with last 20 messages + current file context
-    const projectContext = project ? project.files.map(f => `--- ${f.name} ---\n${f.content}`).join('\n\n') : `Current File: ${file.name}\nCode:\n${content}`;
+    const projectContext = project ? project.files.filter(f => !f.isDirectory).map(f => `--- ${getFilePath(project.files, f)} ---\n${f.content}`).join('\n\n') : `Current File: ${file.name}\nCode:\n${content}`;
     
     // Keep last 20 messages
     const recentMessages = chatMessages.slice(-20);
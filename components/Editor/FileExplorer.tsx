@@ -1,5 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { File } from '../../types';
+import { putBlob } from '../../utils/blobStore';
+import { getFilePath } from '../../utils/paths';
 import { FileCode, FileJson, FileType, Trash2, Plus, Folder, FolderPlus, Edit2, Check, Upload, AlertCircle, ChevronRight, ChevronDown, Image as ImageIcon, Type } from 'lucide-react';
 import clsx from 'clsx';
 
@@ -7,7 +9,7 @@ interface FileExplorerProps {
   files: File[];
   activeFileId: string;
   onSelectFile: (file: File) => void;
-  onAddFile: (name: string, content?: string, parentId?: string, isDir?: boolean) => void;
+  onAddFile: (name: string, content?: string, parentId?: string, isDir?: boolean, blobHash?: string) => void;
   onDeleteFile: (id: string) => void;
   onRenameFile: (id: string, name: string) => void;
 }
@@ -27,6 +29,7 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ files, activeFileId, onSele
   const [expandedFolders, setExpandedFolders] = useState<Record<string, boolean>>({'root': true});
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeFolder = files.find(f => f.id === activeFolderId);
 
   const toggleFolder = (folderId: string) => {
       setExpandedFolders(prev => ({...prev, [folderId]: !prev[folderId]}));
@@ -96,20 +99,14 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ files, activeFileId, onSele
         const isFont = fileName.endsWith('.ttf') || fileName.endsWith('.woff') || fileName.endsWith('.otf');
         
         try {
-            let content = '';
             if (isImage || isFont) {
-                // Read as Data URL for binary assets
-                content = await new Promise<string>((resolve) => {
-                    const reader = new FileReader();
-                    reader.onload = (ev) => resolve(ev.target?.result as string);
-                    reader.readAsDataURL(file);
-                });
+                // Binary assets go to the blob store, the file only keeps the hash
+                const blobHash = await putBlob(file);
+                onAddFile(fileName, '', activeFolderId, false, blobHash);
             } else {
                 // Read as Text for code
-                content = await file.text();
+                onAddFile(fileName, await file.text(), activeFolderId, false);
             }
-            
-            onAddFile(fileName, content, activeFolderId, false);
         } catch (err) {
             console.error(`Failed to load ${fileName}`, err);
         }
@@ -243,7 +240,7 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ files, activeFileId, onSele
         <form onSubmit={handleCreateSubmit} className="p-3 border-t border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30">
           <div className="text-xs text-gray-500 mb-1 flex justify-between">
               <span>New {addingType === 'folder' ? 'Folder' : 'File'} in:</span>
-              <span className="font-mono text-blue-500 truncate max-w-[100px]">{activeFolderId === 'root' ? '/' : '...'}</span>
+              <span className="font-mono text-blue-500 truncate max-w-[100px]">{activeFolder ? `/${getFilePath(files, activeFolder)}` : '/'}</span>
           </div>
           <div className="flex space-x-2">
             <input
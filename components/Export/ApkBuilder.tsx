@@ -1,19 +1,70 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Project } from '../../types';
-import { Archive, CheckCircle, AlertCircle, Loader2, Download, Folder, FileText, Layers } from 'lucide-react';
+import { buildApk, hasShellTemplate, SHELL_MISSING_MESSAGE } from '../../utils/apk/build';
+import { BuildConfigUpdate, getBuildConfig, validateBuildConfig, recordBuild } from '../../utils/buildConfig';
+import { unlockKeystore } from '../../utils/keystores';
+import { createPwaFiles } from '../../utils/pwa';
+import { bundleSingleFile, BundleWarning } from '../../utils/bundler';
+import { optimizeProject, OptimizeOptions, SizeReportEntry } from '../../utils/optimize';
+import { DEPLOY_TARGETS, DeployTarget, checkDeployment, createDeployFiles } from '../../utils/deploy';
+import { NATIVE_TARGETS, NativeTarget, WEB_DIR, createNativeProjectFiles } from '../../utils/nativeProject';
+import { SaveMethod, saveBlob, downloadBlob, canSaveWithPicker, canShareFile, pickSaveLocation, shareFile } from '../../utils/download';
+import { getFileBytes, isBinaryFile, dataUrlToBlob } from '../../utils/blobStore';
+import { hasRepository, addGitDirToZip } from '../../utils/git';
+import { Archive, CheckCircle, AlertCircle, Loader2, Download, Folder, FileText, Layers, GitBranch, Smartphone, FolderDown, Share2, Cloud, AppWindow, Gauge, Rocket, Package } from 'lucide-react';
 import clsx from 'clsx';
 import JSZip from 'jszip';
+import BuildSettings from './BuildSettings';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const formatSaving = (before: number, after: number) =>
+  before ? `${Math.round((1 - after / before) * 100)}%` : '0%';
 
 interface ApkBuilderProps {
   project: Project;
+  onUpdateBuildConfig: (update: BuildConfigUpdate) => void;
 }
 
-const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
+const ApkBuilder: React.FC<ApkBuilderProps> = ({ project, onUpdateBuildConfig }) => {
   const [isZipping, setIsZipping] = useState(false);
   const [isSingleFile, setIsSingleFile] = useState(false);
+  const [isPwa, setIsPwa] = useState(false);
+  const [bundleWarnings, setBundleWarnings] = useState<BundleWarning[]>([]);
+  const [optimize, setOptimize] = useState(false);
+  const [optimizeOptions, setOptimizeOptions] = useState<OptimizeOptions>({ minify: true, compressImages: true, hashNames: true });
+  const [sizeReport, setSizeReport] = useState<SizeReportEntry[]>([]);
+  const [deployTarget, setDeployTarget] = useState<DeployTarget | null>(null);
+  const [spaFallback, setSpaFallback] = useState(false);
+  const [basePath, setBasePath] = useState('/');
+  const [nativeTarget, setNativeTarget] = useState<NativeTarget | null>(null);
+  const [includeGit, setIncludeGit] = useState(false);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [downloadData, setDownloadData] = useState<{url: string, name: string} | null>(null);
+  const [zipDownload, setZipDownload] = useState<{url: string, name: string} | null>(null);
+  const [saveMethod, setSaveMethod] = useState<SaveMethod>('download');
+  const [cloudLink, setCloudLink] = useState<{url: string, host: string} | null>(null);
+  const [pendingShare, setPendingShare] = useState<File | null>(null);
+  const [isBuildingApk, setIsBuildingApk] = useState(false);
+  const [apkStatus, setApkStatus] = useState<string | null>(null);
+  const [apkError, setApkError] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [shellStatus, setShellStatus] = useState<'checking' | 'ready' | 'missing'>('checking');
+
+  const buildConfig = getBuildConfig(project);
+  const configErrors = validateBuildConfig(buildConfig);
+  const hasConfigErrors = Object.keys(configErrors).length > 0;
+
+  // APK builds need the shell template deployed with the app
+  useEffect(() => {
+      let cancelled = false;
+      hasShellTemplate().then(found => {
+          if (!cancelled) setShellStatus(found ? 'ready' : 'missing');
+      });
+      return () => { cancelled = true; };
+  }, []);
 
   // Cleanup object URL on unmount or when downloadData changes
   useEffect(() => {
@@ -24,53 +75,96 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
       };
   }, [downloadData]);
 
+  useEffect(() => {
+      return () => {
+          if (zipDownload?.url) {
+              URL.revokeObjectURL(zipDownload.url);
+          }
+      };
+  }, [zipDownload]);
+
+  const saveMethods: { id: SaveMethod; label: string; icon: React.ElementType; available: boolean }[] = [
+    { id: 'download', label: 'Download', icon: Download, available: true },
+    { id: 'picker', label: 'Save to...', icon: FolderDown, available: canSaveWithPicker() },
+    { id: 'share', label: 'Share', icon: Share2, available: canShareFile('project.zip', 'application/zip') },
+    { id: 'cloud', label: 'Cloud link', icon: Cloud, available: true }
+  ];
+
+  const deployIssues = useMemo(
+    () => deployTarget && !isSingleFile && !nativeTarget ? checkDeployment(project, deployTarget) : [],
+    [project, deployTarget, isSingleFile, nativeTarget]
+  );
+  const deployErrors = deployIssues.filter(issue => issue.severity === 'error');
+
+  const reportTotals = sizeReport.reduce(
+    (totals, entry) => ({ before: totals.before + entry.before, after: totals.after + entry.after }),
+    { before: 0, after: 0 }
+  );
+
+  const buildAndroidApk = async () => {
+    setIsBuildingApk(true);
+    setApkError(null);
+    setDownloadData(null);
+
+    try {
+      if (hasConfigErrors) throw new Error("Fix the highlighted build settings first.");
+      // Unlock first so a wrong passphrase fails before the build work
+      const signer = buildConfig.keystore ? await unlockKeystore(buildConfig.keystore, passphrase) : undefined;
+      const blob = await buildApk(project, buildConfig, setApkStatus, signer);
+      const name = `${buildConfig.appName.replace(/[^a-zA-Z0-9-_]/g, '') || 'app'}-${buildConfig.versionName}${signer ? '' : '-unsigned'}.apk`;
+      onUpdateBuildConfig(recordBuild(buildConfig));
+      // Built locally, so it downloads straight from memory
+      setDownloadData({ url: downloadBlob(blob, name, true), name });
+      setApkStatus(`${name} (${(blob.size / 1024 / 1024).toFixed(1)} MB) downloaded.`);
+    } catch (err: any) {
+      console.error("APK build error:", err);
+      setApkStatus(null);
+      setApkError(err.message || "An unexpected error occurred while building the APK.");
+    } finally {
+      setIsBuildingApk(false);
+    }
+  };
+
   const exportProject = async () => {
     setIsZipping(true);
     setSuccessMsg(null);
     setErrorMsg(null);
-    setDownloadData(null);
+    setZipDownload(null);
+    setCloudLink(null);
+    setPendingShare(null);
+    setBundleWarnings([]);
+    setSizeReport([]);
 
     try {
       if (!project) throw new Error("No project detected");
       
       const safeProjectName = project.name.replace(/[^a-zA-Z0-9-_\s]/g, '').trim() || "Project";
+      const suffix = isSingleFile ? '' : nativeTarget ?? [isPwa && 'pwa', deployTarget].filter(Boolean).join('-');
+      const fileName = suffix ? `${safeProjectName}-${suffix}.zip` : `${safeProjectName}.zip`;
       let blob: Blob;
-      let fileName: string;
+
+      if (deployErrors.length > 0) {
+          throw new Error(`Fix the deployment checklist first: ${deployErrors[0].message}`);
+      }
+
+      // The save dialog only opens while the click is fresh, so ask before building
+      const handle = saveMethod === 'picker' ? await pickSaveLocation(fileName, 'application/zip') : undefined;
+      if (handle === null) return;
+
+      // Every mode below exports the optimized copy when optimization is on
+      let source = project;
+      if (optimize) {
+          // A single file has no separate assets to fingerprint
+          const options = { ...optimizeOptions, hashNames: optimizeOptions.hashNames && !isSingleFile };
+          const { project: optimized, report } = await optimizeProject(project, options, setSuccessMsg);
+          source = optimized;
+          setSizeReport(report);
+      }
 
       if (isSingleFile) {
           // --- SINGLE HTML FILE MODE ---
-          const indexFile = project.files.find(f => f.name === 'index.html');
-          if (!indexFile) throw new Error("Project must contain 'index.html' for Single File conversion.");
-
-          let finalHtml = indexFile.content;
-
-          // Merge CSS
-          const cssFile = project.files.find(f => f.name === 'style.css');
-          if (cssFile) {
-              const cssBlock = `\n<style>\n/* Injected from style.css */\n${cssFile.content}\n</style>\n`;
-              if (finalHtml.includes('</head>')) {
-                  finalHtml = finalHtml.replace('</head>', `${cssBlock}</head>`);
-              } else if (finalHtml.includes('<body')) {
-                  finalHtml = finalHtml.replace(/<body/i, (match) => `${cssBlock}${match}`);
-              } else {
-                  finalHtml = `${cssBlock}${finalHtml}`;
-              }
-              finalHtml = finalHtml.replace(/<link\s+[^>]*href=["'](.*?\/)?style\.css["'][^>]*>/gi, '');
-          }
-
-          // Merge JS
-          const jsFile = project.files.find(f => f.name === 'script.js') || project.files.find(f => f.name === 'main.js');
-          if (jsFile) {
-              const jsBlock = `\n<script>\n/* Injected from ${jsFile.name} */\n${jsFile.content}\n</script>\n`;
-              if (finalHtml.includes('</body>')) {
-                  finalHtml = finalHtml.replace('</body>', `${jsBlock}</body>`);
-              } else {
-                  finalHtml = `${finalHtml}${jsBlock}`;
-              }
-              const jsNameRegex = jsFile.name.replace('.', '\\.');
-              const scriptTagRegex = new RegExp(`<script\\s+[^>]*src=["'](.*?\\/)?${jsNameRegex}["'][^>]*>\\s*<\\/script>`, 'gi');
-              finalHtml = finalHtml.replace(scriptTagRegex, '');
-          }
+          const { html: finalHtml, warnings } = await bundleSingleFile(source);
+          setBundleWarnings(warnings);
 
           // Instantiate Zip
           let zip: JSZip;
@@ -93,7 +187,6 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
               compression: "DEFLATE",
               compressionOptions: { level: 6 } 
           });
-          fileName = `${safeProjectName}.zip`;
 
       } else {
           // --- STANDARD RECURSIVE ZIP MODE ---
@@ -117,118 +210,86 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
           const rootFolder = zip.folder(safeProjectName);
           if (!rootFolder) throw new Error("Could not create root folder in ZIP");
 
-          const processFolder = (parentId: string, currentZipFolder: any) => {
-            const items = project.files.filter(f => f.parentId === parentId);
+          const processFolder = async (parentId: string, currentZipFolder: any) => {
+            const items = source.files.filter(f => f.parentId === parentId);
             
-            items.forEach(item => {
+            for (const item of items) {
                if (item.isDirectory) {
                    const newZipFolder = currentZipFolder.folder(item.name);
                    if (newZipFolder) {
-                       processFolder(item.id, newZipFolder);
+                       await processFolder(item.id, newZipFolder);
                    }
-               } else {
-                   let content: string | Blob = item.content;
-                   const isBinary = item.language === 'image' || item.language === 'font';
-                   
-                   if (isBinary && typeof content === 'string' && content.startsWith('data:')) {
-                       const parts = content.split(',');
-                       if (parts.length > 1) {
-                           const base64Data = parts[1];
-                           currentZipFolder.file(item.name, base64Data, { base64: true });
-                       }
-                   } else {
-                       currentZipFolder.file(item.name, content);
+               } else if (isBinaryFile(item)) {
+                   // Raw bytes straight from the blob store; recompressed images are data URLs
+                   const bytes = await getFileBytes(item);
+                   if (bytes) {
+                       currentZipFolder.file(item.name, bytes, { binary: true });
+                   } else if (item.content.startsWith('data:')) {
+                       currentZipFolder.file(item.name, dataUrlToBlob(item.content));
                    }
+               } else {
+                   currentZipFolder.file(item.name, item.content);
                }
-            });
+            }
           };
 
-          processFolder('root', rootFolder);
+          // Native skeletons keep the web app in its own folder, next to the config
+          const webFolder = nativeTarget ? rootFolder.folder(WEB_DIR) : rootFolder;
+          if (!webFolder) throw new Error("Could not create web folder in ZIP");
+          await processFolder('root', webFolder);
 
-          blob = await zip.generateAsync({ 
-              type: "blob",
-              compression: "DEFLATE",
-              compressionOptions: { level: 6 } 
-          });
-          fileName = `${safeProjectName}.zip`;
-      }
-      
-      // Upload to file.io with fallback to tmpfiles.org and transfer.sh
-      let downloadUrl: string | null = null;
-      
-      // Attempt 1: file.io
-      try {
-          setSuccessMsg("Uploading to file.io...");
-          const formData = new FormData();
-          formData.append('file', blob, fileName);
-          formData.append('expires', '1d'); 
-          formData.append('maxDownloads', '1');
-
-          const response = await fetch('https://file.io', {
-            method: 'POST',
-            body: formData
-          });
+          if (nativeTarget) {
+              for (const file of await createNativeProjectFiles(source, buildConfig, nativeTarget)) {
+                  rootFolder.file(file.path, file.data);
+              }
+          }
 
-          if (response.ok) {
-              const data = await response.json();
-              if (data.success && data.link) {
-                  downloadUrl = data.link;
+          if (isPwa) {
+              // Manifest, icons and service worker, plus index.html with them linked
+              for (const file of await createPwaFiles(source, buildConfig)) {
+                  rootFolder.file(file.path, file.data);
               }
           }
-      } catch (e) {
-          console.warn("file.io upload failed, trying fallback...", e);
-      }
 
-      // Attempt 2: tmpfiles.org (if attempt 1 failed)
-      if (!downloadUrl) {
-          try {
-              setSuccessMsg("Uploading to tmpfiles.org...");
-              const formData = new FormData();
-              formData.append('file', blob, fileName);
-
-              const response = await fetch('https://tmpfiles.org/api/v1/upload', {
-                  method: 'POST',
-                  body: formData
-              });
-
-              if (response.ok) {
-                  const data = await response.json();
-                  if (data && data.data && data.data.url) {
-                      // Convert to download URL by adding /dl/
-                      downloadUrl = data.data.url.replace('tmpfiles.org/', 'tmpfiles.org/dl/');
-                  }
+          if (deployTarget && !nativeTarget) {
+              // Host config files at the site root
+              for (const file of createDeployFiles(source, deployTarget, { spaFallback, basePath })) {
+                  rootFolder.file(file.path, file.data);
               }
-          } catch (e) {
-              console.warn("tmpfiles.org upload failed, trying fallback...", e);
           }
-      }
 
-      // Attempt 3: transfer.sh (if attempt 1 & 2 failed)
-      if (!downloadUrl) {
-          try {
-              setSuccessMsg("Uploading to transfer.sh...");
-              const response = await fetch(`https://transfer.sh/${fileName}`, {
-                  method: 'PUT',
-                  body: blob
-              });
-
-              if (response.ok) {
-                  const text = await response.text();
-                  if (text && text.startsWith('http')) {
-                      downloadUrl = text.trim();
-                  }
+          if (includeGit && !isPwa && !optimize && !deployTarget && !nativeTarget) {
+              if (!(await hasRepository(project.id))) {
+                  throw new Error("This project has no Git repository. Initialize one in the Git view first.");
               }
-          } catch (e) {
-              console.error("transfer.sh upload failed", e);
+              await addGitDirToZip(project.id, rootFolder);
           }
-      }
 
-      if (!downloadUrl) {
-         throw new Error("Failed to upload project to cloud storage. Please check your internet connection.");
+          blob = await zip.generateAsync({ 
+              type: "blob",
+              compression: "DEFLATE",
+              compressionOptions: { level: 6 } 
+          });
+      }
+      
+      const result = await saveBlob(blob, fileName, saveMethod, { handle, onProgress: setSuccessMsg });
+      switch (result.method) {
+          case 'download':
+              setZipDownload({ url: result.url, name: fileName });
+              setSuccessMsg(`${fileName} downloaded.`);
+              break;
+          case 'picker':
+              setSuccessMsg(`${fileName} saved.`);
+              break;
+          case 'share':
+              setPendingShare(result.file);
+              setSuccessMsg(`${fileName} is ready to share.`);
+              break;
+          case 'cloud':
+              setCloudLink({ url: result.url, host: result.host });
+              setSuccessMsg(`Uploaded to ${result.host}.`);
+              break;
       }
-
-      setSuccessMsg("Download starting...");
-      window.location.href = downloadUrl;
 
     } catch (err: any) {
       console.error("Export error:", err);
@@ -238,6 +299,21 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
     }
   };
 
+  // Runs from its own click, the share sheet needs a fresh user gesture
+  const shareExport = async () => {
+    if (!pendingShare) return;
+    setErrorMsg(null);
+    try {
+      if (await shareFile(pendingShare)) {
+          setSuccessMsg(`${pendingShare.name} shared.`);
+          setPendingShare(null);
+      }
+    } catch (err: any) {
+      console.error("Share error:", err);
+      setErrorMsg(err.message || "The file could not be shared.");
+    }
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-950 p-6 overflow-y-auto">
       <div className="max-w-xl mx-auto w-full space-y-8 mt-10">
@@ -271,14 +347,14 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
 
            {/* Toggle: Convert to Single File */}
            <div className="mb-8 p-4 bg-blue-50 dark:bg-blue-900/10 rounded-xl border border-blue-100 dark:border-blue-900/30">
-               <div className="flex items-center justify-between cursor-pointer" onClick={() => setIsSingleFile(!isSingleFile)}>
+               <div className="flex items-center justify-between cursor-pointer" onClick={() => { setIsSingleFile(!isSingleFile); setIsPwa(false); setNativeTarget(null); }}>
                   <div className="flex items-center space-x-3">
                      <div className={clsx("p-2 rounded-lg transition-colors", isSingleFile ? "bg-blue-200 dark:bg-blue-800" : "bg-white dark:bg-gray-700")}>
                         <Layers className={clsx("w-5 h-5", isSingleFile ? "text-blue-700 dark:text-blue-300" : "text-gray-500 dark:text-gray-400")} />
                      </div>
                      <div>
                         <span className="block text-sm font-bold text-gray-800 dark:text-gray-200">Convert to Single HTML File</span>
-                        <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">Merge CSS & JS into index.html</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">Inline CSS, JS, images & fonts into index.html</span>
                      </div>
                   </div>
                   
@@ -290,11 +366,232 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
                {isSingleFile && (
                    <div className="mt-3 pt-3 border-t border-blue-200 dark:border-blue-800/30 text-xs text-blue-600 dark:text-blue-300 flex items-start space-x-2">
                        <CheckCircle className="w-4 h-4 shrink-0 mt-0.5" />
-                       <p>Output ZIP will contain only <strong>index.html</strong> with all CSS and JS embedded inside it.</p>
+                       <p>Output ZIP will contain only <strong>index.html</strong> with all stylesheets, scripts, images and fonts embedded inside it.</p>
+                   </div>
+               )}
+           </div>
+
+           {/* Toggle: Progressive Web App */}
+           <div className="mb-8 p-4 bg-purple-50 dark:bg-purple-900/10 rounded-xl border border-purple-100 dark:border-purple-900/30">
+               <div className="flex items-center justify-between cursor-pointer" onClick={() => { setIsPwa(!isPwa); setIsSingleFile(false); setNativeTarget(null); }}>
+                  <div className="flex items-center space-x-3">
+                     <div className={clsx("p-2 rounded-lg transition-colors", isPwa ? "bg-purple-200 dark:bg-purple-800" : "bg-white dark:bg-gray-700")}>
+                        <AppWindow className={clsx("w-5 h-5", isPwa ? "text-purple-700 dark:text-purple-300" : "text-gray-500 dark:text-gray-400")} />
+                     </div>
+                     <div>
+                        <span className="block text-sm font-bold text-gray-800 dark:text-gray-200">Progressive Web App</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">Installable and works offline, no APK needed</span>
+                     </div>
+                  </div>
+
+                  <div className={clsx("w-12 h-6 rounded-full p-1 transition-colors duration-300", isPwa ? "bg-purple-600" : "bg-gray-300 dark:bg-gray-600")}>
+                      <div className={clsx("w-4 h-4 rounded-full bg-white shadow-sm transform transition-transform duration-300", isPwa ? "translate-x-6" : "translate-x-0")}></div>
+                  </div>
+               </div>
+
+               {isPwa && (
+                   <div className="mt-3 pt-3 border-t border-purple-200 dark:border-purple-800/30 text-xs text-purple-600 dark:text-purple-300 flex items-start space-x-2">
+                       <CheckCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                       <p>Adds <strong>manifest.webmanifest</strong>, icons and a service worker (<strong>sw.js</strong>) using the app name, colors, orientation, icon and cache mode from the Android build settings below. Serve it over HTTPS to install it.</p>
+                   </div>
+               )}
+           </div>
+
+           {/* Native Project Skeleton */}
+           <div className="mb-8 p-4 bg-indigo-50 dark:bg-indigo-900/10 rounded-xl border border-indigo-100 dark:border-indigo-900/30">
+               <div className="flex items-center space-x-3 mb-3">
+                  <div className={clsx("p-2 rounded-lg transition-colors", nativeTarget ? "bg-indigo-200 dark:bg-indigo-800" : "bg-white dark:bg-gray-700")}>
+                     <Package className={clsx("w-5 h-5", nativeTarget ? "text-indigo-700 dark:text-indigo-300" : "text-gray-500 dark:text-gray-400")} />
+                  </div>
+                  <div>
+                     <span className="block text-sm font-bold text-gray-800 dark:text-gray-200">Native Project</span>
+                     <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">Finish the build in Android Studio with Capacitor or Cordova</span>
+                  </div>
+               </div>
+
+               <div className="grid grid-cols-3 gap-2">
+                  {([null, 'capacitor', 'cordova'] as (NativeTarget | null)[]).map(target => (
+                    <button
+                      key={target ?? 'none'}
+                      onClick={() => {
+                        setNativeTarget(target);
+                        if (target) {
+                          setIsSingleFile(false);
+                          setIsPwa(false);
+                        }
+                      }}
+                      className={clsx(
+                        "p-2 rounded-lg border text-xs font-medium",
+                        nativeTarget === target ? "border-indigo-500 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300" : "border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300"
+                      )}
+                    >
+                      {target ? NATIVE_TARGETS[target].label : 'None'}
+                    </button>
+                  ))}
+               </div>
+
+               {nativeTarget && (
+                   <div className="mt-3 pt-3 border-t border-indigo-200 dark:border-indigo-800/30 text-xs text-indigo-600 dark:text-indigo-300 flex items-start space-x-2">
+                       <CheckCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                       <p>Your files go in <strong>{WEB_DIR}/</strong>, with {NATIVE_TARGETS[nativeTarget].description} from the Android build settings below. Importing such a ZIP reads <strong>{WEB_DIR}/</strong> back as a project.</p>
+                   </div>
+               )}
+           </div>
+
+           {/* Toggle: Optimize for Production */}
+           <div className="mb-8 p-4 bg-emerald-50 dark:bg-emerald-900/10 rounded-xl border border-emerald-100 dark:border-emerald-900/30">
+               <div className="flex items-center justify-between cursor-pointer" onClick={() => setOptimize(!optimize)}>
+                  <div className="flex items-center space-x-3">
+                     <div className={clsx("p-2 rounded-lg transition-colors", optimize ? "bg-emerald-200 dark:bg-emerald-800" : "bg-white dark:bg-gray-700")}>
+                        <Gauge className={clsx("w-5 h-5", optimize ? "text-emerald-700 dark:text-emerald-300" : "text-gray-500 dark:text-gray-400")} />
+                     </div>
+                     <div>
+                        <span className="block text-sm font-bold text-gray-800 dark:text-gray-200">Optimize for Production</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">Minify code, compress images and hash asset names</span>
+                     </div>
+                  </div>
+
+                  <div className={clsx("w-12 h-6 rounded-full p-1 transition-colors duration-300", optimize ? "bg-emerald-600" : "bg-gray-300 dark:bg-gray-600")}>
+                      <div className={clsx("w-4 h-4 rounded-full bg-white shadow-sm transform transition-transform duration-300", optimize ? "translate-x-6" : "translate-x-0")}></div>
+                  </div>
+               </div>
+
+               {optimize && (
+                   <div className="mt-3 pt-3 border-t border-emerald-200 dark:border-emerald-800/30 space-y-2 text-xs text-emerald-700 dark:text-emerald-300">
+                       {([
+                         ['minify', 'Minify HTML, CSS, JavaScript and JSON'],
+                         ['compressImages', 'Recompress PNG, JPEG and WebP images'],
+                         ['hashNames', 'Add content hashes to CSS, JS, image and font names']
+                       ] as [keyof OptimizeOptions, string][]).map(([key, label]) => (
+                         <label key={key} className={clsx("flex items-center space-x-2", key === 'hashNames' && isSingleFile && "opacity-50")}>
+                           <input
+                             type="checkbox"
+                             checked={optimizeOptions[key]}
+                             disabled={key === 'hashNames' && isSingleFile}
+                             onChange={e => setOptimizeOptions({ ...optimizeOptions, [key]: e.target.checked })}
+                             className="rounded"
+                           />
+                           <span>{label}</span>
+                         </label>
+                       ))}
+                       <p className="opacity-80">The project itself is left untouched; only the exported copy is optimized.</p>
                    </div>
                )}
            </div>
 
+           {/* Deployment Preset */}
+           {!isSingleFile && !nativeTarget && (
+             <div className="mb-8 p-4 bg-sky-50 dark:bg-sky-900/10 rounded-xl border border-sky-100 dark:border-sky-900/30">
+                 <div className="flex items-center space-x-3 mb-3">
+                    <div className={clsx("p-2 rounded-lg transition-colors", deployTarget ? "bg-sky-200 dark:bg-sky-800" : "bg-white dark:bg-gray-700")}>
+                       <Rocket className={clsx("w-5 h-5", deployTarget ? "text-sky-700 dark:text-sky-300" : "text-gray-500 dark:text-gray-400")} />
+                    </div>
+                    <div>
+                       <span className="block text-sm font-bold text-gray-800 dark:text-gray-200">Deploy To</span>
+                       <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">Adds the config files your host reads from the site root</span>
+                    </div>
+                 </div>
+
+                 <div className="grid grid-cols-3 gap-2">
+                    {([null, ...Object.keys(DEPLOY_TARGETS)] as (DeployTarget | null)[]).map(target => (
+                      <button
+                        key={target ?? 'none'}
+                        onClick={() => setDeployTarget(target)}
+                        className={clsx(
+                          "p-2 rounded-lg border text-xs font-medium",
+                          deployTarget === target ? "border-sky-500 bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300" : "border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300"
+                        )}
+                      >
+                        {target ? DEPLOY_TARGETS[target].label : 'None'}
+                      </button>
+                    ))}
+                 </div>
+
+                 {deployTarget && (
+                   <div className="mt-3 pt-3 border-t border-sky-200 dark:border-sky-800/30 space-y-3 text-xs text-sky-700 dark:text-sky-300">
+                     <p>{DEPLOY_TARGETS[deployTarget].description}.</p>
+                     <label className="flex items-center space-x-2">
+                       <input type="checkbox" checked={spaFallback} onChange={e => setSpaFallback(e.target.checked)} className="rounded" />
+                       <span>Single-page app: serve the entry page for unknown paths</span>
+                     </label>
+                     <label className="flex items-center space-x-2">
+                       <span className="shrink-0">Site path</span>
+                       <input
+                         value={basePath}
+                         onChange={e => setBasePath(e.target.value)}
+                         placeholder="/"
+                         spellCheck={false}
+                         className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-sky-200 dark:border-sky-800 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 font-mono outline-none focus:border-sky-500"
+                       />
+                     </label>
+                     <p className="opacity-80">The URL folder the site is served from, such as /my-repo/ for a GitHub Pages project site.</p>
+
+                     {deployIssues.length === 0 ? (
+                       <div className="flex items-center space-x-2 text-green-600 dark:text-green-400">
+                         <CheckCircle className="w-4 h-4 shrink-0" />
+                         <span>No deployment issues found.</span>
+                       </div>
+                     ) : (
+                       <ul className="space-y-1 max-h-40 overflow-y-auto">
+                         {deployIssues.map((issue, i) => (
+                           <li key={i} className={clsx("flex items-start space-x-2", issue.severity === 'error' ? "text-red-600 dark:text-red-400" : "text-yellow-700 dark:text-yellow-400")}>
+                             <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                             <span>{issue.file && <span className="font-mono">{issue.file}: </span>}{issue.message}</span>
+                           </li>
+                         ))}
+                       </ul>
+                     )}
+                   </div>
+                 )}
+             </div>
+           )}
+
+           {/* Toggle: Include Git Repository */}
+           {!isSingleFile && !isPwa && !optimize && !deployTarget && !nativeTarget && (
+             <div className="mb-8 p-4 bg-orange-50 dark:bg-orange-900/10 rounded-xl border border-orange-100 dark:border-orange-900/30">
+                 <div className="flex items-center justify-between cursor-pointer" onClick={() => setIncludeGit(!includeGit)}>
+                    <div className="flex items-center space-x-3">
+                       <div className={clsx("p-2 rounded-lg transition-colors", includeGit ? "bg-orange-200 dark:bg-orange-800" : "bg-white dark:bg-gray-700")}>
+                          <GitBranch className={clsx("w-5 h-5", includeGit ? "text-orange-700 dark:text-orange-300" : "text-gray-500 dark:text-gray-400")} />
+                       </div>
+                       <div>
+                          <span className="block text-sm font-bold text-gray-800 dark:text-gray-200">Include Git Repository</span>
+                          <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">Adds the .git folder with commits and branches</span>
+                       </div>
+                    </div>
+
+                    <div className={clsx("w-12 h-6 rounded-full p-1 transition-colors duration-300", includeGit ? "bg-orange-600" : "bg-gray-300 dark:bg-gray-600")}>
+                        <div className={clsx("w-4 h-4 rounded-full bg-white shadow-sm transform transition-transform duration-300", includeGit ? "translate-x-6" : "translate-x-0")}></div>
+                    </div>
+                 </div>
+             </div>
+           )}
+
+           {/* Save Method */}
+           <div className="mb-8">
+               <div className="grid grid-cols-4 gap-2">
+                  {saveMethods.filter(m => m.available).map(({ id, label, icon: Icon }) => (
+                    <button
+                      key={id}
+                      onClick={() => setSaveMethod(id)}
+                      className={clsx(
+                        "flex flex-col items-center p-2 rounded-lg border text-xs font-medium space-y-1",
+                        saveMethod === id ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300" : "border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300"
+                      )}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span>{label}</span>
+                    </button>
+                  ))}
+               </div>
+               {saveMethod === 'cloud' && (
+                 <div className="mt-3 p-3 bg-yellow-50 dark:bg-yellow-900/10 text-yellow-700 dark:text-yellow-400 rounded-lg flex items-start space-x-2 text-xs border border-yellow-100 dark:border-yellow-900/30">
+                   <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                   <p>The ZIP is uploaded to a public file host (file.io, tmpfiles.org or transfer.sh). Anyone with the link can download your source code.</p>
+                 </div>
+               )}
+           </div>
+
            {/* Status Messages */}
            <div className="space-y-4 mb-6">
                {errorMsg && (
@@ -309,7 +606,68 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
                    <CheckCircle className="w-5 h-5 shrink-0 mt-0.5" />
                    <div>
                       <p className="font-bold text-base">{successMsg}</p>
-                      <p className="opacity-90 mt-1">Your project has been prepared and is ready for download.</p>
+                      {!isZipping && zipDownload && (
+                        <a href={zipDownload.url} download={zipDownload.name} className="underline opacity-90 mt-1 inline-block">Download again</a>
+                      )}
+                      {!isZipping && pendingShare && (
+                        <button onClick={shareExport} className="mt-2 px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-white text-xs font-semibold flex items-center space-x-1.5">
+                          <Share2 className="w-3.5 h-3.5" />
+                          <span>Share</span>
+                        </button>
+                      )}
+                      {!isZipping && cloudLink && (
+                        <a href={cloudLink.url} target="_blank" rel="noopener noreferrer" className="underline opacity-90 mt-1 inline-block break-all">{cloudLink.url}</a>
+                      )}
+                   </div>
+                 </div>
+               )}
+
+               {bundleWarnings.length > 0 && (
+                 <div className="p-4 bg-yellow-50 dark:bg-yellow-900/10 text-yellow-700 dark:text-yellow-400 rounded-xl text-xs border border-yellow-100 dark:border-yellow-900/30">
+                   <div className="flex items-center space-x-2 font-bold text-sm mb-2">
+                     <AlertCircle className="w-4 h-4 shrink-0" />
+                     <span>{bundleWarnings.length} reference{bundleWarnings.length === 1 ? '' : 's'} could not be inlined</span>
+                   </div>
+                   <ul className="space-y-1 max-h-40 overflow-y-auto">
+                     {bundleWarnings.map((warning, i) => (
+                       <li key={i}>
+                         <span className="font-mono">{warning.file}</span>: <span className="font-mono break-all">{warning.reference}</span> ({warning.reason})
+                       </li>
+                     ))}
+                   </ul>
+                 </div>
+               )}
+
+               {sizeReport.length > 0 && (
+                 <div className="p-4 bg-gray-50 dark:bg-gray-700/30 rounded-xl text-xs border border-gray-100 dark:border-gray-600/50">
+                   <div className="flex items-center justify-between font-bold text-sm mb-2 text-gray-800 dark:text-gray-200">
+                     <span>Size report</span>
+                     <span>{formatSize(reportTotals.before)} → {formatSize(reportTotals.after)} ({formatSaving(reportTotals.before, reportTotals.after)})</span>
+                   </div>
+                   <div className="max-h-60 overflow-y-auto">
+                     <table className="w-full text-left text-gray-600 dark:text-gray-300">
+                       <thead className="text-gray-400">
+                         <tr>
+                           <th className="font-medium py-1">File</th>
+                           <th className="font-medium py-1 text-right">Before</th>
+                           <th className="font-medium py-1 text-right">After</th>
+                           <th className="font-medium py-1 text-right">Saved</th>
+                         </tr>
+                       </thead>
+                       <tbody>
+                         {sizeReport.map(entry => (
+                           <tr key={entry.path} className="border-t border-gray-100 dark:border-gray-700 align-top">
+                             <td className="py-1 pr-2">
+                               <span className="font-mono break-all">{entry.outputPath}</span>
+                               {entry.note && <span className="block text-yellow-600 dark:text-yellow-400">{entry.note}</span>}
+                             </td>
+                             <td className="py-1 text-right whitespace-nowrap">{formatSize(entry.before)}</td>
+                             <td className="py-1 text-right whitespace-nowrap">{formatSize(entry.after)}</td>
+                             <td className="py-1 text-right whitespace-nowrap">{formatSaving(entry.before, entry.after)}</td>
+                           </tr>
+                         ))}
+                       </tbody>
+                     </table>
                    </div>
                  </div>
                )}
@@ -329,12 +687,12 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
              {isZipping ? (
                <>
                  <Loader2 className="w-6 h-6 animate-spin" />
-                 <span>Preparing & Uploading...</span>
+                 <span>{saveMethod === 'cloud' ? "Preparing & Uploading..." : "Preparing..."}</span>
                </>
              ) : (
                <>
                  <Download className="w-6 h-6" />
-                 <span>{isSingleFile ? "Prepare HTML ZIP" : "Prepare ZIP"}</span>
+                 <span>{isSingleFile ? "Export HTML ZIP" : isPwa ? "Export PWA ZIP" : nativeTarget ? `Export ${NATIVE_TARGETS[nativeTarget].label} ZIP` : "Export ZIP"}</span>
                </>
              )}
            </button>
@@ -342,6 +700,78 @@ const ApkBuilder: React.FC<ApkBuilderProps> = ({ project }) => {
            <p className="text-center text-[10px] text-gray-400 mt-6 font-mono">
              Project: {project.name}.zip
            </p>
+           <p className="text-center text-[10px] text-gray-400 mt-1">
+             Built in your browser and works offline. Nothing is uploaded unless you choose a cloud link.
+           </p>
+        </div>
+
+        {/* Android APK */}
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 shadow-xl border border-gray-200 dark:border-gray-700">
+           <div className="flex items-center space-x-3 mb-6">
+              <div className="p-3 bg-green-100 dark:bg-green-900/30 rounded-lg">
+                <Smartphone className="w-6 h-6 text-green-600 dark:text-green-400" />
+              </div>
+              <div>
+                 <div className="font-bold text-gray-800 dark:text-white text-lg">Android APK</div>
+                 <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">Packages the project into a WebView app, offline in your browser</div>
+              </div>
+           </div>
+
+           {shellStatus === 'missing' && (
+             <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/10 text-yellow-700 dark:text-yellow-400 rounded-xl flex items-start space-x-3 text-sm border border-yellow-100 dark:border-yellow-900/30">
+               <AlertCircle className="w-5 h-5 shrink-0 mt-0.5" />
+               <p>{SHELL_MISSING_MESSAGE} You can still export a Capacitor or Cordova project above and build it in Android Studio.</p>
+             </div>
+           )}
+
+           <BuildSettings
+             config={buildConfig}
+             errors={configErrors}
+             onChange={onUpdateBuildConfig}
+             passphrase={passphrase}
+             onPassphraseChange={setPassphrase}
+           />
+
+           <div className="space-y-4 mb-6">
+               {apkError && (
+                 <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-xl flex items-center space-x-3 text-sm border border-red-100 dark:border-red-900/30">
+                   <AlertCircle className="w-5 h-5 shrink-0" />
+                   <span>{apkError}</span>
+                 </div>
+               )}
+
+               {apkStatus && (
+                 <div className="p-4 bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 rounded-xl flex items-start space-x-3 text-sm border border-green-100 dark:border-green-900/30">
+                   {isBuildingApk ? <Loader2 className="w-5 h-5 shrink-0 mt-0.5 animate-spin" /> : <CheckCircle className="w-5 h-5 shrink-0 mt-0.5" />}
+                   <div>
+                      <p className="font-bold">{apkStatus}</p>
+                      {!isBuildingApk && downloadData && (
+                        <a href={downloadData.url} download={downloadData.name} className="underline opacity-90 mt-1 inline-block">Download again</a>
+                      )}
+                   </div>
+                 </div>
+               )}
+           </div>
+
+           <button
+             onClick={buildAndroidApk}
+             disabled={isBuildingApk || hasConfigErrors || shellStatus !== 'ready'}
+             className={clsx(
+               "w-full py-4 rounded-xl font-bold text-white shadow-lg transition-all flex items-center justify-center space-x-3 text-lg",
+               isBuildingApk || shellStatus !== 'ready'
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-gradient-to-r from-green-600 to-emerald-600 hover:shadow-green-500/30 active:scale-[0.98] transform"
+             )}
+           >
+             {isBuildingApk ? <Loader2 className="w-6 h-6 animate-spin" /> : <Smartphone className="w-6 h-6" />}
+             <span>{isBuildingApk ? "Building APK..." : shellStatus === 'checking' ? "Checking APK template..." : shellStatus === 'missing' ? "APK template missing" : "Build APK"}</span>
+           </button>
+
+           <p className="text-center text-[10px] text-gray-400 mt-6">
+             {buildConfig.keystore
+               ? `Signed with "${buildConfig.keystore.alias}" (v1 + v2). Keep using this key so updates install over earlier builds.`
+               : "The APK is unsigned. Sign it before installing it on a device."}
+           </p>
         </div>
       </div>
     </div>
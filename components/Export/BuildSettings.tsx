@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { BuildConfig } from '../../types';
+import { BuildConfigErrors, MAX_VERSION_CODE } from '../../utils/buildConfig';
+import { blobToDataUrl } from '../../utils/blobStore';
+import { Image as ImageIcon, X } from 'lucide-react';
+import clsx from 'clsx';
+import KeystoreManager from './KeystoreManager';
+import IconGenerator from './IconGenerator';
+
+interface BuildSettingsProps {
+  config: BuildConfig;
+  errors: BuildConfigErrors;
+  onChange: (config: BuildConfig) => void;
+  passphrase: string;
+  onPassphraseChange: (passphrase: string) => void;
+}
+
+type SettingsTab = 'app' | 'appearance' | 'webview' | 'permissions' | 'signing';
+
+const TABS: { id: SettingsTab; label: string; fields: (keyof BuildConfig)[] }[] = [
+  { id: 'app', label: 'App', fields: ['appName', 'packageName', 'versionCode', 'versionName'] },
+  { id: 'appearance', label: 'Appearance', fields: ['splashBackgroundColor', 'statusBarColor'] },
+  { id: 'webview', label: 'WebView', fields: [] },
+  { id: 'permissions', label: 'Permissions', fields: [] },
+  { id: 'signing', label: 'Signing', fields: [] }
+];
+
+const inputClass = "w-full px-3 py-2 rounded-lg border bg-white dark:bg-gray-900 text-sm text-gray-800 dark:text-gray-200 outline-none focus:border-blue-500";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+const Field: React.FC<{ label: string; error?: string; hint?: string; children: React.ReactNode }> = ({ label, error, hint, children }) => (
+  <div>
+    <label className={labelClass}>{label}</label>
+    {children}
+    {error ? <p className="mt-1 text-[10px] text-red-500">{error}</p> : hint && <p className="mt-1 text-[10px] text-gray-400">{hint}</p>}
+  </div>
+);
+
+const Toggle: React.FC<{ label: string; description: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, description, checked, onChange }) => (
+  <div className="flex items-center justify-between cursor-pointer py-2" onClick={() => onChange(!checked)}>
+    <div>
+      <span className="block text-sm font-medium text-gray-800 dark:text-gray-200">{label}</span>
+      <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+    </div>
+    <div className={clsx("w-10 h-5 shrink-0 rounded-full p-0.5 transition-colors duration-300", checked ? "bg-blue-600" : "bg-gray-300 dark:bg-gray-600")}>
+      <div className={clsx("w-4 h-4 rounded-full bg-white shadow-sm transform transition-transform duration-300", checked ? "translate-x-5" : "translate-x-0")}></div>
+    </div>
+  </div>
+);
+
+const ColorField: React.FC<{ label: string; value: string; error?: string; onChange: (value: string) => void }> = ({ label, value, error, onChange }) => (
+  <Field label={label} error={error}>
+    <div className="flex items-center space-x-2">
+      <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-9 h-9 rounded border border-gray-200 dark:border-gray-600 bg-transparent cursor-pointer" />
+      <input value={value} onChange={(e) => onChange(e.target.value.trim())} spellCheck={false} className={clsx(inputClass, "font-mono", error ? "border-red-400" : "border-gray-200 dark:border-gray-600")} />
+    </div>
+  </Field>
+);
+
+const ImageField: React.FC<{ label: string; hint: string; value?: string; onChange: (value?: string) => void }> = ({ label, hint, value, onChange }) => {
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onChange(await blobToDataUrl(file));
+  };
+  return (
+    <Field label={label} hint={hint}>
+      <div className="flex items-center space-x-3">
+        <div className="w-12 h-12 rounded-lg border border-gray-200 dark:border-gray-600 bg-gray-100 dark:bg-gray-900 flex items-center justify-center overflow-hidden shrink-0">
+          {value ? <img src={value} alt="" className="w-full h-full object-cover" /> : <ImageIcon className="w-5 h-5 text-gray-400" />}
+        </div>
+        <label className="px-3 py-1.5 rounded-lg text-xs font-medium border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer">
+          Choose Image
+          <input type="file" accept="image/*" onChange={handleFile} className="hidden" />
+        </label>
+        {value && (
+          <button onClick={() => onChange(undefined)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </Field>
+  );
+};
+
+// Text on the splash preview stays readable on light and dark backgrounds
+const isDarkColor = (hex: string) => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+  const luminance = 0.299 * ((value >> 16) & 0xff) + 0.587 * ((value >> 8) & 0xff) + 0.114 * (value & 0xff);
+  return luminance < 140;
+};
+
+/** Phone mock-up of the launch screen as the shell shows it. */
+const SplashPreview: React.FC<{ config: BuildConfig }> = ({ config }) => {
+  const landscape = config.orientation === 'landscape';
+  const image = config.splash || config.icon;
+  return (
+    <div className="flex flex-col items-center space-y-2">
+      <div className={clsx("rounded-2xl border-4 border-gray-800 overflow-hidden flex flex-col shadow-lg", landscape ? "w-56 h-32" : "w-32 h-56")}>
+        {!config.fullscreen && (
+          <div className="h-3 shrink-0 flex items-center justify-end px-1.5 space-x-0.5" style={{ backgroundColor: config.statusBarColor }}>
+            {[0, 1, 2].map(i => (
+              <span key={i} className={clsx("w-1 h-1 rounded-full", isDarkColor(config.statusBarColor) ? "bg-white/80" : "bg-black/60")}></span>
+            ))}
+          </div>
+        )}
+        <div className="flex-1 flex flex-col items-center justify-center p-2" style={{ backgroundColor: config.splashBackgroundColor }}>
+          {image && <img src={image} alt="" className={clsx("object-contain", config.splash ? "max-w-[70%] max-h-[60%]" : "w-10 h-10 rounded-xl")} />}
+          <span className={clsx("mt-2 text-[10px] font-medium truncate max-w-full", isDarkColor(config.splashBackgroundColor) ? "text-white" : "text-gray-800")}>
+            {config.appName}
+          </span>
+        </div>
+      </div>
+      <span className="text-[10px] text-gray-400">Launch screen preview</span>
+    </div>
+  );
+};
+
+/** Tabbed form for the project's Android build configuration. */
+const BuildSettings: React.FC<BuildSettingsProps> = ({ config, errors, onChange, passphrase, onPassphraseChange }) => {
+  const [tab, setTab] = useState<SettingsTab>('app');
+  const update = <K extends keyof BuildConfig>(key: K, value: BuildConfig[K]) => onChange({ ...config, [key]: value });
+  const textInputClass = (error?: string) => clsx(inputClass, error ? "border-red-400" : "border-gray-200 dark:border-gray-600");
+
+  return (
+    <div className="mb-6 rounded-xl border border-gray-100 dark:border-gray-600/50 bg-gray-50 dark:bg-gray-700/30">
+      <div className="flex border-b border-gray-200 dark:border-gray-600 overflow-x-auto">
+        {TABS.map(item => (
+          <button
+            key={item.id}
+            onClick={() => setTab(item.id)}
+            className={clsx(
+              "px-3 py-2 text-xs font-medium border-b-2 whitespace-nowrap",
+              tab === item.id ? "border-blue-500 text-blue-600 dark:text-blue-400" : "border-transparent text-gray-500",
+              item.fields.some(field => errors[field]) && "text-red-500"
+            )}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="p-4 space-y-4">
+        {tab === 'app' && (
+          <>
+            <Field label="App name" error={errors.appName}>
+              <input value={config.appName} onChange={(e) => update('appName', e.target.value)} className={textInputClass(errors.appName)} />
+            </Field>
+            <Field label="Package name" error={errors.packageName} hint="Identifies the app on devices and in stores. It cannot change after publishing.">
+              <input value={config.packageName} onChange={(e) => update('packageName', e.target.value.trim())} spellCheck={false} autoCapitalize="off" className={clsx(textInputClass(errors.packageName), "font-mono")} />
+            </Field>
+            <div className="grid grid-cols-2 gap-3">
+              <Field
+                label="Version code"
+                error={errors.versionCode}
+                hint={config.lastBuild ? `Last build: ${config.lastBuild.versionCode}. Increases after each build.` : 'Increases after each build.'}
+              >
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_VERSION_CODE}
+                  value={Number.isNaN(config.versionCode) ? '' : config.versionCode}
+                  onChange={(e) => update('versionCode', parseInt(e.target.value, 10))}
+                  className={textInputClass(errors.versionCode)}
+                />
+              </Field>
+              <Field label="Version name" error={errors.versionName} hint={config.lastBuild ? `Last build: ${config.lastBuild.versionName}` : 'Shown to users, e.g. 1.0.0'}>
+                <input value={config.versionName} onChange={(e) => update('versionName', e.target.value)} className={textInputClass(errors.versionName)} />
+              </Field>
+            </div>
+          </>
+        )}
+
+        {tab === 'appearance' && (
+          <div className="flex flex-col sm:flex-row gap-6">
+            <div className="flex-1 space-y-4">
+              <ImageField label="App icon" hint="Square PNG, at least 512×512" value={config.icon} onChange={(value) => update('icon', value)} />
+              <IconGenerator config={config} onChange={onChange} />
+              <ImageField label="Splash image" hint="Shown centered while the app loads" value={config.splash} onChange={(value) => update('splash', value)} />
+              <div className="grid grid-cols-2 gap-3">
+                <ColorField label="Splash background" value={config.splashBackgroundColor} error={errors.splashBackgroundColor} onChange={(value) => update('splashBackgroundColor', value)} />
+                <ColorField label="Status bar" value={config.statusBarColor} error={errors.statusBarColor} onChange={(value) => update('statusBarColor', value)} />
+              </div>
+              <Field label="Orientation">
+                <select value={config.orientation} onChange={(e) => update('orientation', e.target.value as BuildConfig['orientation'])} className={textInputClass()}>
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                  <option value="sensor">Rotate with the device</option>
+                  <option value="auto">Follow system setting</option>
+                </select>
+              </Field>
+              <Toggle label="Fullscreen" description="Hide the status bar" checked={config.fullscreen} onChange={(value) => update('fullscreen', value)} />
+            </div>
+            <SplashPreview config={config} />
+          </div>
+        )}
+
+        {tab === 'webview' && (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            <Toggle label="JavaScript" description="Run the page's scripts" checked={config.javascriptEnabled} onChange={(value) => update('javascriptEnabled', value)} />
+            <Toggle label="DOM storage" description="Enable localStorage and sessionStorage" checked={config.domStorageEnabled} onChange={(value) => update('domStorageEnabled', value)} />
+            <Toggle label="Pinch to zoom" description="Let users zoom the page" checked={config.zoomEnabled} onChange={(value) => update('zoomEnabled', value)} />
+            <Toggle label="Pull to refresh" description="Reload the page by pulling down" checked={config.pullToRefresh} onChange={(value) => update('pullToRefresh', value)} />
+            <Toggle label="Hardware acceleration" description="Render with the GPU" checked={config.hardwareAccel} onChange={(value) => update('hardwareAccel', value)} />
+            <Toggle label="Clear cache on start" description="Always load fresh copies of remote resources" checked={config.clearCache} onChange={(value) => update('clearCache', value)} />
+            <div className="grid grid-cols-2 gap-3 pt-3">
+              <Field label="Cache mode">
+                <select value={config.cacheMode} onChange={(e) => update('cacheMode', e.target.value as BuildConfig['cacheMode'])} className={textInputClass()}>
+                  <option value="default">Default</option>
+                  <option value="no-cache">No cache</option>
+                  <option value="offline">Prefer cache (offline)</option>
+                </select>
+              </Field>
+              <Field label="Mixed content">
+                <select value={config.mixedContentMode} onChange={(e) => update('mixedContentMode', e.target.value as BuildConfig['mixedContentMode'])} className={textInputClass()}>
+                  <option value="never">Block HTTP on HTTPS</option>
+                  <option value="compatibility">Compatibility</option>
+                  <option value="always">Always allow</option>
+                </select>
+              </Field>
+            </div>
+          </div>
+        )}
+
+        {tab === 'permissions' && (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            <Toggle label="Internet" description="Load remote pages, APIs and CDNs" checked={config.internetPermission} onChange={(value) => update('internetPermission', value)} />
+            <Toggle label="Camera" description="getUserMedia and file inputs with capture" checked={config.cameraPermission} onChange={(value) => update('cameraPermission', value)} />
+            <Toggle label="Storage" description="Read and save files on shared storage" checked={config.storagePermission} onChange={(value) => update('storagePermission', value)} />
+            <Toggle label="Location" description="navigator.geolocation" checked={config.locationPermission} onChange={(value) => update('locationPermission', value)} />
+          </div>
+        )}
+
+        {tab === 'signing' && (
+          <KeystoreManager
+            selected={config.keystore}
+            onSelect={(keystore) => update('keystore', keystore)}
+            passphrase={passphrase}
+            onPassphraseChange={onPassphraseChange}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BuildSettings;
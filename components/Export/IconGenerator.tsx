@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { BuildConfig } from '../../types';
+import { MaskShape, MASKS, loadIconSource, renderAdaptivePreview, generateAssetPack } from '../../utils/icons';
+import { downloadBlob } from '../../utils/download';
+import { Download, Loader2, AlertCircle } from 'lucide-react';
+
+interface IconGeneratorProps {
+  config: BuildConfig;
+  onChange: (config: BuildConfig) => void;
+}
+
+const PREVIEW_SIZE = 216;
+
+/** Adaptive icon options with previews under launcher masks, and the generated asset pack. */
+const IconGenerator: React.FC<IconGeneratorProps> = ({ config, onChange }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    (async () => {
+      const source = await loadIconSource(config);
+      if (!source) return setPreviewUrl(null);
+      const blob = await renderAdaptivePreview(source, PREVIEW_SIZE);
+      source.image.close();
+      if (cancelled) return;
+      url = URL.createObjectURL(blob);
+      setPreviewUrl(url);
+    })().catch(e => !cancelled && setError(e.message || 'Could not read the icon image.'));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [config.icon, config.iconBackgroundColor, config.iconScale]);
+
+  const handleDownload = async () => {
+    setError(null);
+    try {
+      const blob = await generateAssetPack(config, setStatus);
+      downloadBlob(blob, `${config.appName.replace(/[^a-zA-Z0-9-_]/g, '') || 'app'}-assets.zip`);
+    } catch (e: any) {
+      setError(e.message || 'Could not generate the assets.');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  if (!config.icon) return null;
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-gray-200 dark:border-gray-600">
+      <div className="flex justify-between">
+        {(Object.keys(MASKS) as MaskShape[]).map(shape => (
+          <div key={shape} className="flex flex-col items-center space-y-1">
+            <div
+              className="w-12 h-12 overflow-hidden bg-gray-200 dark:bg-gray-700 shadow-sm"
+              style={{ borderRadius: MASKS[shape].radii.map(radius => `${radius * 100}%`).join(' ') }}
+            >
+              {/* Launchers show the middle two thirds of the 108dp layers */}
+              {previewUrl && <img src={previewUrl} alt="" className="max-w-none w-[150%] h-[150%] -ml-[25%] -mt-[25%]" />}
+            </div>
+            <span className="text-[10px] text-gray-400">{MASKS[shape].label}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Icon background</label>
+          <input
+            type="color"
+            value={config.iconBackgroundColor}
+            onChange={(e) => onChange({ ...config, iconBackgroundColor: e.target.value })}
+            className="w-full h-9 rounded border border-gray-200 dark:border-gray-600 bg-transparent cursor-pointer"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Icon size ({Math.round(config.iconScale * 100)}%)</label>
+          <input
+            type="range"
+            min={0.5}
+            max={1.5}
+            step={0.05}
+            value={config.iconScale}
+            onChange={(e) => onChange({ ...config, iconScale: parseFloat(e.target.value) })}
+            className="w-full h-9 accent-blue-600"
+          />
+        </div>
+      </div>
+      <p className="text-[10px] text-gray-400">
+        At 100% the artwork fills the safe zone, which no launcher mask cuts off.
+      </p>
+
+      {error && (
+        <div className="p-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg flex items-center space-x-2 text-xs">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <button
+        onClick={handleDownload}
+        disabled={!!status}
+        className="w-full px-3 py-2 rounded-lg text-xs font-medium border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center space-x-2"
+      >
+        {status ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+        <span>{status || 'Download icon & splash assets'}</span>
+      </button>
+      <p className="text-[10px] text-gray-400">
+        Launcher, round and adaptive icons for every density, splash screens and a web app icon set.
+      </p>
+    </div>
+  );
+};
+
+export default IconGenerator;
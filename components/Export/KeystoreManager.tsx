@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import { Keystore } from '../../types';
+import {
+  listKeystores, generateKeystore, importKeystore, exportKeystore, deleteKeystore,
+  KeystoreFormat, MIN_PASSPHRASE_LENGTH
+} from '../../utils/keystores';
+import { downloadBlob } from '../../utils/download';
+import { KeyRound, Plus, Upload, Download, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import clsx from 'clsx';
+
+interface KeystoreManagerProps {
+  selected?: Keystore;
+  onSelect: (keystore?: Keystore) => void;
+  passphrase: string;
+  onPassphraseChange: (passphrase: string) => void;
+}
+
+type Mode = 'list' | 'generate' | 'import';
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 text-sm text-gray-800 dark:text-gray-200 outline-none focus:border-blue-500";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+const secondaryButtonClass = "px-3 py-1.5 rounded-lg text-xs font-medium border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center space-x-1";
+
+/** Signing keys kept in the browser: create, import, export and pick one for APK builds. */
+const KeystoreManager: React.FC<KeystoreManagerProps> = ({ selected, onSelect, passphrase, onPassphraseChange }) => {
+  const [keystores, setKeystores] = useState<Keystore[]>([]);
+  const [mode, setMode] = useState<Mode>('list');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [keyToDelete, setKeyToDelete] = useState<string | null>(null);
+
+  // Form fields shared by the generate and import forms
+  const [alias, setAlias] = useState('');
+  const [commonName, setCommonName] = useState('');
+  const [organization, setOrganization] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    listKeystores()
+      .then(list => {
+        setKeystores(list);
+        // The project may point at a key deleted from another project
+        if (selected && !list.some(k => k.alias === selected.alias)) onSelect(undefined);
+      })
+      .catch(e => setError(e.message));
+  }, []);
+
+  const resetForm = (next: Mode) => {
+    setMode(next);
+    setError(null);
+    setAlias('');
+    setCommonName('');
+    setOrganization('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setImportFile(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Keystore operation failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const addKeystore = (keystore: Keystore) => {
+    setKeystores(prev => [keystore, ...prev]);
+    onSelect(keystore);
+    onPassphraseChange(newPassphrase);
+    resetForm('list');
+  };
+
+  const handleGenerate = () => run(async () => {
+    if (newPassphrase !== confirmPassphrase) throw new Error('The passphrases do not match.');
+    if (!commonName.trim()) throw new Error('Enter your name or company for the certificate.');
+    addKeystore(await generateKeystore(alias, newPassphrase, { commonName: commonName.trim(), organization: organization.trim() || undefined }));
+  });
+
+  const handleImport = () => run(async () => {
+    if (!importFile) throw new Error('Choose a .p12, .pfx or .jks file.');
+    addKeystore(await importKeystore(importFile, newPassphrase, alias));
+  });
+
+  const handleExport = (keystore: Keystore, format: KeystoreFormat) => run(async () => {
+    if (!passphrase) throw new Error(`Enter the passphrase of "${keystore.alias}" to export it.`);
+    downloadBlob(await exportKeystore(keystore.alias, passphrase, format), `${keystore.alias}.${format === 'jks' ? 'jks' : 'p12'}`);
+  });
+
+  const handleDelete = (keystore: Keystore) => run(async () => {
+    await deleteKeystore(keystore.alias);
+    setKeystores(prev => prev.filter(k => k.alias !== keystore.alias));
+    if (selected?.alias === keystore.alias) onSelect(undefined);
+    setKeyToDelete(null);
+  });
+
+  const select = (keystore?: Keystore) => {
+    if (keystore?.alias === selected?.alias) return;
+    onSelect(keystore);
+    onPassphraseChange('');
+    setKeyToDelete(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm font-bold text-gray-800 dark:text-gray-200">
+          <KeyRound className="w-4 h-4" />
+          <span>Signing Key</span>
+        </div>
+        {mode === 'list' && (
+          <div className="flex space-x-2">
+            <button onClick={() => resetForm('generate')} className={secondaryButtonClass}>
+              <Plus className="w-3 h-3" />
+              <span>New</span>
+            </button>
+            <button onClick={() => resetForm('import')} className={secondaryButtonClass}>
+              <Upload className="w-3 h-3" />
+              <span>Import</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg flex items-center space-x-2 text-xs border border-red-100 dark:border-red-900/30">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {mode === 'list' && (
+        <div className="space-y-2">
+          <button
+            onClick={() => select(undefined)}
+            className={clsx(
+              "w-full text-left p-3 rounded-lg border text-sm",
+              !selected ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20" : "border-gray-200 dark:border-gray-600"
+            )}
+          >
+            <span className="font-medium text-gray-800 dark:text-gray-200">Unsigned</span>
+            <span className="block text-xs text-gray-500 dark:text-gray-400">Sign the APK yourself later</span>
+          </button>
+
+          {keystores.map(keystore => {
+            const isSelected = selected?.alias === keystore.alias;
+            return (
+              <div
+                key={keystore.alias}
+                onClick={() => select(keystore)}
+                className={clsx(
+                  "p-3 rounded-lg border cursor-pointer",
+                  isSelected ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20" : "border-gray-200 dark:border-gray-600"
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm text-gray-800 dark:text-gray-200">{keystore.alias}</span>
+                  <span className="text-[10px] text-gray-400">Created {new Date(keystore.created).toLocaleDateString()}</span>
+                </div>
+                <div className="mt-1 font-mono text-[10px] text-gray-500 dark:text-gray-400 break-all" title="SHA-256 certificate fingerprint">
+                  {keystore.fingerprint}
+                </div>
+
+                {isSelected && (
+                  <div className="mt-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => onPassphraseChange(e.target.value)}
+                      placeholder="Passphrase"
+                      autoComplete="off"
+                      className={inputClass}
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      <button onClick={() => handleExport(keystore, 'pkcs12')} disabled={isBusy} className={secondaryButtonClass}>
+                        <Download className="w-3 h-3" />
+                        <span>Export .p12</span>
+                      </button>
+                      <button onClick={() => handleExport(keystore, 'jks')} disabled={isBusy} className={secondaryButtonClass}>
+                        <Download className="w-3 h-3" />
+                        <span>Export .jks</span>
+                      </button>
+                      {keyToDelete === keystore.alias ? (
+                        <>
+                          <button onClick={() => handleDelete(keystore)} disabled={isBusy} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-red-600 text-white hover:bg-red-700">
+                            Confirm Delete
+                          </button>
+                          <button onClick={() => setKeyToDelete(null)} className={secondaryButtonClass}>Cancel</button>
+                        </>
+                      ) : (
+                        <button onClick={() => setKeyToDelete(keystore.alias)} className={clsx(secondaryButtonClass, "hover:text-red-500")}>
+                          <Trash2 className="w-3 h-3" />
+                          <span>Delete</span>
+                        </button>
+                      )}
+                    </div>
+                    {keyToDelete === keystore.alias && (
+                      <p className="text-[10px] text-red-500">
+                        Without this key you can never publish updates to apps signed with it. Export a backup first.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {mode !== 'list' && (
+        <div className="space-y-3">
+          {mode === 'import' && (
+            <div>
+              <label className={labelClass}>Keystore file (.p12, .pfx, .jks)</label>
+              <input
+                type="file"
+                accept=".p12,.pfx,.jks,.keystore"
+                onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                className="w-full text-xs text-gray-600 dark:text-gray-300"
+              />
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>Alias{mode === 'import' && ' (optional, defaults to the one in the file)'}</label>
+            <input value={alias} onChange={(e) => setAlias(e.target.value)} placeholder="upload" className={inputClass} />
+          </div>
+          {mode === 'generate' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input value={commonName} onChange={(e) => setCommonName(e.target.value)} placeholder="Jane Doe" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Organization</label>
+                <input value={organization} onChange={(e) => setOrganization(e.target.value)} placeholder="Optional" className={inputClass} />
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{mode === 'import' ? 'File password' : 'Passphrase'}</label>
+              <input type="password" value={newPassphrase} onChange={(e) => setNewPassphrase(e.target.value)} autoComplete="new-password" className={inputClass} />
+            </div>
+            {mode === 'generate' && (
+              <div>
+                <label className={labelClass}>Confirm passphrase</label>
+                <input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} autoComplete="new-password" className={inputClass} />
+              </div>
+            )}
+          </div>
+          <p className="text-[10px] text-gray-400">
+            {mode === 'generate'
+              ? `At least ${MIN_PASSPHRASE_LENGTH} characters. The key is stored encrypted in this browser and the passphrase cannot be recovered.`
+              : 'The key is stored encrypted with the file password, which becomes its passphrase.'}
+          </p>
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => resetForm('list')} disabled={isBusy} className={secondaryButtonClass}>Cancel</button>
+            <button
+              onClick={mode === 'generate' ? handleGenerate : handleImport}
+              disabled={isBusy}
+              className="px-4 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 flex items-center space-x-1"
+            >
+              {isBusy && <Loader2 className="w-3 h-3 animate-spin" />}
+              <span>{mode === 'generate' ? 'Create Key' : 'Import Key'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeystoreManager;
@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Project, Snapshot, File } from '../../types';
+import { listSnapshots, compareFiles, FileChange } from '../../utils/history';
+import { diffLines } from '../../utils/diff';
+import { isBinaryFile } from '../../utils/blobStore';
+import { X, History, ChevronLeft, RotateCcw, Loader2, FileCode, Clock, Bot, Save } from 'lucide-react';
+import clsx from 'clsx';
+
+interface HistoryPanelProps {
+  project: Project;
+  refreshKey?: number;
+  onRestoreProject: (snapshot: Snapshot) => void;
+  onRestoreFile: (snapshot: Snapshot, file: File) => void;
+  onClose: () => void;
+}
+
+const changeStyles: Record<FileChange, string> = {
+  added: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300",
+  removed: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300",
+  modified: "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300",
+};
+
+// Changes are described from the snapshot towards the current project
+const changeLabels: Record<FileChange, string> = {
+  added: 'new since',
+  removed: 'deleted since',
+  modified: 'modified',
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ project, refreshKey, onRestoreProject, onRestoreFile, onClose }) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<Snapshot | null>(null);
+  const [diffFileId, setDiffFileId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    listSnapshots(project.id)
+      .then(list => { if (!cancelled) setSnapshots(list); })
+      .catch(e => console.error("Failed to load history", e))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [project.id, refreshKey]);
+
+  const changes = useMemo(() => {
+    if (!selected) return [];
+    return compareFiles(selected.files, project.files).filter(c => !c.file.isDirectory);
+  }, [selected, project.files]);
+
+  const diff = useMemo(() => {
+    if (!selected || !diffFileId) return null;
+    const before = selected.files.find(f => f.id === diffFileId);
+    const after = project.files.find(f => f.id === diffFileId);
+    const file = before || after;
+    if (!file) return null;
+    if (isBinaryFile(file)) return { file, lines: null };
+    return { file, lines: diffLines(before?.content || '', after?.content || '') };
+  }, [selected, diffFileId, project.files]);
+
+  const formatTime = (ts: number) => new Date(ts).toLocaleString('en-US', {
+    month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit'
+  });
+
+  const getReasonIcon = (reason: Snapshot['reason']) => {
+    switch (reason) {
+      case 'ai': return <Bot className="w-4 h-4 text-purple-500" />;
+      case 'manual': return <Save className="w-4 h-4 text-blue-500" />;
+      case 'restore': return <RotateCcw className="w-4 h-4 text-orange-500" />;
+      default: return <Clock className="w-4 h-4 text-gray-400" />;
+    }
+  };
+
+  const renderList = () => {
+    if (isLoading) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-gray-400">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      );
+    }
+    if (snapshots.length === 0) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-400 dark:text-gray-500 p-6 text-center">
+          <History className="w-10 h-10 mb-2 opacity-50" />
+          <p className="text-sm">No snapshots yet</p>
+          <p className="text-xs mt-1">Snapshots are taken on save, after AI edits and every few minutes.</p>
+        </div>
+      );
+    }
+    return (
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {snapshots.map(snapshot => (
+          <button
+            key={snapshot.id}
+            onClick={() => { setSelected(snapshot); setDiffFileId(null); }}
+            className="w-full text-left p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 border border-transparent hover:border-gray-200 dark:hover:border-gray-600 transition-colors"
+          >
+            <div className="flex items-center space-x-2">
+              {getReasonIcon(snapshot.reason)}
+              <span className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate flex-1">{snapshot.label}</span>
+            </div>
+            <div className="text-[10px] text-gray-400 mt-1 ml-6">{formatTime(snapshot.timestamp)}</div>
+            {snapshot.changedFiles.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2 ml-6">
+                {snapshot.changedFiles.slice(0, 5).map(name => (
+                  <span key={name} className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">{name}</span>
+                ))}
+                {snapshot.changedFiles.length > 5 && (
+                  <span className="text-[10px] text-gray-400">+{snapshot.changedFiles.length - 5} more</span>
+                )}
+              </div>
+            )}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderDetail = (snapshot: Snapshot) => (
+    <div className="flex-1 overflow-y-auto p-3 space-y-3">
+      <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/30 border border-gray-100 dark:border-gray-600/50">
+        <div className="text-sm font-bold text-gray-800 dark:text-gray-100">{snapshot.label}</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{formatTime(snapshot.timestamp)} &bull; {snapshot.files.filter(f => !f.isDirectory).length} files</div>
+        <button
+          onClick={() => onRestoreProject(snapshot)}
+          disabled={changes.length === 0}
+          className="mt-3 w-full flex items-center justify-center space-x-2 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>Restore Whole Project</span>
+        </button>
+      </div>
+
+      <div className="text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-gray-400 px-1">
+        Differences with current state
+      </div>
+      {changes.length === 0 && (
+        <p className="text-xs text-gray-400 px-1">Identical to the current project.</p>
+      )}
+      {changes.map(({ file, change }) => (
+        <div key={file.id} className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div
+            className="flex items-center justify-between px-3 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+            onClick={() => setDiffFileId(diffFileId === file.id ? null : file.id)}
+          >
+            <div className="flex items-center space-x-2 min-w-0">
+              <FileCode className="w-4 h-4 text-gray-400 shrink-0" />
+              <span className="text-xs font-mono truncate text-gray-700 dark:text-gray-200">{file.name}</span>
+              <span className={clsx("text-[10px] px-1.5 rounded-full shrink-0", changeStyles[change])}>{changeLabels[change]}</span>
+            </div>
+            {change !== 'added' && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  const original = snapshot.files.find(f => f.id === file.id);
+                  if (original) onRestoreFile(snapshot, original);
+                }}
+                className="p-1 text-gray-400 hover:text-blue-500 rounded hover:bg-white dark:hover:bg-gray-600 shrink-0"
+                title="Restore this file"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          {diffFileId === file.id && diff && (
+            <div className="border-t border-gray-100 dark:border-gray-700 bg-white dark:bg-[#1e1e1e] max-h-80 overflow-auto font-mono text-[11px]">
+              {diff.lines === null ? (
+                <p className="p-3 text-gray-400">Binary file changed</p>
+              ) : diff.lines.map((line, i) => (
+                <div
+                  key={i}
+                  className={clsx(
+                    "flex whitespace-pre",
+                    line.type === 'add' && "bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300",
+                    line.type === 'remove' && "bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300",
+                    line.type === 'equal' && "text-gray-500 dark:text-gray-400"
+                  )}
+                >
+                  <span className="w-8 shrink-0 text-right pr-1 opacity-50 select-none">{line.oldLine ?? ''}</span>
+                  <span className="w-8 shrink-0 text-right pr-1 opacity-50 select-none">{line.newLine ?? ''}</span>
+                  <span className="w-4 shrink-0 select-none">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+                  <span>{line.text}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-20 flex justify-end">
+      <div className="flex-1 bg-black/20 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="w-full max-w-md bg-white dark:bg-gray-800 shadow-2xl h-full border-l border-gray-200 dark:border-gray-700 flex flex-col transition-colors">
+        <div className="p-3 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-800/50">
+          <div className="flex items-center space-x-2">
+            {selected ? (
+              <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+            ) : (
+              <History className="w-5 h-5 text-gray-500" />
+            )}
+            <span className="font-semibold text-gray-700 dark:text-gray-200">{selected ? 'Snapshot' : 'History'}</span>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        {selected ? renderDetail(selected) : renderList()}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { ViewMode } from '../../types';
-import { Code, Settings, LayoutGrid, Server, Bot, Package } from 'lucide-react';
+import { Code, Settings, LayoutGrid, Server, Bot, Package, GitBranch } from 'lucide-react';
 import clsx from 'clsx';
 
 interface BottomNavProps {
@@ -13,6 +13,7 @@ const BottomNav: React.FC<BottomNavProps> = ({ currentView, setView }) => {
     { id: 'projects', icon: LayoutGrid, label: 'Home' },
     { id: 'editor', icon: Code, label: 'Code' },
     { id: 'preview', icon: Server, label: 'Run' },
+    { id: 'source-control', icon: GitBranch, label: 'Git' },
     { id: 'export', icon: Package, label: 'Export' },
     { id: 'settings', icon: Settings, label: 'Settings' },
   ];
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronRight, CornerDownLeft } from 'lucide-react';
+
+interface ConsoleInputProps {
+  onEvaluate: (expression: string) => void;
+  onComplete?: (expression: string) => Promise<string[]>;
+}
+
+const HISTORY_KEY = 'buildora_console_history';
+const MAX_HISTORY = 100;
+const COMPLETION_DELAY_MS = 150;
+
+const loadHistory = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+// The identifier being typed at the end of the input, which a completion replaces
+const TRAILING_IDENTIFIER = /[A-Za-z_$][\w$]*$/;
+
+/** Command line of the console: Enter runs, Shift+Enter adds a line, arrows walk the history. */
+const ConsoleInput: React.FC<ConsoleInputProps> = ({ onEvaluate, onComplete }) => {
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>(loadHistory);
+  // Position while walking the history; history.length is the unsent draft
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [draft, setDraft] = useState('');
+  const [completions, setCompletions] = useState<string[]>([]);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!onComplete || !input.trim()) {
+      setCompletions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      onComplete(input)
+        .then(names => { if (!cancelled) setCompletions(names); })
+        .catch(() => { if (!cancelled) setCompletions([]); });
+    }, COMPLETION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input, onComplete]);
+
+  const run = () => {
+    const expression = input.trim();
+    if (!expression) return;
+    onEvaluate(expression);
+    const next = [...history.filter(entry => entry !== expression), expression].slice(-MAX_HISTORY);
+    setHistory(next);
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+    setHistoryIndex(-1);
+    setInput('');
+    setCompletions([]);
+  };
+
+  const showHistoryEntry = (index: number) => {
+    if (historyIndex === -1) setDraft(input);
+    setHistoryIndex(index);
+    setInput(index >= history.length ? draft : history[index]);
+  };
+
+  const acceptCompletion = (name: string) => {
+    setInput(input.replace(TRAILING_IDENTIFIER, '') + name);
+    setCompletions([]);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    const position = historyIndex === -1 ? history.length : historyIndex;
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      run();
+    } else if (e.key === 'Tab' && completions.length > 0) {
+      e.preventDefault();
+      acceptCompletion(completions[0]);
+    } else if (e.key === 'Escape') {
+      setCompletions([]);
+    } else if (e.key === 'ArrowUp' && position > 0 && !input.slice(0, textarea.selectionStart).includes('\n')) {
+      // Only from the first line, so multi-line input stays editable
+      e.preventDefault();
+      showHistoryEntry(position - 1);
+    } else if (e.key === 'ArrowDown' && historyIndex !== -1 && !input.slice(textarea.selectionEnd).includes('\n')) {
+      e.preventDefault();
+      if (position + 1 >= history.length) {
+        setHistoryIndex(-1);
+        setInput(draft);
+      } else {
+        showHistoryEntry(position + 1);
+      }
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-100 dark:border-gray-700">
+      {completions.length > 0 && (
+        <div className="flex gap-1 px-2 pt-1 overflow-x-auto">
+          {completions.map(name => (
+            <button
+              key={name}
+              // Keep focus in the input so the keyboard stays open on phones
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => acceptCompletion(name)}
+              className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-blue-100 dark:hover:bg-blue-900/40 font-mono text-[11px] whitespace-nowrap"
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-start px-2 py-1 font-mono text-xs">
+        <ChevronRight className="w-3 h-3 mt-1 text-blue-500 shrink-0" />
+        <textarea
+          ref={inputRef}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHistoryIndex(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          rows={Math.min(input.split('\n').length, 5)}
+          placeholder="Evaluate in preview"
+          spellCheck={false}
+          autoCapitalize="off"
+          autoCorrect="off"
+          className="flex-1 ml-1 bg-transparent outline-none resize-none text-gray-800 dark:text-gray-200 placeholder-gray-400"
+        />
+        <button
+          onClick={run}
+          className="p-1 text-gray-400 hover:text-blue-500"
+          title="Run (Enter)"
+        >
+          <CornerDownLeft className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConsoleInput;
@@ -1,16 +1,75 @@
-import React, { useEffect, useRef } from 'react';
-import { ConsoleMessage } from '../../types';
-import { X, Trash2, Terminal, AlertTriangle, Info, CheckCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ConsoleMessage, ConsoleTable, NetworkRequest } from '../../types';
+import { formatFrame } from '../../utils/stackTrace';
+import ConsoleValueView from './ConsoleValueView';
+import ConsoleInput from './ConsoleInput';
+import NetworkPanel from './NetworkPanel';
+import { X, Trash2, Terminal, AlertTriangle, Info, CheckCircle, ChevronRight, ChevronDown, ChevronLeft, Globe } from 'lucide-react';
 import clsx from 'clsx';
 
 interface ConsolePanelProps {
   logs: ConsoleMessage[];
   onClose: () => void;
   onClear: () => void;
+  onEvaluate?: (expression: string) => void; // Shows the command line when set
+  onComplete?: (expression: string) => Promise<string[]>;
+  networkRequests?: NetworkRequest[]; // Shows the Network tab when set
+  onClearNetwork?: () => void;
 }
 
-const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs, onClose, onClear }) => {
+const TableView: React.FC<{ table: ConsoleTable }> = ({ table }) => (
+  <div className="overflow-x-auto mt-1">
+    <table className="border-collapse text-[11px]">
+      <thead>
+        <tr>
+          {['(index)', ...table.columns].map(column => (
+            <th key={column} className="border border-gray-200 dark:border-gray-700 px-2 py-0.5 text-left font-semibold bg-gray-50 dark:bg-gray-800">{column}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map(row => (
+          <tr key={row.index}>
+            <td className="border border-gray-200 dark:border-gray-700 px-2 py-0.5">{row.index}</td>
+            {table.columns.map(column => (
+              <td key={column} className="border border-gray-200 dark:border-gray-700 px-2 py-0.5">
+                {row.cells[column] && <ConsoleValueView value={row.cells[column]}/>}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs, onClose, onClear, onEvaluate, onComplete, networkRequests, onClearNetwork }) => {
   const endRef = useRef<HTMLDivElement>(null);
+  const [tab, setTab] = useState<'console' | 'network'>('console');
+  const showNetwork = tab === 'network' && !!networkRequests;
+  // Groups the user opened or closed, against their initial state
+  const [toggledGroups, setToggledGroups] = useState<Set<string>>(new Set());
+
+  const isCollapsed = (log: ConsoleMessage) => (log.group === 'collapsed') !== toggledGroups.has(log.id);
+
+  const toggleGroup = (id: string) => {
+    setToggledGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  // Messages inside a collapsed group are nested deeper than its header
+  const visibleLogs = useMemo(() => {
+    let hiddenBelow: number | null = null;
+    return logs.filter(log => {
+      const depth = log.depth || 0;
+      if (hiddenBelow !== null && depth > hiddenBelow) return false;
+      hiddenBelow = log.group && isCollapsed(log) ? depth : null;
+      return true;
+    });
+  }, [logs, toggledGroups]);
 
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -22,6 +81,8 @@ const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs, onClose, onClear }) =
           case 'warn': return <AlertTriangle className="w-3 h-3 text-yellow-500" />;
           case 'info': return <Info className="w-3 h-3 text-blue-500" />;
           case 'system': return <Terminal className="w-3 h-3 text-purple-500" />;
+          case 'command': return <ChevronRight className="w-3 h-3 text-blue-500" />;
+          case 'result': return <ChevronLeft className="w-3 h-3 text-gray-400" />;
           default: return <CheckCircle className="w-3 h-3 text-gray-400" />;
       }
   };
@@ -29,16 +90,38 @@ const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs, onClose, onClear }) =
   return (
     <div className="h-48 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-[#1e1e1e] flex flex-col shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)] transition-all z-20 animate-in slide-in-from-bottom duration-200">
         <div className="flex justify-between items-center px-4 py-2 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-[#252526]">
-            <div className="flex items-center space-x-2">
-                <Terminal className="w-4 h-4 text-gray-500" />
-                <span className="text-xs font-bold uppercase tracking-wider text-gray-600 dark:text-gray-300">Console / Server Logs</span>
-                <span className="text-[10px] bg-gray-200 dark:bg-gray-700 px-1.5 rounded-full text-gray-600 dark:text-gray-400">{logs.length}</span>
-            </div>
+            {networkRequests ? (
+                <div className="flex items-center space-x-3">
+                    {([
+                      ['console', 'Console', Terminal, logs.length],
+                      ['network', 'Network', Globe, networkRequests.length]
+                    ] as const).map(([id, label, Icon, count]) => (
+                        <button
+                          key={id}
+                          onClick={() => setTab(id)}
+                          className={clsx(
+                            "flex items-center space-x-1.5 text-xs font-bold uppercase tracking-wider",
+                            tab === id ? "text-blue-600 dark:text-blue-400" : "text-gray-500 dark:text-gray-400"
+                          )}
+                        >
+                            <Icon className="w-4 h-4" />
+                            <span>{label}</span>
+                            <span className="text-[10px] bg-gray-200 dark:bg-gray-700 px-1.5 rounded-full text-gray-600 dark:text-gray-400">{count}</span>
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <div className="flex items-center space-x-2">
+                    <Terminal className="w-4 h-4 text-gray-500" />
+                    <span className="text-xs font-bold uppercase tracking-wider text-gray-600 dark:text-gray-300">Console / Server Logs</span>
+                    <span className="text-[10px] bg-gray-200 dark:bg-gray-700 px-1.5 rounded-full text-gray-600 dark:text-gray-400">{logs.length}</span>
+                </div>
+            )}
             <div className="flex items-center space-x-2">
                 <button 
-                  onClick={onClear} 
+                  onClick={showNetwork ? onClearNetwork : onClear} 
                   className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded text-gray-500"
-                  title="Clear Console"
+                  title={showNetwork ? "Clear Requests" : "Clear Console"}
                 >
                     <Trash2 className="w-4 h-4" />
                 </button>
@@ -51,30 +134,54 @@ const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs, onClose, onClear }) =
             </div>
         </div>
         
-        <div className="flex-1 overflow-y-auto p-2 font-mono text-xs space-y-1">
-            {logs.length === 0 && (
-                <div className="h-full flex flex-col items-center justify-center text-gray-400 opacity-50">
-                    <Terminal className="w-8 h-8 mb-2" />
-                    <p>No logs to display</p>
-                </div>
-            )}
-            {logs.map((log) => (
-                <div key={log.id} className={clsx(
-                    "flex items-start space-x-2 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800",
-                    log.type === 'error' ? "text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/10" : 
-                    log.type === 'warn' ? "text-yellow-600 dark:text-yellow-400 bg-yellow-50 dark:bg-yellow-900/10" :
-                    log.type === 'system' ? "text-purple-600 dark:text-purple-400" :
-                    "text-gray-700 dark:text-gray-300"
-                )}>
-                    <div className="mt-0.5">{getIcon(log.type)}</div>
-                    <div className="flex-1 break-all">
-                        <span className="opacity-50 mr-2 text-[10px]">{new Date(log.timestamp).toLocaleTimeString()}</span>
-                        {log.message}
+        {showNetwork ? (
+            <NetworkPanel requests={networkRequests!} />
+        ) : (
+            <>
+            <div className="flex-1 overflow-y-auto p-2 font-mono text-xs space-y-1">
+                {logs.length === 0 && (
+                    <div className="h-full flex flex-col items-center justify-center text-gray-400 opacity-50">
+                        <Terminal className="w-8 h-8 mb-2" />
+                        <p>No logs to display</p>
                     </div>
-                </div>
-            ))}
-            <div ref={endRef} />
-        </div>
+                )}
+                {visibleLogs.map((log) => (
+                    <div key={log.id} style={{ marginLeft: (log.depth || 0) * 12 }} className={clsx(
+                        "flex items-start space-x-2 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800",
+                        log.type === 'error' ? "text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/10" : 
+                        log.type === 'warn' ? "text-yellow-600 dark:text-yellow-400 bg-yellow-50 dark:bg-yellow-900/10" :
+                        log.type === 'system' ? "text-purple-600 dark:text-purple-400" :
+                        log.type === 'command' ? "text-blue-700 dark:text-blue-300" :
+                        "text-gray-700 dark:text-gray-300"
+                    )}>
+                        <div className="mt-0.5">
+                            {log.group ? (
+                                <button onClick={() => toggleGroup(log.id)} className="text-gray-500">
+                                    {isCollapsed(log) ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                                </button>
+                            ) : getIcon(log.type)}
+                        </div>
+                        <div className={clsx("flex-1 break-all", log.group && "font-semibold", log.type === 'command' && "whitespace-pre-wrap")}>
+                            <span className="opacity-50 mr-2 text-[10px]">{new Date(log.timestamp).toLocaleTimeString()}</span>
+                            {log.table ? <TableView table={log.table} /> : log.args ? log.args.map((arg, index) => (
+                                <React.Fragment key={index}>
+                                    {index > 0 && ' '}
+                                    <ConsoleValueView value={arg} />
+                                </React.Fragment>
+                            )) : log.message}
+                            {log.stack && log.stack.length > 0 && (
+                                <div className="opacity-75 pl-3">
+                                    {log.stack.map((frame, index) => <div key={index}>at {formatFrame(frame)}</div>)}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                <div ref={endRef} />
+            </div>
+            {onEvaluate && <ConsoleInput onEvaluate={onEvaluate} onComplete={onComplete} />}
+            </>
+        )}
     </div>
   );
 };
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { ConsoleValue } from '../../types';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import clsx from 'clsx';
+
+interface ConsoleValueViewProps {
+  value: ConsoleValue;
+  name?: string; // Property name when shown inside an object
+}
+
+const VALUE_COLORS: Partial<Record<ConsoleValue['type'], string>> = {
+  string: 'text-red-700 dark:text-orange-300',
+  number: 'text-blue-600 dark:text-blue-300',
+  bigint: 'text-blue-600 dark:text-blue-300',
+  boolean: 'text-purple-600 dark:text-purple-300',
+  undefined: 'text-gray-400',
+  null: 'text-gray-400',
+  symbol: 'text-teal-600 dark:text-teal-300',
+  function: 'text-gray-500 italic',
+  node: 'text-pink-600 dark:text-pink-300',
+  circular: 'text-gray-400 italic'
+};
+
+/** One logged value; objects, arrays and errors expand into their entries. */
+const ConsoleValueView: React.FC<ConsoleValueViewProps> = ({ value, name }) => {
+  const [expanded, setExpanded] = useState(false);
+  const expandable = !!value.entries?.length || !!value.stack;
+
+  // Top-level strings print as plain text, like browser consoles do
+  const text = value.type === 'string' && name !== undefined ? JSON.stringify(value.description) : value.description;
+  const label = (
+    <>
+      {name !== undefined && <span className="text-purple-700 dark:text-purple-300">{name}: </span>}
+      <span className={clsx(name === undefined && value.type === 'string' ? '' : VALUE_COLORS[value.type])}>{text}</span>
+    </>
+  );
+
+  if (!expandable) return <span className="whitespace-pre-wrap">{label}</span>;
+
+  return (
+    <span className="inline-block align-top">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="inline-flex items-start text-left hover:bg-gray-200/50 dark:hover:bg-gray-700/50 rounded"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3 mt-0.5 shrink-0" /> : <ChevronRight className="w-3 h-3 mt-0.5 shrink-0" />}
+        <span className="whitespace-pre-wrap">{label}</span>
+      </button>
+      {expanded && (
+        <div className="pl-4 border-l border-gray-200 dark:border-gray-700 ml-1.5">
+          {value.stack && <div className="whitespace-pre-wrap opacity-75">{value.stack}</div>}
+          {value.entries?.map(entry => (
+            <div key={entry.key}>
+              <ConsoleValueView value={entry.value} name={entry.key} />
+            </div>
+          ))}
+        </div>
+      )}
+    </span>
+  );
+};
+
+export default ConsoleValueView;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { NetworkRequest } from '../../types';
+import { ChevronLeft, ShieldAlert, Globe } from 'lucide-react';
+import clsx from 'clsx';
+
+interface NetworkPanelProps {
+  requests: NetworkRequest[];
+}
+
+const BLOCKED_REASONS: Record<NonNullable<NetworkRequest['blocked']>, string> = {
+  'mixed-content': 'Blocked as mixed content: the preview is served over HTTPS, so the browser refuses plain HTTP requests. Use an https:// URL.',
+  'sandbox': 'Blocked by the preview sandbox: the page has no origin to send this request from. Use absolute URLs, or a browser that supports the preview server.'
+};
+
+/** Short label for the request list: the last path segment plus query, like DevTools. */
+const getRequestName = (url: string) => {
+  if (url.startsWith('data:')) return url.slice(0, 40);
+  try {
+    const parsed = new URL(url);
+    const segment = parsed.pathname.split('/').filter(Boolean).pop();
+    return (segment ? decodeURIComponent(segment) : parsed.host || '/') + parsed.search;
+  } catch {
+    return url;
+  }
+};
+
+const formatDuration = (ms?: number) => {
+  if (ms === undefined) return '';
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+};
+
+const getStatusLabel = (request: NetworkRequest) => {
+  if (request.state === 'pending') return 'pending';
+  if (request.state === 'failed') return request.blocked ? 'blocked' : 'failed';
+  return String(request.status);
+};
+
+const isErrorRequest = (request: NetworkRequest) => request.state === 'failed' || (request.status ?? 0) >= 400;
+
+// JSON bodies are shown indented; everything else verbatim
+const formatBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <details open className="border-b border-gray-100 dark:border-gray-800">
+    <summary className="px-2 py-1 font-semibold cursor-pointer select-none text-gray-600 dark:text-gray-300">{title}</summary>
+    <div className="px-4 pb-2">{children}</div>
+  </details>
+);
+
+const HeaderList: React.FC<{ headers?: Record<string, string> }> = ({ headers }) => {
+  const names = Object.keys(headers || {});
+  if (names.length === 0) return <div className="text-gray-400 italic">None</div>;
+  return (
+    <>
+      {names.map(name => (
+        <div key={name} className="break-all">
+          <span className="text-purple-700 dark:text-purple-300">{name}:</span> {headers![name]}
+        </div>
+      ))}
+    </>
+  );
+};
+
+const NetworkPanel: React.FC<NetworkPanelProps> = ({ requests }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = requests.find(request => request.id === selectedId);
+
+  if (selected) {
+    return (
+      <div className="flex-1 overflow-y-auto font-mono text-xs text-gray-700 dark:text-gray-300">
+        <div className="flex items-center px-2 py-1 border-b border-gray-100 dark:border-gray-800 sticky top-0 bg-white dark:bg-[#1e1e1e]">
+          <button onClick={() => setSelectedId(null)} className="p-1 mr-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="truncate font-semibold">{getRequestName(selected.url)}</span>
+        </div>
+        {selected.blocked && (
+          <div className="flex items-start gap-2 m-2 p-2 rounded bg-red-50 dark:bg-red-900/10 text-red-600 dark:text-red-400">
+            <ShieldAlert className="w-4 h-4 shrink-0" />
+            <span>{BLOCKED_REASONS[selected.blocked]}</span>
+          </div>
+        )}
+        <Section title="General">
+          <div className="break-all"><span className="text-gray-400">URL:</span> {selected.url}</div>
+          <div><span className="text-gray-400">Method:</span> {selected.method}</div>
+          <div>
+            <span className="text-gray-400">Status:</span>{' '}
+            {selected.state === 'complete' ? `${selected.status} ${selected.statusText || ''}` : selected.error || 'Pending'}
+          </div>
+          <div><span className="text-gray-400">Initiator:</span> {selected.initiator === 'xhr' ? 'XMLHttpRequest' : 'fetch'}</div>
+          {selected.duration !== undefined && <div><span className="text-gray-400">Time:</span> {formatDuration(selected.duration)}</div>}
+        </Section>
+        {selected.state === 'complete' && (
+          <Section title="Response Headers">
+            <HeaderList headers={selected.responseHeaders} />
+          </Section>
+        )}
+        <Section title="Request Headers">
+          <HeaderList headers={selected.requestHeaders} />
+        </Section>
+        {selected.requestBody !== undefined && (
+          <Section title="Request Body">
+            <pre className="whitespace-pre-wrap break-all">{formatBody(selected.requestBody)}</pre>
+          </Section>
+        )}
+        {selected.responseBody !== undefined && (
+          <Section title="Response Body">
+            <pre className="whitespace-pre-wrap break-all">{formatBody(selected.responseBody)}</pre>
+          </Section>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto font-mono text-xs">
+      {requests.length === 0 && (
+        <div className="h-full flex flex-col items-center justify-center text-gray-400 opacity-50">
+          <Globe className="w-8 h-8 mb-2" />
+          <p>No requests recorded</p>
+        </div>
+      )}
+      {requests.map(request => (
+        <button
+          key={request.id}
+          onClick={() => setSelectedId(request.id)}
+          className={clsx(
+            "w-full flex items-center gap-2 px-2 py-1 text-left border-b border-gray-50 dark:border-gray-800 hover:bg-gray-100 dark:hover:bg-gray-800",
+            isErrorRequest(request) ? "text-red-600 dark:text-red-400" :
+            request.state === 'pending' ? "text-gray-400" :
+            "text-gray-700 dark:text-gray-300"
+          )}
+        >
+          <span className="w-14 shrink-0 flex items-center gap-1">
+            {request.blocked && <ShieldAlert className="w-3 h-3" />}
+            {getStatusLabel(request)}
+          </span>
+          <span className="w-12 shrink-0">{request.method}</span>
+          <span className="flex-1 truncate" title={request.url}>{getRequestName(request.url)}</span>
+          <span className="hidden sm:block w-24 shrink-0 truncate text-gray-400">{request.mimeType?.split(';')[0]}</span>
+          <span className="w-14 shrink-0 text-right text-gray-400">{formatDuration(request.duration)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default NetworkPanel;
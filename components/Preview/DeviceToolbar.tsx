@@ -0,0 +1,177 @@
+import React from 'react';
+import { Viewport, DEVICE_PRESETS, RESPONSIVE_VIEWPORT, getPreset, viewportFromPreset } from '../../utils/devices';
+import { RotateCw, Hand, Columns3, Smartphone, Tablet, Monitor } from 'lucide-react';
+import clsx from 'clsx';
+
+interface DeviceToolbarProps {
+  viewport: Viewport;
+  onChangeViewport: (viewport: Viewport) => void;
+  multiViewport: boolean;
+  onToggleMultiViewport: () => void;
+  multiPresets: string[];
+  onChangeMultiPresets: (ids: string[]) => void;
+}
+
+const DPR_OPTIONS = [1, 1.5, 2, 2.625, 3];
+
+const CATEGORY_ICONS = { phone: Smartphone, tablet: Tablet, desktop: Monitor };
+
+const DeviceToolbar: React.FC<DeviceToolbarProps> = ({
+  viewport,
+  onChangeViewport,
+  multiViewport,
+  onToggleMultiViewport,
+  multiPresets,
+  onChangeMultiPresets
+}) => {
+  const isResponsive = viewport.presetId === 'responsive';
+  const dprOptions = DPR_OPTIONS.includes(viewport.dpr) ? DPR_OPTIONS : [...DPR_OPTIONS, viewport.dpr].sort((a, b) => a - b);
+
+  const handlePresetChange = (id: string) => {
+    if (id === 'responsive') {
+      onChangeViewport(RESPONSIVE_VIEWPORT);
+      return;
+    }
+    if (id === 'custom') {
+      onChangeViewport({
+        ...viewport,
+        presetId: 'custom',
+        width: viewport.width || 400,
+        height: viewport.height || 800
+      });
+      return;
+    }
+    const preset = getPreset(id);
+    if (preset) onChangeViewport(viewportFromPreset(preset, viewport.landscape));
+  };
+
+  const handleSizeChange = (dimension: 'width' | 'height', value: number) => {
+    if (!value || value < 1) return;
+    // Typed sizes apply to the rotated frame, stored sizes are portrait
+    const field = viewport.landscape ? (dimension === 'width' ? 'height' : 'width') : dimension;
+    onChangeViewport({ ...viewport, presetId: 'custom', [field]: Math.min(value, 4096) });
+  };
+
+  const toggleMultiPreset = (id: string) => {
+    if (multiPresets.includes(id)) {
+      if (multiPresets.length > 1) onChangeMultiPresets(multiPresets.filter(p => p !== id));
+    } else {
+      onChangeMultiPresets(DEVICE_PRESETS.map(p => p.id).filter(p => p === id || multiPresets.includes(p)));
+    }
+  };
+
+  const shownWidth = viewport.landscape ? viewport.height : viewport.width;
+  const shownHeight = viewport.landscape ? viewport.width : viewport.height;
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1.5 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-850 overflow-x-auto text-xs">
+      <button
+        onClick={onToggleMultiViewport}
+        className={clsx(
+          "p-1.5 rounded shrink-0 hover:bg-gray-200 dark:hover:bg-gray-700",
+          multiViewport ? "text-blue-500 bg-blue-50 dark:bg-blue-900/30" : "text-gray-500"
+        )}
+        title="Multi-Viewport"
+      >
+        <Columns3 size={16} />
+      </button>
+
+      {multiViewport ? (
+        DEVICE_PRESETS.map(preset => {
+          const Icon = CATEGORY_ICONS[preset.category];
+          const active = multiPresets.includes(preset.id);
+          return (
+            <button
+              key={preset.id}
+              onClick={() => toggleMultiPreset(preset.id)}
+              className={clsx(
+                "flex items-center gap-1 px-2 py-1 rounded-full border whitespace-nowrap shrink-0 transition-colors",
+                active
+                  ? "border-blue-500 text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30"
+                  : "border-gray-200 dark:border-gray-700 text-gray-500 hover:border-gray-400"
+              )}
+            >
+              <Icon size={12} />
+              {preset.name}
+            </button>
+          );
+        })
+      ) : (
+        <>
+          <select
+            value={viewport.presetId}
+            onChange={(e) => handlePresetChange(e.target.value)}
+            className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1 text-gray-700 dark:text-gray-300 outline-none shrink-0"
+          >
+            <option value="responsive">Responsive</option>
+            <optgroup label="Phones">
+              {DEVICE_PRESETS.filter(p => p.category === 'phone').map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+            <optgroup label="Tablets">
+              {DEVICE_PRESETS.filter(p => p.category === 'tablet').map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+            <optgroup label="Desktops">
+              {DEVICE_PRESETS.filter(p => p.category === 'desktop').map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+            <option value="custom">Custom</option>
+          </select>
+
+          {!isResponsive && (
+            <>
+              <div className="flex items-center gap-1 shrink-0 font-mono text-gray-600 dark:text-gray-400">
+                <input
+                  type="number"
+                  value={shownWidth}
+                  onChange={(e) => handleSizeChange('width', parseInt(e.target.value))}
+                  className="w-16 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-1.5 py-1 outline-none focus:border-blue-500"
+                  title="Width"
+                />
+                <span>&times;</span>
+                <input
+                  type="number"
+                  value={shownHeight}
+                  onChange={(e) => handleSizeChange('height', parseInt(e.target.value))}
+                  className="w-16 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-1.5 py-1 outline-none focus:border-blue-500"
+                  title="Height"
+                />
+              </div>
+
+              <select
+                value={viewport.dpr}
+                onChange={(e) => onChangeViewport({ ...viewport, dpr: parseFloat(e.target.value) })}
+                className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1 text-gray-700 dark:text-gray-300 outline-none shrink-0"
+                title="Device Pixel Ratio"
+              >
+                {dprOptions.map(dpr => <option key={dpr} value={dpr}>DPR {dpr}</option>)}
+              </select>
+
+              <button
+                onClick={() => onChangeViewport({ ...viewport, landscape: !viewport.landscape })}
+                className={clsx(
+                  "p-1.5 rounded shrink-0 hover:bg-gray-200 dark:hover:bg-gray-700",
+                  viewport.landscape ? "text-blue-500" : "text-gray-500"
+                )}
+                title="Rotate"
+              >
+                <RotateCw size={16} />
+              </button>
+
+              <button
+                onClick={() => onChangeViewport({ ...viewport, touch: !viewport.touch })}
+                className={clsx(
+                  "p-1.5 rounded shrink-0 hover:bg-gray-200 dark:hover:bg-gray-700",
+                  viewport.touch ? "text-blue-500" : "text-gray-500"
+                )}
+                title="Touch Emulation"
+              >
+                <Hand size={16} />
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DeviceToolbar;
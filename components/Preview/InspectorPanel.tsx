@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { InspectedElement, InspectedRule } from '../../types';
+import { X, FileCode, Plus, Trash2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface InspectorPanelProps {
+  element: InspectedElement;
+  onSelectAncestor: (depth: number) => void;
+  onEditStyle: (property: string, value: string) => void;
+  onEditAttribute: (name: string, value: string | null) => void; // null removes the attribute
+  onOpenElementSource?: () => void;
+  onOpenRuleSource?: (rule: InspectedRule) => void;
+  onClose: () => void;
+}
+
+type InspectorTab = 'styles' | 'box' | 'attributes' | 'rules';
+
+const TABS: { id: InspectorTab; label: string }[] = [
+  { id: 'styles', label: 'Styles' },
+  { id: 'box', label: 'Box Model' },
+  { id: 'attributes', label: 'Attributes' },
+  { id: 'rules', label: 'Rules' }
+];
+
+const inputClass = "flex-1 min-w-0 bg-transparent border-b border-transparent focus:border-blue-500 outline-none px-1";
+
+/** Text field that applies its value on Enter or blur, and follows outside updates otherwise. */
+const EditableValue: React.FC<{ value: string; onCommit: (value: string) => void; placeholder?: string }> = ({ value, onCommit, placeholder }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+  return (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+      placeholder={placeholder}
+      spellCheck={false}
+      autoCapitalize="off"
+      className={inputClass}
+    />
+  );
+};
+
+/** Name/value row for adding a style property or attribute. */
+const AddRow: React.FC<{ namePlaceholder: string; onAdd: (name: string, value: string) => void }> = ({ namePlaceholder, onAdd }) => {
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const add = () => {
+    if (!name.trim()) return;
+    onAdd(name.trim(), value);
+    setName('');
+    setValue('');
+  };
+  return (
+    <div className="flex items-center gap-1 pt-1">
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder={namePlaceholder} spellCheck={false} autoCapitalize="off" className={clsx(inputClass, "text-purple-700 dark:text-purple-300")} />
+      <input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+        placeholder="value"
+        spellCheck={false}
+        autoCapitalize="off"
+        className={inputClass}
+      />
+      <button onClick={add} className="p-1 text-gray-400 hover:text-blue-500" title="Add">
+        <Plus className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+const BoxModel: React.FC<{ box: InspectedElement['box'] }> = ({ box }) => {
+  const layer = (label: string, values: number[], className: string, children: React.ReactNode) => (
+    <div className={clsx("relative border border-dashed border-gray-400 px-6 py-4 text-center", className)}>
+      <span className="absolute left-1 top-0.5 text-[9px] text-gray-600">{label}</span>
+      <span className="absolute top-0.5 left-1/2 -translate-x-1/2">{values[0] || '-'}</span>
+      <span className="absolute right-1 top-1/2 -translate-y-1/2">{values[1] || '-'}</span>
+      <span className="absolute bottom-0.5 left-1/2 -translate-x-1/2">{values[2] || '-'}</span>
+      <span className="absolute left-1 top-1/2 -translate-y-1/2">{values[3] || '-'}</span>
+      {children}
+    </div>
+  );
+  return (
+    <div className="p-3 flex justify-center text-[10px] text-gray-800">
+      {layer('margin', box.margin, 'bg-orange-200/80',
+        layer('border', box.border, 'bg-yellow-200/80',
+          layer('padding', box.padding, 'bg-green-200/80',
+            <div className="bg-blue-200/80 border border-gray-400 px-3 py-2 whitespace-nowrap">
+              {Math.round(box.width)} × {Math.round(box.height)}
+            </div>
+          )
+        )
+      )}
+    </div>
+  );
+};
+
+/** Details of the element picked with the preview inspector, with live editing. */
+const InspectorPanel: React.FC<InspectorPanelProps> = ({
+  element,
+  onSelectAncestor,
+  onEditStyle,
+  onEditAttribute,
+  onOpenElementSource,
+  onOpenRuleSource,
+  onClose
+}) => {
+  const [tab, setTab] = useState<InspectorTab>('styles');
+
+  return (
+    <div className="h-64 max-h-[50%] shrink-0 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-[#1e1e1e] flex flex-col font-mono text-xs text-gray-700 dark:text-gray-300">
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-[#252526]">
+        <div className="flex-1 flex items-center overflow-x-auto whitespace-nowrap">
+          {element.path.map((node, depth) => (
+            <React.Fragment key={depth}>
+              {depth > 0 && <span className="text-gray-400 px-0.5">›</span>}
+              <button
+                onClick={() => onSelectAncestor(depth)}
+                className={clsx(
+                  "px-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700",
+                  depth === element.path.length - 1 && "text-blue-600 dark:text-blue-400 font-semibold"
+                )}
+              >
+                {node.label}
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+        {onOpenElementSource && (
+          <button onClick={onOpenElementSource} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500" title="Go to Source">
+            <FileCode className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={onClose} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500" title="Close Inspector">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex border-b border-gray-100 dark:border-gray-700 font-sans">
+        {TABS.map(item => (
+          <button
+            key={item.id}
+            onClick={() => setTab(item.id)}
+            className={clsx(
+              "px-3 py-1.5 text-xs font-medium border-b-2",
+              tab === item.id ? "border-blue-500 text-blue-600 dark:text-blue-400" : "border-transparent text-gray-500"
+            )}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {tab === 'styles' && (
+          <>
+            {Object.entries(element.styles).map(([property, value]) => (
+              <div key={property} className="flex items-center gap-1">
+                <span className="text-purple-700 dark:text-purple-300 shrink-0">{property}:</span>
+                <EditableValue value={value} onCommit={(next) => onEditStyle(property, next)} />
+              </div>
+            ))}
+            <AddRow namePlaceholder="property" onAdd={onEditStyle} />
+          </>
+        )}
+
+        {tab === 'box' && <BoxModel box={element.box} />}
+
+        {tab === 'attributes' && (
+          <>
+            {element.attributes.map(attribute => (
+              <div key={attribute.name} className="flex items-center gap-1">
+                <span className="text-purple-700 dark:text-purple-300 shrink-0">{attribute.name}=</span>
+                <EditableValue value={attribute.value} onCommit={(next) => onEditAttribute(attribute.name, next)} />
+                <button onClick={() => onEditAttribute(attribute.name, null)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            <AddRow namePlaceholder="attribute" onAdd={onEditAttribute} />
+          </>
+        )}
+
+        {tab === 'rules' && (
+          element.rules.length === 0 ? (
+            <div className="text-gray-400 italic">No stylesheet rules match this element</div>
+          ) : (
+            // Later rules win, so they are listed first as in DevTools
+            [...element.rules].reverse().map((rule, index) => (
+              <div key={index} className="mb-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-blue-700 dark:text-blue-300 break-all">{rule.selector} {'{'}</span>
+                  {onOpenRuleSource && (
+                    <button onClick={() => onOpenRuleSource(rule)} className="text-[10px] text-gray-400 hover:text-blue-500 underline shrink-0 ml-2">
+                      {rule.href ? decodeURI(rule.href.split(/[?#]/)[0].split('/').pop() || rule.href) : '<style>'}
+                    </button>
+                  )}
+                </div>
+                {rule.declarations.split(';').map(declaration => declaration.trim()).filter(Boolean).map((declaration, i) => (
+                  <div key={i} className="pl-4 break-all">{declaration};</div>
+                ))}
+                <div>{'}'}</div>
+              </div>
+            ))
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InspectorPanel;
@@ -1,141 +1,680 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import { Project, ConsoleMessage } from '../../types';
-import { RefreshCw, Monitor, Smartphone, StopCircle, Play } from 'lucide-react';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
+import { Project, File, ConsoleMessage, ConsoleDetails, ConsoleValue, NetworkRequestUpdate, InspectedElement, InspectedRule } from '../../types';
+import { getBlobUrl, isBinaryFile } from '../../utils/blobStore';
+import { findIndexFile, getFilePath, resolvePath, resolveHref, buildPathIndex } from '../../utils/paths';
+import { getAttribute, removeAttribute, escapeInlineCode } from '../../utils/html';
+import { publishProject, getPreviewUrl, getPreviewPath, simulatePhp } from '../../utils/previewServer';
+import { injectRuntime, RUNTIME_PATH } from '../../utils/previewRuntime';
+import { parseStack, mapStack, formatFrame } from '../../utils/stackTrace';
+import { subscribePhpLogs } from '../../utils/phpRuntime';
+import { registerPreviewFrame, NetworkMessage, isNetworkMessage } from '../../utils/previewBridge';
+import { findElementLine, findRuleLine } from '../../utils/sourceLocation';
+import { Viewport, RESPONSIVE_VIEWPORT, DEFAULT_MULTI_VIEWPORTS, getPreset, viewportFromPreset, getViewportSize, getFrameName } from '../../utils/devices';
+import DeviceToolbar from './DeviceToolbar';
+import InspectorPanel from './InspectorPanel';
+import { RefreshCw, Smartphone, StopCircle, Play, ArrowLeft, ArrowRight, History, Crosshair } from 'lucide-react';
 import clsx from 'clsx';
 
 interface LivePreviewProps {
   project: Project;
-  onConsoleLog?: (type: ConsoleMessage['type'], msg: string) => void;
+  onConsoleLog?: (type: ConsoleMessage['type'], msg: string, details?: ConsoleDetails) => void;
+  onNetworkRequest?: (update: NetworkRequestUpdate) => void;
+  onOpenSource?: (file: File, line: number) => void;
 }
 
-const LivePreview: React.FC<LivePreviewProps> = ({ project, onConsoleLog }) => {
-  const [device, setDevice] = useState<'mobile' | 'desktop'>('mobile');
+// Edits are batched so typing does not reload the page on every keystroke
+const RELOAD_DEBOUNCE_MS = 300;
+
+/** Content signature of every served path, used to tell what an edit changed. */
+const getSignatures = (project: Project) => {
+  const signatures = new Map<string, string>();
+  buildPathIndex(project.files).forEach((file, path) => {
+    if (!file.isDirectory) signatures.set(path, file.blobHash || file.content);
+  });
+  return signatures;
+};
+
+/** Paths whose content changed, or null when files were added or removed. */
+const getChangedPaths = (before: Map<string, string>, after: Map<string, string>): string[] | null => {
+  if (before.size !== after.size) return null;
+  const changed: string[] = [];
+  for (const [path, signature] of after) {
+    if (!before.has(path)) return null;
+    if (before.get(path) !== signature) changed.push(path);
+  }
+  return changed;
+};
+
+// Serve `/` when there is a root index, otherwise open the nested one directly
+const getEntryPath = (project: Project) => {
+  const indexFile = findIndexFile(project.files);
+  return indexFile && indexFile.parentId !== 'root' ? getFilePath(project.files, indexFile) : '';
+};
+
+/** Rewrites the stacks of logged errors with `resolveFile`, see mapStack. */
+const mapValueStacks = (value: ConsoleValue, resolveFile: (url: string) => string | null): ConsoleValue => {
+  const mapped = { ...value };
+  if (value.stack) {
+    mapped.stack = mapStack(parseStack(value.stack), resolveFile).map(frame => `at ${formatFrame(frame)}`).join('\n');
+  }
+  if (value.entries) {
+    mapped.entries = value.entries.map(entry => ({ key: entry.key, value: mapValueStacks(entry.value, resolveFile) }));
+  }
+  return mapped;
+};
+
+/** Turns a request report of the preview runtime into an update of that request. */
+const toNetworkUpdate = (message: NetworkMessage): NetworkRequestUpdate => {
+  switch (message.phase) {
+    case 'request': {
+      const { type, phase, ...fields } = message;
+      return { ...fields, state: 'pending', startTime: Date.now() };
+    }
+    case 'response': {
+      const { type, phase, ...fields } = message;
+      return { ...fields, state: 'complete' };
+    }
+    case 'error': {
+      const { type, phase, ...fields } = message;
+      return { ...fields, state: 'failed' };
+    }
+    case 'body': {
+      const { type, phase, ...fields } = message;
+      return fields;
+    }
+  }
+};
+
+const LivePreview: React.FC<LivePreviewProps> = ({ project, onConsoleLog, onNetworkRequest, onOpenSource }) => {
+  // Full width on phones, an emulated phone on larger screens
+  const [viewport, setViewport] = useState<Viewport>(() =>
+      window.innerWidth < 768 ? RESPONSIVE_VIEWPORT : viewportFromPreset(getPreset('iphone-15')!)
+  );
+  const [showDevices, setShowDevices] = useState(false);
+  const [multiViewport, setMultiViewport] = useState(false);
+  const [multiPresets, setMultiPresets] = useState<string[]>(DEFAULT_MULTI_VIEWPORTS);
+  const [areaSize, setAreaSize] = useState({ width: 0, height: 0 });
   const [isRunning, setIsRunning] = useState(true);
   const [key, setKey] = useState(0);
-  const [isNativeMobile, setIsNativeMobile] = useState(false);
+  const [assetUrls, setAssetUrls] = useState<Record<string, string>>({});
+  // 'pending' until the preview server answers, 'inline' when it is unavailable
+  const [serverMode, setServerMode] = useState<'pending' | 'server' | 'inline'>('pending');
+  const [serverUrl, setServerUrl] = useState<string | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  // The first frame is the primary one: it drives the address bar and console
+  const frameRefs = useRef<(HTMLIFrameElement | null)[]>([]);
+  const loadedProjectRef = useRef<string | null>(null);
+  const signaturesRef = useRef<Map<string, string> | null>(null);
+  // Scroll offsets per frame, restored once the frame has reloaded
+  const scrollPositionsRef = useRef<Record<number, { x: number; y: number }>>({});
+  // The inline fallback renders a debounced copy of the project
+  const [inlineProject, setInlineProject] = useState(project);
+
+  // Browser-style page history; entries are project paths such as `about.html?id=2`
+  const [nav, setNav] = useState<{ entries: string[]; index: number }>({ entries: [''], index: 0 });
+  const [address, setAddress] = useState('/');
+  const [showPageHistory, setShowPageHistory] = useState(false);
+  // Element inspector: picking mode and the element picked last
+  const [inspecting, setInspecting] = useState(false);
+  const [inspected, setInspected] = useState<InspectedElement | null>(null);
+  // Set while going back/forward so the resulting page load does not push a new entry
+  const travellingRef = useRef(false);
+  const currentPath = nav.entries[nav.index];
 
-  // Auto-detect mobile device
+  // Each project starts at its entry page
   useEffect(() => {
-    const checkMobile = () => {
-        if (window.innerWidth < 768) {
-            setIsNativeMobile(true);
-            setDevice('desktop'); // Default to full width on mobile
-        } else {
-            setIsNativeMobile(false);
-        }
+    setNav({ entries: [getEntryPath(project)], index: 0 });
+  }, [project.id]);
+
+  useEffect(() => {
+    setAddress(`/${currentPath}`);
+  }, [currentPath]);
+
+  // Serve the project through the preview service worker. CSS-only edits are
+  // hot-swapped into the running page, anything else reloads it in place.
+  useEffect(() => {
+    if (!isRunning) return;
+    let cancelled = false;
+    const firstLoad = loadedProjectRef.current !== project.id;
+
+    const renderInline = () => {
+        saveScrollPositions();
+        setInlineProject(project);
+        setServerMode('inline');
     };
-    
-    checkMobile();
-    window.addEventListener('resize', checkMobile);
-    return () => window.removeEventListener('resize', checkMobile);
+
+    const timer = setTimeout(() => {
+        publishProject(project)
+          .then(ok => {
+              if (cancelled) return;
+              if (!ok) {
+                  renderInline();
+                  return;
+              }
+              setServerMode('server');
+              const signatures = getSignatures(project);
+              const previous = signaturesRef.current;
+              signaturesRef.current = signatures;
+
+              if (loadedProjectRef.current !== project.id) {
+                  loadedProjectRef.current = project.id;
+                  setServerUrl(getPreviewUrl(project.id, getEntryPath(project)));
+                  return;
+              }
+
+              const changed = previous ? getChangedPaths(previous, signatures) : null;
+              if (changed && changed.length === 0) return;
+              if (changed && changed.every(path => /\.css$/i.test(path))) {
+                  frameRefs.current.forEach(frame => {
+                      frame?.contentWindow?.postMessage({ type: 'PREVIEW_CSS_UPDATE', paths: changed }, '*');
+                  });
+                  return;
+              }
+              reloadFrames();
+          })
+          .catch(e => {
+              console.error("Failed to publish preview", e);
+              if (!cancelled) renderInline();
+          });
+    }, firstLoad ? 0 : RELOAD_DEBOUNCE_MS);
+
+    return () => {
+        cancelled = true;
+        clearTimeout(timer);
+    };
+  }, [project, isRunning]);
+
+  // Resolve object URLs for binary assets held in the blob store
+  useEffect(() => {
+    if (serverMode !== 'inline') return;
+    let cancelled = false;
+    const binaries = inlineProject.files.filter(f => isBinaryFile(f) && f.blobHash);
+    Promise.all(binaries.map(async f => [f.blobHash as string, await getBlobUrl(f.blobHash as string)] as const))
+      .then(entries => {
+          if (cancelled) return;
+          const urls: Record<string, string> = {};
+          entries.forEach(([hash, url]) => { if (url) urls[hash] = url; });
+          setAssetUrls(urls);
+      })
+      .catch(e => console.error("Failed to resolve preview assets", e));
+    return () => { cancelled = true; };
+  }, [inlineProject.files, serverMode]);
+
+  // Track the preview area so emulated devices can be scaled to fit
+  useEffect(() => {
+    const area = areaRef.current;
+    if (!area) return;
+    const observer = new ResizeObserver(() => {
+        setAreaSize({ width: area.clientWidth, height: area.clientHeight });
+    });
+    observer.observe(area);
+    return () => observer.disconnect();
   }, []);
 
+  const frames: Viewport[] = multiViewport
+      ? multiPresets.map(id => getPreset(id)).filter(Boolean).map(preset => viewportFromPreset(preset!))
+      : [viewport];
+  const frameLayout = `${multiViewport}:${frames.map(getFrameName).join('|')}`;
+
+  // Frames remount when their emulation changes; keep them on the current page
+  useEffect(() => {
+    if (loadedProjectRef.current === project.id) setServerUrl(getPreviewUrl(project.id, currentPath));
+  }, [frameLayout]);
+
+  const getPrimaryWindow = () => frameRefs.current[0]?.contentWindow || null;
+
+  const saveScrollPositions = () => {
+    frameRefs.current.forEach((frame, index) => {
+        try {
+            const frameWindow = frame?.contentWindow;
+            if (frameWindow) scrollPositionsRef.current[index] = { x: frameWindow.scrollX, y: frameWindow.scrollY };
+        } catch {
+            // Cross-origin page, nothing to restore
+        }
+    });
+  };
+
+  const reloadFrames = () => {
+    saveScrollPositions();
+    frameRefs.current.forEach(frame => {
+        try {
+            frame?.contentWindow?.location.reload();
+        } catch {
+            setKey(k => k + 1);
+        }
+    });
+  };
+
+  const recordNavigation = (path: string) => {
+    setNav(prev => {
+        if (travellingRef.current) {
+            travellingRef.current = false;
+            return prev;
+        }
+        if (prev.entries[prev.index] === path) return prev;
+        const entries = [...prev.entries.slice(0, prev.index + 1), path];
+        return { entries, index: entries.length - 1 };
+    });
+  };
+
+  const loadPath = (path: string) => {
+    if (serverMode === 'server') {
+        const url = getPreviewUrl(project.id, path);
+        try {
+            const frameWindow = getPrimaryWindow();
+            if (!frameWindow) throw new Error('Preview frame not ready');
+            frameWindow.location.href = url;
+        } catch {
+            setServerUrl(url);
+            setKey(k => k + 1);
+        }
+    }
+  };
+
+  const navigate = (path: string) => {
+    const clean = path.replace(/^\/+/, '');
+    if (serverMode === 'server') loadPath(clean);
+    else recordNavigation(clean);
+  };
+
+  const travel = (index: number) => {
+    if (index < 0 || index >= nav.entries.length) return;
+    if (serverMode === 'server') {
+        travellingRef.current = true;
+        loadPath(nav.entries[index]);
+    }
+    setNav(prev => ({ ...prev, index }));
+  };
+
+  const reload = () => {
+    if (serverMode !== 'server') {
+        setKey(k => k + 1);
+        return;
+    }
+    reloadFrames();
+  };
+
+  // Picks up every page load, including files the runtime is not injected into (JSON, images...)
+  const handleFrameLoad = (index: number) => {
+    try {
+        const frameWindow = frameRefs.current[index]?.contentWindow;
+        const scroll = scrollPositionsRef.current[index];
+        if (frameWindow && scroll) {
+            delete scrollPositionsRef.current[index];
+            frameWindow.scrollTo(scroll.x, scroll.y);
+        }
+        if (index !== 0) return;
+        // A new document has no selection and starts outside picking mode
+        setInspecting(false);
+        setInspected(null);
+        const path = getPreviewPath(project.id, frameWindow?.location.href || '');
+        if (path !== null) recordNavigation(path);
+    } catch {
+        // Navigated to another origin
+    }
+  };
+
+  // Inline fallback for browsers without service workers: a single srcDoc document
   const previewContent = useMemo(() => {
     if (!isRunning) {
         return '<body style="background:#f3f4f6;display:flex;align-items:center;justify-content:center;height:100vh;margin:0;font-family:sans-serif;color:#6b7280;">Server Stopped</body>';
     }
+    if (serverMode !== 'inline') return '';
 
-    const indexFile = project.files.find(f => f.name === 'index.html' || f.name === 'index.php');
-    if (!indexFile) return '<html><body><h1 style="font-family:sans-serif;text-align:center;margin-top:20px;">No index file found</h1></body></html>';
+    const indexFile = currentPath ? resolvePath(inlineProject, null, currentPath) : findIndexFile(inlineProject.files);
+    if (!indexFile) {
+        const message = currentPath ? `404 Not Found: /${currentPath}` : 'No index file found';
+        return injectRuntime(`<html><body><h1 style="font-family:sans-serif;text-align:center;margin-top:20px;">${message.replace(/[<>&]/g, '')}</h1></body></html>`);
+    }
 
     let content = indexFile.content;
 
-    // Resolve CSS
-    project.files.filter(f => f.name.endsWith('.css')).forEach(css => {
-       content = content.replace(
-         new RegExp(`<link[^>]*href=["'](.*?\/)?${css.name}["'][^>]*>`, 'g'), 
-         `<style>${css.content}</style>`
-       );
+    // Resolve CSS, relative to the page so nested folders work
+    content = content.replace(/<link\b[^>]*>/gi, (tag) => {
+       if (!/stylesheet/i.test(getAttribute(tag, 'rel') || '')) return tag;
+       const css = resolvePath(inlineProject, indexFile, getAttribute(tag, 'href') || '');
+       return css && css.language === 'css' ? `<style>${escapeInlineCode(css.content, 'style')}</style>` : tag;
     });
 
-    // Resolve JS
-    project.files.filter(f => f.name.endsWith('.js')).forEach(js => {
-       content = content.replace(
-         new RegExp(`<script[^>]*src=["'](.*?\/)?${js.name}["'][^>]*><\/script>`, 'g'), 
-         `<script>${js.content}</script>`
-       );
+    // Resolve JS, keeping attributes such as type="module"
+    content = content.replace(/(<script\b[^>]*>)\s*<\/script>/gi, (match, openTag: string) => {
+       const src = getAttribute(openTag, 'src');
+       if (!src) return match;
+       const js = resolvePath(inlineProject, indexFile, src);
+       if (!js || js.language !== 'javascript') return match;
+       return `${removeAttribute(openTag, 'src')}${escapeInlineCode(js.content, 'script')}</script>`;
     });
     
     // Resolve Images
-    project.files.filter(f => f.language === 'image').forEach(img => {
-        content = content.replace(
-            new RegExp(`src=["'](.*?\/)?${img.name}["']`, 'g'),
-            `src="${img.content}"`
-        );
+    content = content.replace(/(\ssrc=)(["'])([^"']*)\2/gi, (match, prefix: string, quote: string, src: string) => {
+        const img = resolvePath(inlineProject, indexFile, src);
+        const url = img && img.language === 'image' && img.blobHash ? assetUrls[img.blobHash] : null;
+        return url ? `${prefix}${quote}${url}${quote}` : match;
     });
 
-    // Inject Console Interceptor
-    const consoleScript = `
-      <script>
-        (function() {
-            var oldLog = console.log;
-            var oldError = console.error;
-            var oldWarn = console.warn;
-            var oldInfo = console.info;
-
-            function send(type, args) {
-                try {
-                    var msg = Array.from(args).map(a => {
-                        if(typeof a === 'object') return JSON.stringify(a);
-                        return String(a);
-                    }).join(' ');
-                    window.parent.postMessage({ type: 'CONSOLE_LOG', level: type, message: msg }, '*');
-                } catch(e) {}
-            }
-
-            console.log = function() { send('log', arguments); oldLog.apply(console, arguments); };
-            console.error = function() { send('error', arguments); oldError.apply(console, arguments); };
-            console.warn = function() { send('warn', arguments); oldWarn.apply(console, arguments); };
-            console.info = function() { send('info', arguments); oldInfo.apply(console, arguments); };
-            
-            window.onerror = function(msg, url, line) {
-                send('error', [msg + ' (Line: ' + line + ')']);
-            };
-        })();
-      </script>
-    `;
-    content = content.replace('<head>', '<head>' + consoleScript);
-
     // PHP Simulation
-    if (project.type === 'php') {
-        content = content.replace(/<\?php\s+echo\s+["'](.*?)["'];\s*\?>/g, '$1');
-        content = content.replace(/<\?php\s+echo\s+\$(.*?);\s*\?>/g, '{{Variable: $1}}');
-        content = content.replace(/<\?php[\s\S]*?\?>/g, '');
-        content = `
-          <div style="background:#fff3cd; color:#856404; padding:8px; font-size:12px; text-align:center; font-family:sans-serif; border-bottom:1px solid #ffeeba;">
-            Buildora Local PHP Server (Simulated) &bull; Static Output Only
-          </div>
-          ${content}
-        `;
+    if (inlineProject.type === 'php') {
+        content = simulatePhp(content);
     }
 
-    return content;
-  }, [project, isRunning, key]);
+    return injectRuntime(content);
+  }, [inlineProject, isRunning, key, assetUrls, serverMode, currentPath]);
 
   // Console Listener
   useEffect(() => {
+      // Stack URLs become project paths; frames of the runtime itself are hidden
+      const resolveStackFile = (url: string) => {
+          const bare = url.replace(/[?#].*$/, '');
+          const path = bare === 'about:srcdoc' ? currentPath : getPreviewPath(project.id, bare);
+          if (path === null) return url;
+          if (path === RUNTIME_PATH) return null;
+          return path || findIndexFile(project.files)?.name || bare;
+      };
+
       const handler = (event: MessageEvent) => {
+          // Extra viewports run the same page; only the primary one reports
+          if (frameRefs.current.filter(Boolean).length > 1 && event.source !== getPrimaryWindow()) return;
           if (event.data && event.data.type === 'CONSOLE_LOG' && onConsoleLog) {
-              onConsoleLog(event.data.level, event.data.message);
+              const data = event.data;
+              onConsoleLog(data.level, data.message, {
+                  args: data.args?.map((value: ConsoleValue) => mapValueStacks(value, resolveStackFile)),
+                  stack: data.stack ? mapStack(parseStack(data.stack), resolveStackFile) : undefined,
+                  table: data.table,
+                  group: data.group,
+                  depth: data.depth
+              });
+          }
+      };
+      window.addEventListener('message', handler);
+      return () => window.removeEventListener('message', handler);
+  }, [onConsoleLog, project, currentPath]);
+
+  // Navigation messages from the page inside the preview frame
+  useEffect(() => {
+      const handler = (event: MessageEvent) => {
+          if (!event.data || event.source !== getPrimaryWindow()) return;
+          if (event.data.type === 'PREVIEW_NAVIGATED') {
+              const path = getPreviewPath(project.id, event.data.url);
+              if (path !== null) recordNavigation(path);
+          } else if (event.data.type === 'PREVIEW_NAVIGATE') {
+              // Inline mode: resolve the link against the page that is showing
+              const from = resolvePath(project, null, currentPath) || findIndexFile(project.files);
+              const fromPath = from ? getFilePath(project.files, from) : '';
+              const target = resolveHref(fromPath, event.data.href);
+              recordNavigation(target);
+          } else if (event.data.type === 'PREVIEW_OPEN_EXTERNAL') {
+              window.open(event.data.url, '_blank', 'noopener');
           }
       };
       window.addEventListener('message', handler);
       return () => window.removeEventListener('message', handler);
+  }, [project, currentPath]);
+
+  // Requests made by the page, for the network inspector
+  useEffect(() => {
+      if (!onNetworkRequest) return;
+      const handler = (event: MessageEvent) => {
+          if (frameRefs.current.filter(Boolean).length > 1 && event.source !== getPrimaryWindow()) return;
+          if (isNetworkMessage(event.data)) onNetworkRequest(toNetworkUpdate(event.data));
+      };
+      window.addEventListener('message', handler);
+      return () => window.removeEventListener('message', handler);
+  }, [onNetworkRequest]);
+
+  // Element inspector
+  const postToPreview = (message: Record<string, unknown>) => getPrimaryWindow()?.postMessage(message, '*');
+
+  useEffect(() => {
+      postToPreview({ type: 'PREVIEW_INSPECT', enabled: inspecting });
+  }, [inspecting]);
+
+  useEffect(() => {
+      const handler = (event: MessageEvent) => {
+          if (event.source !== getPrimaryWindow() || !event.data || event.data.type !== 'PREVIEW_INSPECT_SELECTED') return;
+          setInspected(event.data.element);
+          setInspecting(false);
+      };
+      window.addEventListener('message', handler);
+      return () => window.removeEventListener('message', handler);
+  }, []);
+
+  const closeInspector = () => {
+      setInspected(null);
+      setInspecting(false);
+      postToPreview({ type: 'PREVIEW_INSPECT_CLEAR' });
+  };
+
+  // Project file behind a URL loaded in the preview; inline pages are the current path
+  const getSourceFile = (url: string | null) => {
+      const bare = (url || 'about:srcdoc').replace(/[?#].*$/, '');
+      const path = bare === 'about:srcdoc' ? currentPath : getPreviewPath(project.id, bare);
+      if (path === null) return undefined;
+      return (path ? resolvePath(project, null, path) : undefined) || findIndexFile(project.files);
+  };
+
+  // Opens the first candidate containing the target, or the first candidate at its top
+  const openSourceLine = (candidates: (File | undefined)[], findLine: (content: string) => number | null) => {
+      if (!onOpenSource) return;
+      const files = candidates.filter((file, index): file is File => !!file && candidates.indexOf(file) === index);
+      for (const file of files) {
+          const line = findLine(file.content);
+          if (line !== null) {
+              onOpenSource(file, line);
+              return;
+          }
+      }
+      if (files[0]) onOpenSource(files[0], 1);
+  };
+
+  const openElementSource = () => {
+      if (!inspected) return;
+      openSourceLine([getSourceFile(inspected.pageUrl)], content => findElementLine(content, inspected));
+  };
+
+  const openRuleSource = (rule: InspectedRule) => {
+      if (!inspected) return;
+      // Inline previews turn stylesheets into <style> blocks, so look through every stylesheet too
+      const stylesheets = project.files.filter(file => !file.isDirectory && file.language === 'css');
+      openSourceLine(
+          [getSourceFile(rule.href || inspected.pageUrl), ...stylesheets, getSourceFile(inspected.pageUrl)],
+          content => findRuleLine(content, rule.selector)
+      );
+  };
+
+  // Console commands run in the page shown in the primary frame
+  useEffect(() => registerPreviewFrame(getPrimaryWindow), []);
+
+  // PHP errors and warnings from the in-browser runtime
+  useEffect(() => {
+      if (!onConsoleLog) return;
+      return subscribePhpLogs(onConsoleLog);
   }, [onConsoleLog]);
 
+  const renderFrame = (frameViewport: Viewport, index: number) => {
+    const name = getFrameName(frameViewport);
+    const frame = serverMode === 'server' && serverUrl && isRunning ? (
+        <iframe 
+            key={`${key}-${name}`}
+            ref={el => { frameRefs.current[index] = el; }}
+            name={name}
+            title="Preview"
+            // Extra viewports follow the primary frame's page
+            src={index === 0 ? serverUrl : getPreviewUrl(project.id, currentPath)}
+            onLoad={() => handleFrameLoad(index)}
+            className="w-full h-full bg-white"
+            sandbox="allow-scripts allow-modals allow-same-origin allow-forms"
+            style={{ border: 'none', overflow: 'auto' }}
+        />
+    ) : (
+        <iframe 
+            key={`${key}-${name}`}
+            ref={el => { frameRefs.current[index] = el; }}
+            name={name}
+            title="Preview"
+            srcDoc={previewContent}
+            onLoad={() => handleFrameLoad(index)}
+            className="w-full h-full bg-white"
+            sandbox="allow-scripts allow-modals allow-same-origin"
+            style={{ border: 'none', overflow: 'auto' }}
+        />
+    );
+
+    if (frameViewport.presetId === 'responsive') {
+        return <div key={index} className="w-full h-full">{frame}</div>;
+    }
+
+    // Scale the emulated device down when it does not fit the pane
+    const size = getViewportSize(frameViewport);
+    const labelHeight = multiViewport ? 24 : 0;
+    const availableWidth = multiViewport ? Infinity : areaSize.width - 32;
+    const availableHeight = areaSize.height - 32 - labelHeight;
+    const scale = areaSize.height ? Math.max(0.1, Math.min(1, availableWidth / size.width, availableHeight / size.height)) : 1;
+    const preset = getPreset(frameViewport.presetId);
+
+    return (
+        <div key={index} className="shrink-0 flex flex-col">
+            {multiViewport && (
+                <div className="h-6 text-xs text-gray-500 dark:text-gray-400 truncate" style={{ width: size.width * scale }}>
+                    {preset?.name || 'Custom'} &middot; {size.width}&times;{size.height}
+                </div>
+            )}
+            <div
+                className="bg-white shadow-lg ring-1 ring-gray-300 dark:ring-gray-700 overflow-hidden"
+                style={{ width: size.width * scale, height: size.height * scale }}
+            >
+                <div style={{ width: size.width, height: size.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+                    {frame}
+                </div>
+            </div>
+        </div>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full bg-white dark:bg-gray-900 transition-colors">
-      {/* Preview Area - Clean and Full Width/Height */}
-      <div className="flex-1 w-full h-full relative overflow-hidden">
-         <iframe 
-             key={key}
-             title="Preview"
-             srcDoc={previewContent}
-             className="w-full h-full bg-white"
-             sandbox="allow-scripts allow-modals allow-same-origin"
-             style={{ border: 'none', overflow: 'auto' }}
-         />
+      {/* Browser Toolbar */}
+      <div className="flex items-center gap-1 px-2 py-1.5 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-850 relative">
+         <button
+             onClick={() => travel(nav.index - 1)}
+             disabled={nav.index === 0}
+             className="p-1.5 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+             title="Back"
+         >
+             <ArrowLeft size={16} />
+         </button>
+         <button
+             onClick={() => travel(nav.index + 1)}
+             disabled={nav.index >= nav.entries.length - 1}
+             className="p-1.5 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+             title="Forward"
+         >
+             <ArrowRight size={16} />
+         </button>
+         <button
+             onClick={reload}
+             className="p-1.5 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+             title="Reload"
+         >
+             <RefreshCw size={16} />
+         </button>
+         <form
+             className="flex-1 min-w-0"
+             onSubmit={(e) => { e.preventDefault(); navigate(address); }}
+         >
+             <input
+                 type="text"
+                 value={address}
+                 onChange={(e) => setAddress(e.target.value)}
+                 onFocus={(e) => e.target.select()}
+                 spellCheck={false}
+                 className="w-full bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-full px-3 py-1 text-xs font-mono text-gray-700 dark:text-gray-300 outline-none focus:border-blue-500"
+             />
+         </form>
+         <button
+             onClick={() => setInspecting(!inspecting)}
+             className={clsx(
+                 "p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700",
+                 inspecting ? "text-blue-500" : "text-gray-500"
+             )}
+             title="Inspect Element"
+         >
+             <Crosshair size={16} />
+         </button>
+         <button
+             onClick={() => setShowDevices(!showDevices)}
+             className={clsx(
+                 "p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700",
+                 showDevices ? "text-blue-500" : "text-gray-500"
+             )}
+             title="Device Emulation"
+         >
+             <Smartphone size={16} />
+         </button>
+         <button
+             onClick={() => setShowPageHistory(!showPageHistory)}
+             className={clsx(
+                 "p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700",
+                 showPageHistory ? "text-blue-500" : "text-gray-500"
+             )}
+             title="Page History"
+         >
+             <History size={16} />
+         </button>
+
+         {showPageHistory && (
+             <div className="absolute right-2 top-full mt-1 w-64 max-h-72 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-20 py-1">
+                 {nav.entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+                     <button
+                         key={i}
+                         onClick={() => { travel(i); setShowPageHistory(false); }}
+                         className={clsx(
+                             "w-full text-left px-3 py-1.5 text-xs font-mono truncate hover:bg-gray-100 dark:hover:bg-gray-700",
+                             i === nav.index ? "text-blue-500 font-semibold" : "text-gray-600 dark:text-gray-300"
+                         )}
+                     >
+                         /{entry}
+                     </button>
+                 ))}
+             </div>
+         )}
+      </div>
+
+      {showDevices && (
+          <DeviceToolbar
+              viewport={viewport}
+              onChangeViewport={setViewport}
+              multiViewport={multiViewport}
+              onToggleMultiViewport={() => setMultiViewport(!multiViewport)}
+              multiPresets={multiPresets}
+              onChangeMultiPresets={setMultiPresets}
+          />
+      )}
+
+      {/* Preview Area */}
+      <div
+          ref={areaRef}
+          className={clsx(
+              "flex-1 w-full h-full min-h-0 relative",
+              frames[0].presetId === 'responsive'
+                  ? "overflow-hidden"
+                  : "overflow-auto bg-gray-100 dark:bg-gray-950 flex gap-6 p-4",
+              !multiViewport && frames[0].presetId !== 'responsive' && "items-center justify-center"
+          )}
+      >
+         {frames.map((frameViewport, index) => renderFrame(frameViewport, index))}
       </div>
+
+      {inspected && (
+          <InspectorPanel
+              element={inspected}
+              onSelectAncestor={(depth) => postToPreview({ type: 'PREVIEW_INSPECT_SELECT', depth })}
+              onEditStyle={(property, value) => postToPreview({ type: 'PREVIEW_INSPECT_EDIT', style: { property, value } })}
+              onEditAttribute={(name, value) => postToPreview({ type: 'PREVIEW_INSPECT_EDIT', attribute: { name, value } })}
+              onOpenElementSource={onOpenSource ? openElementSource : undefined}
+              onOpenRuleSource={onOpenSource ? openRuleSource : undefined}
+              onClose={closeInspector}
+          />
+      )}
     </div>
   );
 };
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { AppSettings } from '../../types';
-import { Moon, Sun, Type, Save, WrapText, AlertTriangle, Bot, Key, Cpu, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Moon, Sun, Type, Save, WrapText, AlertTriangle, Bot, Key, Cpu, CheckCircle2, XCircle, Loader2, GitBranch } from 'lucide-react';
 import clsx from 'clsx';
 
 interface SettingsViewProps {
@@ -351,6 +351,37 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate, onClear
           </div>
         </section>
         
+        {/* Source Control */}
+        <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-100 dark:border-gray-700 flex items-center space-x-2">
+            <GitBranch className="w-5 h-5 text-orange-600 dark:text-orange-400" />
+            <h3 className="font-bold text-gray-800 dark:text-gray-100">Source Control</h3>
+          </div>
+          <div className="p-6 space-y-4">
+             <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Author Name</label>
+                <input 
+                    type="text"
+                    value={settings.gitAuthorName || ''}
+                    onChange={(e) => onUpdate({...settings, gitAuthorName: e.target.value})}
+                    placeholder="Buildora User"
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none dark:bg-gray-700 dark:text-white"
+                />
+             </div>
+             <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Author Email</label>
+                <input 
+                    type="email"
+                    value={settings.gitAuthorEmail || ''}
+                    onChange={(e) => onUpdate({...settings, gitAuthorEmail: e.target.value})}
+                    placeholder="user@buildora.local"
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none dark:bg-gray-700 dark:text-white"
+                />
+                <p className="mt-1 text-xs text-gray-500">Used for commits in the Git view.</p>
+             </div>
+          </div>
+        </section>
+
         {/* Data Management */}
         <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-red-100 dark:border-red-900/30 overflow-hidden transition-all">
           <div className="px-6 py-4 border-b border-gray-100 dark:border-gray-700 flex items-center space-x-2">
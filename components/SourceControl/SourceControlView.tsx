@@ -0,0 +1,294 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Project, File, AppSettings, ConsoleMessage } from '../../types';
+import {
+  hasRepository, initRepository, getStatus, stageFile, unstageFile, stageAll, commit,
+  getLog, listBranches, getCurrentBranch, createBranch, checkoutBranch,
+  FileStatus, CommitEntry, ChangeKind, DEFAULT_AUTHOR
+} from '../../utils/git';
+import { GitBranch, GitCommit, Plus, Minus, RefreshCw, Loader2, Check, FolderGit2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface SourceControlViewProps {
+  project: Project;
+  settings: AppSettings;
+  onFilesCheckedOut: (files: File[]) => void;
+  onConsoleLog?: (type: ConsoleMessage['type'], msg: string) => void;
+}
+
+const changeBadges: Record<ChangeKind, { letter: string; className: string }> = {
+  added: { letter: 'A', className: "text-green-600 dark:text-green-400" },
+  modified: { letter: 'M', className: "text-yellow-600 dark:text-yellow-400" },
+  deleted: { letter: 'D', className: "text-red-600 dark:text-red-400" },
+  untracked: { letter: 'U', className: "text-teal-600 dark:text-teal-400" },
+};
+
+const SourceControlView: React.FC<SourceControlViewProps> = ({ project, settings, onFilesCheckedOut, onConsoleLog }) => {
+  const [isInitialized, setIsInitialized] = useState<boolean | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<FileStatus[]>([]);
+  const [log, setLog] = useState<CommitEntry[]>([]);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [currentBranch, setCurrentBranch] = useState('main');
+  const [commitMessage, setCommitMessage] = useState('');
+  const [newBranchName, setNewBranchName] = useState('');
+  const [showNewBranch, setShowNewBranch] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setErrorMsg(null);
+    try {
+      await action();
+    } catch (e: any) {
+      console.error("Source control error", e);
+      setErrorMsg(e?.message || String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const refresh = useCallback(async () => {
+    const initialized = await hasRepository(project.id);
+    setIsInitialized(initialized);
+    if (!initialized) return;
+    const [newStatus, newLog, newBranches, branch] = await Promise.all([
+      getStatus(project),
+      getLog(project.id),
+      listBranches(project.id),
+      getCurrentBranch(project.id)
+    ]);
+    setStatus(newStatus);
+    setLog(newLog);
+    setBranches(newBranches);
+    setCurrentBranch(branch);
+  }, [project]);
+
+  useEffect(() => {
+    run(refresh);
+  }, [refresh]);
+
+  const handleInit = () => run(async () => {
+    await initRepository(project.id);
+    onConsoleLog?.('system', `Initialized Git repository for ${project.name}`);
+    await refresh();
+  });
+
+  const handleCommit = () => run(async () => {
+    if (!commitMessage.trim()) return;
+    // Commit everything when nothing was staged explicitly, like most mobile Git clients
+    if (!status.some(s => s.staged)) await stageAll(project);
+    const author = {
+      name: settings.gitAuthorName || DEFAULT_AUTHOR.name,
+      email: settings.gitAuthorEmail || DEFAULT_AUTHOR.email
+    };
+    const oid = await commit(project, commitMessage.trim(), author);
+    onConsoleLog?.('system', `Committed ${oid.slice(0, 7)}: ${commitMessage.trim()}`);
+    setCommitMessage('');
+    await refresh();
+  });
+
+  const handleCheckout = (branch: string) => run(async () => {
+    if (branch === currentBranch) return;
+    if (status.length > 0) {
+      throw new Error("Commit or discard your changes before switching branches.");
+    }
+    const files = await checkoutBranch(project, branch);
+    onFilesCheckedOut(files);
+    onConsoleLog?.('system', `Switched to branch ${branch}`);
+  });
+
+  const handleCreateBranch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newBranchName.trim();
+    if (!name) return;
+    run(async () => {
+      await createBranch(project.id, name);
+      setNewBranchName('');
+      setShowNewBranch(false);
+      await refresh();
+    });
+  };
+
+  const staged = status.filter(s => s.staged);
+  const unstaged = status.filter(s => s.unstaged);
+
+  const renderStatusRow = (s: FileStatus, kind: ChangeKind, isStaged: boolean) => (
+    <div key={s.path} className="flex items-center justify-between px-3 py-1.5 text-xs hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded">
+      <span className="font-mono truncate text-gray-700 dark:text-gray-200">{s.path}</span>
+      <div className="flex items-center space-x-2 shrink-0">
+        <span className={clsx("font-bold font-mono", changeBadges[kind].className)}>{changeBadges[kind].letter}</span>
+        <button
+          onClick={() => run(async () => {
+            if (isStaged) await unstageFile(project, s.path);
+            else await stageFile(project, s.path);
+            await refresh();
+          })}
+          disabled={isBusy}
+          className="p-1 text-gray-400 hover:text-blue-500 rounded hover:bg-white dark:hover:bg-gray-600"
+          title={isStaged ? "Unstage" : "Stage"}
+        >
+          {isStaged ? <Minus className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+    </div>
+  );
+
+  if (isInitialized === null) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50 dark:bg-gray-950 text-gray-400">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isInitialized) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-950 p-6 text-center">
+        <div className="bg-white dark:bg-gray-800 p-4 rounded-full shadow-sm mb-4">
+          <FolderGit2 className="w-12 h-12 text-blue-300 dark:text-blue-700" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">No Repository</h3>
+        <p className="text-gray-500 dark:text-gray-400 max-w-xs mt-2 text-sm">Track changes to {project.name} with commits and branches, stored entirely on this device.</p>
+        <button
+          onClick={handleInit}
+          disabled={isBusy}
+          className="mt-6 px-6 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-md transition-colors disabled:opacity-50"
+        >
+          Initialize Repository
+        </button>
+        {errorMsg && <p className="mt-4 text-xs text-red-500">{errorMsg}</p>}
+      </div>
+    );
+  }
+
+  const sectionClass = "bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden";
+  const sectionHeaderClass = "px-4 py-3 border-b border-gray-100 dark:border-gray-700 flex items-center justify-between";
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-950 p-4 pb-20 transition-colors">
+      <div className="max-w-2xl mx-auto space-y-4">
+
+        {/* Branch */}
+        <section className={sectionClass}>
+          <div className={sectionHeaderClass}>
+            <div className="flex items-center space-x-2">
+              <GitBranch className="w-4 h-4 text-blue-500" />
+              <select
+                value={currentBranch}
+                onChange={(e) => handleCheckout(e.target.value)}
+                disabled={isBusy}
+                className="bg-transparent text-sm font-bold text-gray-800 dark:text-gray-100 outline-none"
+              >
+                {!branches.includes(currentBranch) && <option value={currentBranch}>{currentBranch}</option>}
+                {branches.map(b => <option key={b} value={b}>{b}</option>)}
+              </select>
+            </div>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setShowNewBranch(!showNewBranch)}
+                className="p-1.5 text-gray-500 hover:text-blue-500 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                title="New Branch"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => run(refresh)}
+                disabled={isBusy}
+                className="p-1.5 text-gray-500 hover:text-blue-500 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                title="Refresh"
+              >
+                <RefreshCw className={clsx("w-4 h-4", isBusy && "animate-spin")} />
+              </button>
+            </div>
+          </div>
+          {showNewBranch && (
+            <form onSubmit={handleCreateBranch} className="p-3 flex space-x-2">
+              <input
+                autoFocus
+                type="text"
+                value={newBranchName}
+                onChange={(e) => setNewBranchName(e.target.value)}
+                placeholder="feature/new-layout"
+                className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded text-sm outline-none focus:ring-1 focus:ring-blue-400 dark:bg-gray-700 dark:text-white"
+              />
+              <button type="submit" disabled={!newBranchName.trim() || isBusy} className="px-3 py-1.5 bg-blue-600 text-white rounded text-sm disabled:opacity-50">Create</button>
+            </form>
+          )}
+        </section>
+
+        {errorMsg && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-xl text-sm border border-red-100 dark:border-red-900/30">
+            {errorMsg}
+          </div>
+        )}
+
+        {/* Changes */}
+        <section className={sectionClass}>
+          <div className={sectionHeaderClass}>
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-600 dark:text-gray-300">Staged Changes ({staged.length})</span>
+          </div>
+          <div className="p-1">
+            {staged.length === 0 && <p className="px-3 py-2 text-xs text-gray-400">Nothing staged</p>}
+            {staged.map(s => renderStatusRow(s, s.staged as ChangeKind, true))}
+          </div>
+          <div className={clsx(sectionHeaderClass, "border-t")}>
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-600 dark:text-gray-300">Changes ({unstaged.length})</span>
+            {unstaged.length > 0 && (
+              <button
+                onClick={() => run(async () => { await stageAll(project); await refresh(); })}
+                disabled={isBusy}
+                className="text-xs text-blue-600 dark:text-blue-400 font-medium"
+              >
+                Stage All
+              </button>
+            )}
+          </div>
+          <div className="p-1">
+            {unstaged.length === 0 && <p className="px-3 py-2 text-xs text-gray-400">Working tree clean</p>}
+            {unstaged.map(s => renderStatusRow(s, s.unstaged as ChangeKind, false))}
+          </div>
+          <div className="p-3 border-t border-gray-100 dark:border-gray-700 space-y-2">
+            <textarea
+              value={commitMessage}
+              onChange={(e) => setCommitMessage(e.target.value)}
+              placeholder="Commit message"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white resize-none"
+            />
+            <button
+              onClick={handleCommit}
+              disabled={isBusy || !commitMessage.trim() || status.length === 0}
+              className="w-full py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium flex items-center justify-center space-x-2 transition-colors disabled:opacity-50"
+            >
+              {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              <span>{staged.length > 0 ? `Commit ${staged.length} staged` : 'Commit all changes'}</span>
+            </button>
+          </div>
+        </section>
+
+        {/* Log */}
+        <section className={sectionClass}>
+          <div className={sectionHeaderClass}>
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-600 dark:text-gray-300">Commit Log</span>
+          </div>
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {log.length === 0 && <p className="px-4 py-3 text-xs text-gray-400">No commits yet</p>}
+            {log.map(entry => (
+              <div key={entry.oid} className="px-4 py-2.5 flex items-start space-x-3">
+                <GitCommit className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-800 dark:text-gray-100 truncate">{entry.message.split('\n')[0]}</div>
+                  <div className="text-[10px] text-gray-400 mt-0.5">
+                    <span className="font-mono">{entry.oid.slice(0, 7)}</span> &bull; {entry.author} &bull; {new Date(entry.timestamp).toLocaleString()}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SourceControlView;
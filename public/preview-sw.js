@@ -0,0 +1,202 @@
+/*
+ * Buildora preview server.
+ *
+ * Serves the files of the project open in the IDE below
+ * `<scope>__preview/<projectId>/`, so the Live Preview iframe behaves like a
+ * page loaded from a real web server: relative links, fetch(), ES modules,
+ * CSS url() references and fonts all resolve against project paths.
+ *
+ * The IDE publishes project files with a PREVIEW_PUBLISH message. Workers are
+ * stopped when idle, so when a request arrives for a project we no longer
+ * hold, the files are requested again from the IDE window. PHP files are
+ * executed by the IDE window too, since the PHP runtime lives there.
+ */
+
+const PREVIEW_SEGMENT = '__preview/';
+const RESYNC_TIMEOUT_MS = 3000;
+const PHP_TIMEOUT_MS = 30000;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// projectId -> Map(path -> { body, type, php })
+const projects = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+const storeProject = (projectId, files) => {
+  const entries = new Map();
+  files.forEach((file) => entries.set(file.path, { body: file.body, type: file.type, php: !!file.php }));
+  projects.set(projectId, entries);
+};
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type === 'PREVIEW_PUBLISH') {
+    storeProject(data.projectId, data.files);
+    if (event.ports[0]) event.ports[0].postMessage({ ok: true });
+  } else if (data.type === 'PREVIEW_UNPUBLISH') {
+    projects.delete(data.projectId);
+  }
+});
+
+/**
+ * Posts `message` to the IDE windows and resolves with the first non-null
+ * answer, or null when none answers in time. Preview pages are skipped.
+ */
+const askIde = async (message, timeout) => {
+  const previewBase = new URL(PREVIEW_SEGMENT, self.registration.scope).href;
+  const windows = (await self.clients.matchAll({ type: 'window', includeUncontrolled: true }))
+    .filter((client) => !client.url.startsWith(previewBase));
+
+  return new Promise((resolve) => {
+    let pending = windows.length;
+    const timer = setTimeout(() => resolve(null), timeout);
+    const settle = (answer) => {
+      pending--;
+      if (answer || pending === 0) {
+        clearTimeout(timer);
+        resolve(answer || null);
+      }
+    };
+    if (!pending) settle(null);
+
+    windows.forEach((client) => {
+      const channel = new MessageChannel();
+      channel.port1.onmessage = (event) => settle(event.data);
+      client.postMessage(message, [channel.port2]);
+    });
+  });
+};
+
+/** Asks the IDE to publish `projectId` again after the worker restarted. */
+const requestResync = async (projectId) => {
+  const answer = await askIde({ type: 'PREVIEW_RESYNC', projectId }, RESYNC_TIMEOUT_MS);
+  if (answer && answer.files) storeProject(projectId, answer.files);
+  return projects.get(projectId) || null;
+};
+
+const runPhp = async (request, projectId, path) => {
+  const headers = {};
+  request.headers.forEach((value, key) => { headers[key] = value; });
+  const body = request.method === 'GET' || request.method === 'HEAD' ? null : await request.arrayBuffer();
+
+  const answer = await askIde({
+    type: 'PREVIEW_PHP_REQUEST',
+    projectId,
+    request: { path, method: request.method, url: request.url, headers, body }
+  }, PHP_TIMEOUT_MS);
+
+  if (!answer) {
+    return new Response('PHP runtime did not respond. Is the Buildora IDE still open?', {
+      status: 504, headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+    });
+  }
+  const headers = new Headers({ 'Content-Type': answer.type, 'Cache-Control': 'no-store' });
+  (answer.headers || []).forEach(([name, value]) => {
+    try {
+      headers.append(name, value);
+    } catch (e) {
+      // Skip names and values the Fetch API rejects
+    }
+  });
+
+  // header('Location: ...') redirects like a web server would, relative to the script
+  const location = headers.get('Location');
+  if (location && REDIRECT_STATUSES.includes(answer.status)) {
+    return Response.redirect(new URL(location, request.url).href, answer.status);
+  }
+  // Responses to HEAD requests and these statuses must not have a body
+  const body = request.method === 'HEAD' || [204, 205, 304].includes(answer.status) ? null : answer.body;
+  return new Response(body, { status: answer.status, headers });
+};
+
+const decodePath = (path) => {
+  try {
+    return decodeURIComponent(path);
+  } catch (e) {
+    return path;
+  }
+};
+
+/** Finds the entry for a request path, serving index files for directories. */
+const lookup = (entries, path) => {
+  const clean = path.replace(/\/+$/, '');
+  if (clean && entries.has(clean)) return { path: clean, entry: entries.get(clean) };
+  const prefix = clean ? clean + '/' : '';
+  for (const index of ['index.html', 'index.php']) {
+    if (entries.has(prefix + index)) return { path: prefix + index, entry: entries.get(prefix + index) };
+  }
+  return null;
+};
+
+const notFound = (path) => new Response(
+  '<!DOCTYPE html><html><body style="font-family:sans-serif;color:#374151;padding:24px">'
+    + '<h1 style="font-size:20px">404 Not Found</h1>'
+    + '<p>The file <code>' + path.replace(/[<>&]/g, '') + '</code> does not exist in this project.</p>'
+    + '</body></html>',
+  { status: 404, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+);
+
+const handlePreviewRequest = async (request, projectId, path) => {
+  let entries = projects.get(projectId);
+  if (!entries) entries = await requestResync(projectId);
+  if (!entries) return notFound(path);
+
+  const match = lookup(entries, path);
+  if (!match) return notFound(path);
+
+  // Directory URLs without a trailing slash must redirect, or relative links break
+  if (match.path !== path.replace(/\/+$/, '') && path && !path.endsWith('/')) {
+    const url = new URL(request.url);
+    url.pathname += '/';
+    return Response.redirect(url.href, 301);
+  }
+
+  if (match.entry.php) return runPhp(request, projectId, match.path);
+
+  return new Response(match.entry.body, {
+    status: 200,
+    headers: { 'Content-Type': match.entry.type, 'Cache-Control': 'no-store' }
+  });
+};
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  const base = new URL(PREVIEW_SEGMENT, self.registration.scope);
+  if (url.origin !== base.origin) return;
+
+  if (!url.pathname.startsWith(base.pathname)) {
+    // Root-relative URLs used by a preview page ("/about.html") belong to its project
+    const referrer = event.request.referrer;
+    if (!referrer || !referrer.startsWith(base.href)) return;
+    const projectId = referrer.slice(base.href.length).split('/')[0];
+    const scopePath = new URL(self.registration.scope).pathname;
+    const path = url.pathname.startsWith(scopePath) ? url.pathname.slice(scopePath.length) : url.pathname.slice(1);
+
+    if (event.request.mode === 'navigate') {
+      // 307 keeps the method and body of form submissions
+      event.respondWith(Response.redirect(base.href + projectId + '/' + path + url.search, 307));
+    } else {
+      event.respondWith(handlePreviewRequest(event.request, decodePath(projectId), decodePath(path)));
+    }
+    return;
+  }
+
+  const rest = url.pathname.slice(base.pathname.length);
+  const slash = rest.indexOf('/');
+  const projectId = decodePath(slash === -1 ? rest : rest.slice(0, slash));
+  const path = slash === -1 ? '' : decodePath(rest.slice(slash + 1));
+
+  // `/__preview/<id>` itself has to end in a slash for relative URLs to work
+  if (slash === -1) {
+    event.respondWith(Response.redirect(url.href + '/', 301));
+    return;
+  }
+
+  event.respondWith(handlePreviewRequest(event.request, projectId, path));
+});
@@ -0,0 +1,140 @@
+// Builds the WebView shell APK that Buildora fills in for APK exports into
+// public/android/shell.apk, from the smali, manifest and resource sources in
+// android-shell/. Needs only Node: the dex, binary XML and resource table are
+// written by scripts/shell/. The APK is unsigned; Buildora signs each export.
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { deflateRawSync, deflateSync } from 'node:zlib';
+import { assembleDex } from './shell/dex.mjs';
+import { assignIds, compileXml, resourceTable } from './shell/resources.mjs';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const shellDir = join(root, 'android-shell');
+const target = join(root, 'public', 'android', 'shell.apk');
+
+const PACKAGE_NAME = 'com.buildora.shell';
+
+// Pixels per dp, as in utils/icons.ts
+const DENSITIES = { ldpi: 0.75, mdpi: 1, hdpi: 1.5, xhdpi: 2, xxhdpi: 3, xxxhdpi: 4 };
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, data) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/** A solid RGBA PNG; Buildora replaces every launcher icon at build time. */
+const solidPng = (size, [r, g, b, a]) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, no interlace
+  const row = Buffer.alloc(1 + size * 4);
+  for (let x = 0; x < size; x++) row.set([r, g, b, a], 1 + x * 4);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(Buffer.concat(Array(size).fill(row)))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+/** Placeholder launcher icons, in density folders with the -v4 suffix aapt2 gives them. */
+const iconFiles = () => {
+  const files = new Map();
+  for (const [density, scale] of Object.entries(DENSITIES)) {
+    const folder = `res/mipmap-${density}-v4`;
+    const launcher = Math.round(48 * scale);
+    const layer = Math.round(108 * scale);
+    files.set(`${folder}/ic_launcher.png`, solidPng(launcher, [37, 99, 235, 255]));
+    files.set(`${folder}/ic_launcher_round.png`, solidPng(launcher, [37, 99, 235, 255]));
+    files.set(`${folder}/ic_launcher_foreground.png`, solidPng(layer, [0, 0, 0, 0]));
+    files.set(`${folder}/ic_launcher_background.png`, solidPng(layer, [37, 99, 235, 255]));
+  }
+  return files;
+};
+
+const listFiles = dir => readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+  entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]);
+
+// 1980-01-01, so the same sources always give the same bytes
+const DOS_DATE = (1 << 5) | 1;
+
+/** A zip with PNGs and resources.arsc stored, as Android expects, and the rest deflated. */
+const writeZip = files => {
+  const locals = [];
+  const central = [];
+  let offset = 0;
+  for (const [name, data] of files) {
+    const stored = /\.(png|arsc)$/.test(name);
+    const body = stored ? data : deflateRawSync(data, { level: 9 });
+    const nameBytes = Buffer.from(name, 'utf8');
+    const fields = Buffer.alloc(26);
+    fields.writeUInt16LE(20, 0);
+    fields.writeUInt16LE(0, 2);
+    fields.writeUInt16LE(stored ? 0 : 8, 4);
+    fields.writeUInt16LE(0, 6);
+    fields.writeUInt16LE(DOS_DATE, 8);
+    fields.writeUInt32LE(crc32(data), 10);
+    fields.writeUInt32LE(body.length, 14);
+    fields.writeUInt32LE(data.length, 18);
+    fields.writeUInt16LE(nameBytes.length, 22);
+    fields.writeUInt16LE(0, 24);
+    const local = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), fields, nameBytes, body]);
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4);
+    fields.copy(record, 6);
+    record.writeUInt32LE(offset, 42);
+    central.push(Buffer.concat([record, nameBytes]));
+    locals.push(local);
+    offset += local.length;
+  }
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.size, 8);
+  end.writeUInt16LE(files.size, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+const icons = iconFiles();
+const resDir = join(shellDir, 'res');
+const xmlResources = listFiles(resDir).map(file => `res/${relative(resDir, file).split('\\').join('/')}`);
+const mipmaps = [...icons.keys(), ...xmlResources];
+const { ids } = assignIds(mipmaps, 'mipmap');
+const resolve = reference => ids.get(reference);
+const compile = path => compileXml(readFileSync(join(shellDir, path), 'utf8'), path, resolve);
+
+const smaliDir = join(shellDir, 'smali');
+const sources = listFiles(smaliDir).sort().map(file => [relative(root, file), readFileSync(file, 'utf8')]);
+
+const files = new Map([
+  ['AndroidManifest.xml', compile('AndroidManifest.xml')],
+  ['classes.dex', assembleDex(sources)],
+  ['resources.arsc', resourceTable(PACKAGE_NAME, 'mipmap', mipmaps)],
+  ...xmlResources.sort().map(path => [path, compile(path)]),
+  ...[...icons.entries()].sort(([a], [b]) => (a < b ? -1 : 1))
+]);
+
+mkdirSync(dirname(target), { recursive: true });
+writeFileSync(target, writeZip(files));
+console.log(`Shell template written to ${relative(root, target)}`);
@@ -0,0 +1,617 @@
+// Assembles the smali sources in android-shell/smali into classes.dex. Only
+// the directives and instructions the shell uses are supported; anything
+// else is rejected with its file and line.
+import { createHash } from 'node:crypto';
+
+const NO_INDEX = 0xffffffff;
+
+const ACCESS_FLAGS = {
+  public: 0x1, private: 0x2, protected: 0x4, static: 0x8, final: 0x10,
+  interface: 0x200, abstract: 0x400, synthetic: 0x1000, constructor: 0x10000
+};
+
+// name -> [opcode, format, reference kind]
+const OPCODES = {
+  'nop': [0x00, '10x'],
+  'move': [0x01, '12x'],
+  'move-object': [0x07, '12x'],
+  'move-result': [0x0a, '11x'],
+  'move-result-wide': [0x0b, '11x'],
+  'move-result-object': [0x0c, '11x'],
+  'move-exception': [0x0d, '11x'],
+  'return-void': [0x0e, '10x'],
+  'return': [0x0f, '11x'],
+  'return-wide': [0x10, '11x'],
+  'return-object': [0x11, '11x'],
+  'const/4': [0x12, '11n'],
+  'const/16': [0x13, '21s'],
+  'const': [0x14, '31i'],
+  'const/high16': [0x15, '21h'],
+  'const-wide/16': [0x16, '21s'],
+  'const-string': [0x1a, '21c', 'string'],
+  'check-cast': [0x1f, '21c', 'type'],
+  'instance-of': [0x20, '22c', 'type'],
+  'array-length': [0x21, '12x'],
+  'new-instance': [0x22, '21c', 'type'],
+  'new-array': [0x23, '22c', 'type'],
+  'throw': [0x27, '11x'],
+  'goto': [0x28, '10t'],
+  'goto/16': [0x29, '20t'],
+  'cmpl-float': [0x2d, '23x'],
+  'cmpg-float': [0x2e, '23x'],
+  'cmp-long': [0x31, '23x']
+};
+['eq', 'ne', 'lt', 'ge', 'gt', 'le'].forEach((test, i) => {
+  OPCODES[`if-${test}`] = [0x32 + i, '22t'];
+  OPCODES[`if-${test}z`] = [0x38 + i, '21t'];
+});
+['', '-wide', '-object', '-boolean', '-byte', '-char', '-short'].forEach((kind, i) => {
+  OPCODES[`aget${kind}`] = [0x44 + i, '23x'];
+  OPCODES[`aput${kind}`] = [0x4b + i, '23x'];
+  OPCODES[`iget${kind}`] = [0x52 + i, '22c', 'field'];
+  OPCODES[`iput${kind}`] = [0x59 + i, '22c', 'field'];
+  OPCODES[`sget${kind}`] = [0x60 + i, '21c', 'field'];
+  OPCODES[`sput${kind}`] = [0x67 + i, '21c', 'field'];
+});
+['virtual', 'super', 'direct', 'static', 'interface'].forEach((kind, i) => {
+  OPCODES[`invoke-${kind}`] = [0x6e + i, '35c', 'method'];
+});
+['int-to-float', 'float-to-int'].forEach((name, i) => { OPCODES[name] = [[0x82, 0x87][i], '12x']; });
+['add', 'sub', 'mul', 'div', 'rem', 'and', 'or', 'xor', 'shl', 'shr', 'ushr'].forEach((op, i) => {
+  OPCODES[`${op}-int`] = [0x90 + i, '23x'];
+  OPCODES[`${op}-int/2addr`] = [0xb0 + i, '12x'];
+});
+// The literal forms subtract in reverse, and shifts have no 16-bit literal form
+['add', 'rsub', 'mul', 'div', 'rem', 'and', 'or', 'xor', 'shl', 'shr', 'ushr'].forEach((op, i) => {
+  OPCODES[op === 'rsub' ? 'rsub-int/lit8' : `${op}-int/lit8`] = [0xd8 + i, '22b'];
+  if (i < 8) OPCODES[op === 'rsub' ? 'rsub-int' : `${op}-int/lit16`] = [0xd0 + i, '22s'];
+});
+['add', 'sub', 'mul', 'div', 'rem'].forEach((op, i) => {
+  OPCODES[`${op}-float`] = [0xa6 + i, '23x'];
+  OPCODES[`${op}-float/2addr`] = [0xc6 + i, '12x'];
+});
+
+// Code units per instruction format
+const FORMAT_SIZE = { '10x': 1, '12x': 1, '11n': 1, '11x': 1, '10t': 1, '20t': 2, '21t': 2, '21s': 2, '21h': 2, '21c': 2, '22c': 2, '22t': 2, '22s': 2, '22b': 2, '23x': 2, '35c': 3, '31i': 3 };
+
+const DESCRIPTOR = /\[*(?:L[^;]+;|[VZBSCIJFD])/g;
+
+const fail = (where, message) => { throw new Error(`${where}: ${message}`); };
+
+const parseDescriptors = (text, where) => {
+  const types = text.match(DESCRIPTOR) ?? [];
+  if (types.join('') !== text) fail(where, `bad type list '${text}'`);
+  return types;
+};
+
+const isWide = type => type === 'J' || type === 'D';
+
+const shorty = type => (type.startsWith('[') || type.startsWith('L') ? 'L' : type);
+
+const parseString = (literal, where) => {
+  try {
+    return JSON.parse(literal);
+  } catch {
+    return fail(where, `bad string ${literal}`);
+  }
+};
+
+const parseLiteral = (text, where) => {
+  const match = text.match(/^(-)?(0x[0-9a-f]+|\d+)$/i);
+  if (!match) fail(where, `bad literal '${text}'`);
+  const value = Number(match[2]);
+  return match[1] ? -value : value;
+};
+
+const parseField = (text, where) => {
+  const match = text.match(/^(L[^;]+;)->([^:]+):(.+)$/);
+  if (!match) fail(where, `bad field reference '${text}'`);
+  parseDescriptors(match[3], where);
+  return { owner: match[1], name: match[2], type: match[3] };
+};
+
+const parseMethod = (text, where) => {
+  const match = text.match(/^(L[^;]+;)->([^(]+)\(([^)]*)\)(.+)$/);
+  if (!match) fail(where, `bad method reference '${text}'`);
+  const [ret] = parseDescriptors(match[4], where);
+  return { owner: match[1], name: match[2], params: parseDescriptors(match[3], where), ret };
+};
+
+/** Splits instruction operands on commas outside braces and strings. */
+const splitOperands = text => {
+  const operands = [];
+  let current = '';
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      current += c;
+      if (c === '\\') current += text[++i];
+      else if (c === '"') quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+      current += c;
+    } else if (c === '{') {
+      depth++;
+      current += c;
+    } else if (c === '}') {
+      depth--;
+      current += c;
+    } else if (c === ',' && depth === 0) {
+      operands.push(current.trim());
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  if (current.trim()) operands.push(current.trim());
+  return operands;
+};
+
+const stripComment = line => {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (quoted && line[i] === '\\') i++;
+    else if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === '#' && !quoted) return line.slice(0, i);
+  }
+  return line;
+};
+
+const parseFlags = (words, where) => words.reduce((flags, word) => {
+  if (!(word in ACCESS_FLAGS)) fail(where, `unknown access flag '${word}'`);
+  return flags | ACCESS_FLAGS[word];
+}, 0);
+
+/** Parses one smali file into a class definition. */
+export const parseSmali = (source, file) => {
+  const cls = { name: null, flags: 0, superclass: null, interfaces: [], fields: [], methods: [] };
+  let method = null;
+  source.split('\n').forEach((raw, i) => {
+    const where = `${file}:${i + 1}`;
+    const line = stripComment(raw).trim();
+    if (!line) return;
+    const words = line.split(/\s+/);
+    const directive = words[0];
+
+    if (method) {
+      if (directive === '.end' && words[1] === 'method') {
+        if (method.registers === null) fail(where, 'missing .registers');
+        cls.methods.push(method);
+        method = null;
+      } else if (directive === '.registers') {
+        method.registers = parseLiteral(words[1], where);
+      } else if (directive === '.catchall') {
+        const match = line.match(/^\.catchall \{:(\w+) \.\. :(\w+)\} :(\w+)$/);
+        if (!match) fail(where, 'expected .catchall {:start .. :end} :handler');
+        method.catches.push({ start: match[1], end: match[2], handler: match[3], where });
+      } else if (directive.startsWith(':')) {
+        method.code.push({ label: directive.slice(1), where });
+      } else {
+        const operands = splitOperands(line.slice(directive.length));
+        method.code.push({ name: directive, operands, where });
+      }
+      return;
+    }
+
+    switch (directive) {
+      case '.class':
+        cls.flags = parseFlags(words.slice(1, -1), where);
+        cls.name = words[words.length - 1];
+        break;
+      case '.super':
+        cls.superclass = words[1];
+        break;
+      case '.implements':
+        cls.interfaces.push(words[1]);
+        break;
+      case '.field': {
+        const [name, type] = words[words.length - 1].split(':');
+        cls.fields.push({ name, type, flags: parseFlags(words.slice(1, -1), where) });
+        break;
+      }
+      case '.method': {
+        const ref = parseMethod(`${cls.name}->${words[words.length - 1]}`, where);
+        method = { ...ref, flags: parseFlags(words.slice(1, -1), where), registers: null, code: [], catches: [], where };
+        break;
+      }
+      default:
+        fail(where, `unexpected '${directive}'`);
+    }
+  });
+  if (method) fail(file, `method ${method.name} has no .end method`);
+  if (!cls.name || !cls.superclass) fail(file, 'missing .class or .super');
+  return cls;
+};
+
+/** Collects and sorts every string, type, prototype, field and method the classes reference. */
+const buildPools = classes => {
+  const strings = new Set();
+  const types = new Set();
+  const protos = new Map();
+  const fields = new Map();
+  const methods = new Map();
+
+  const addType = type => { types.add(type); strings.add(type); };
+  const addProto = (params, ret) => {
+    const key = `(${params.join('')})${ret}`;
+    if (!protos.has(key)) {
+      const short = [ret, ...params].map(shorty).join('');
+      protos.set(key, { short, ret, params });
+      strings.add(short);
+      [ret, ...params].forEach(addType);
+    }
+    return key;
+  };
+  const addField = ({ owner, name, type }) => {
+    const key = `${owner}->${name}:${type}`;
+    if (!fields.has(key)) {
+      fields.set(key, { owner, name, type });
+      addType(owner);
+      addType(type);
+      strings.add(name);
+    }
+    return key;
+  };
+  const addMethod = ({ owner, name, params, ret }) => {
+    const key = `${owner}->${name}(${params.join('')})${ret}`;
+    if (!methods.has(key)) {
+      methods.set(key, { owner, name, proto: addProto(params, ret) });
+      addType(owner);
+      strings.add(name);
+    }
+    return key;
+  };
+
+  for (const cls of classes) {
+    addType(cls.name);
+    addType(cls.superclass);
+    cls.interfaces.forEach(addType);
+    cls.fields.forEach(field => { field.key = addField({ owner: cls.name, ...field }); });
+    for (const method of cls.methods) {
+      method.key = addMethod(method);
+      for (const insn of method.code) {
+        if (insn.label) continue;
+        const spec = OPCODES[insn.name];
+        if (!spec) fail(insn.where, `unknown instruction '${insn.name}'`);
+        const ref = spec[2] && insn.operands[insn.operands.length - 1];
+        if (spec[2] === 'string') strings.add(insn.ref = parseString(ref, insn.where));
+        else if (spec[2] === 'type') addType(insn.ref = ref);
+        else if (spec[2] === 'field') insn.ref = addField(parseField(ref, insn.where));
+        else if (spec[2] === 'method') insn.ref = addMethod(parseMethod(ref, insn.where));
+      }
+    }
+  }
+
+  const stringList = [...strings].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const stringIndex = new Map(stringList.map((s, i) => [s, i]));
+  const typeList = [...types].sort((a, b) => stringIndex.get(a) - stringIndex.get(b));
+  const typeIndex = new Map(typeList.map((t, i) => [t, i]));
+
+  const compareLists = (a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) if (a[i] !== b[i]) return a[i] - b[i];
+    return a.length - b.length;
+  };
+  const protoList = [...protos.entries()].sort(([, a], [, b]) =>
+    typeIndex.get(a.ret) - typeIndex.get(b.ret) || compareLists(a.params.map(t => typeIndex.get(t)), b.params.map(t => typeIndex.get(t))));
+  const protoIndex = new Map(protoList.map(([key], i) => [key, i]));
+  const fieldList = [...fields.entries()].sort(([, a], [, b]) =>
+    typeIndex.get(a.owner) - typeIndex.get(b.owner) || stringIndex.get(a.name) - stringIndex.get(b.name) || typeIndex.get(a.type) - typeIndex.get(b.type));
+  const fieldIndex = new Map(fieldList.map(([key], i) => [key, i]));
+  const methodList = [...methods.entries()].sort(([, a], [, b]) =>
+    typeIndex.get(a.owner) - typeIndex.get(b.owner) || stringIndex.get(a.name) - stringIndex.get(b.name) || protoIndex.get(a.proto) - protoIndex.get(b.proto));
+  const methodIndex = new Map(methodList.map(([key], i) => [key, i]));
+
+  return { stringList, stringIndex, typeList, typeIndex, protoList, protoIndex, fieldList, fieldIndex, methodList, methodIndex };
+};
+
+/** Encodes a method body into a code_item, resolving labels and register names. */
+const assembleCode = (method, pools) => {
+  const ins = method.params.reduce((words, type) => words + (isWide(type) ? 2 : 1), method.flags & ACCESS_FLAGS.static ? 0 : 1);
+  if (ins > method.registers) fail(method.where, `${method.registers} registers cannot hold ${ins} parameter words`);
+
+  const register = (text, where, max) => {
+    const match = text.match(/^([vp])(\d+)$/);
+    if (!match) fail(where, `bad register '${text}'`);
+    const n = Number(match[2]) + (match[1] === 'p' ? method.registers - ins : 0);
+    if (n >= method.registers) fail(where, `${text} is outside the ${method.registers} registers`);
+    if (n > max) fail(where, `${text} does not fit the instruction`);
+    return n;
+  };
+
+  // First pass: addresses of instructions and labels
+  const labels = new Map();
+  let address = 0;
+  for (const insn of method.code) {
+    if (insn.label) {
+      if (labels.has(insn.label)) fail(insn.where, `duplicate label :${insn.label}`);
+      labels.set(insn.label, address);
+    } else {
+      insn.address = address;
+      address += FORMAT_SIZE[OPCODES[insn.name][1]];
+    }
+  }
+  const target = (text, insn, bits) => {
+    if (!text?.startsWith(':') || !labels.has(text.slice(1))) fail(insn.where, `unknown label '${text}'`);
+    const offset = labels.get(text.slice(1)) - insn.address;
+    if (offset < -(2 ** (bits - 1)) || offset >= 2 ** (bits - 1)) fail(insn.where, 'branch target out of range');
+    return offset & (2 ** bits - 1);
+  };
+  // Signed, except that 32-bit literals may also be written unsigned
+  const literal = (text, insn, bits) => {
+    const value = parseLiteral(text, insn.where);
+    if (value < -(2 ** (bits - 1)) || value >= 2 ** (bits === 32 ? 32 : bits - 1)) fail(insn.where, `literal ${text} does not fit ${bits} bits`);
+    return value & (2 ** bits - 1);
+  };
+  const refIndex = insn => {
+    const kind = OPCODES[insn.name][2];
+    const index = { string: pools.stringIndex, type: pools.typeIndex, field: pools.fieldIndex, method: pools.methodIndex }[kind].get(insn.ref);
+    if (index > 0xffff) fail(insn.where, 'reference index does not fit 16 bits');
+    return index;
+  };
+
+  // Second pass: code units
+  const units = [];
+  let outs = 0;
+  for (const insn of method.code) {
+    if (insn.label) continue;
+    const [op, format] = OPCODES[insn.name];
+    const args = insn.operands;
+    const reg = (i, max) => register(args[i], insn.where, max);
+    switch (format) {
+      case '10x': units.push(op); break;
+      case '12x': units.push(op | reg(0, 15) << 8 | reg(1, 15) << 12); break;
+      case '11n': units.push(op | reg(0, 15) << 8 | literal(args[1], insn, 4) << 12); break;
+      case '11x': units.push(op | reg(0, 255) << 8); break;
+      case '10t': units.push(op | target(args[0], insn, 8) << 8); break;
+      case '20t': units.push(op, target(args[0], insn, 16)); break;
+      case '21t': units.push(op | reg(0, 255) << 8, target(args[1], insn, 16)); break;
+      case '21s': units.push(op | reg(0, 255) << 8, literal(args[1], insn, 16)); break;
+      case '21h': {
+        const value = parseLiteral(args[1], insn.where);
+        if (value & 0xffff) fail(insn.where, `${args[1]} has low bits set`);
+        units.push(op | reg(0, 255) << 8, (value >>> 16) & 0xffff);
+        break;
+      }
+      case '21c': units.push(op | reg(0, 255) << 8, refIndex(insn)); break;
+      case '22c': units.push(op | reg(0, 15) << 8 | reg(1, 15) << 12, refIndex(insn)); break;
+      case '22t': units.push(op | reg(0, 15) << 8 | reg(1, 15) << 12, target(args[2], insn, 16)); break;
+      case '22s': units.push(op | reg(0, 15) << 8 | reg(1, 15) << 12, literal(args[2], insn, 16)); break;
+      case '22b': units.push(op | reg(0, 255) << 8, reg(1, 255) | literal(args[2], insn, 8) << 8); break;
+      case '23x': units.push(op | reg(0, 255) << 8, reg(1, 255) | reg(2, 255) << 8); break;
+      case '31i': {
+        const value = literal(args[1], insn, 32);
+        units.push(op | reg(0, 255) << 8, value & 0xffff, value >>> 16);
+        break;
+      }
+      case '35c': {
+        const list = args[0].match(/^\{(.*)\}$/);
+        if (!list) fail(insn.where, 'expected a register list');
+        const regs = list[1].split(',').map(s => s.trim()).filter(Boolean).map(r => register(r, insn.where, 15));
+        if (regs.length > 5) fail(insn.where, 'more than 5 argument registers');
+        const { params } = parseMethod(insn.ref, insn.where);
+        const words = params.reduce((n, type) => n + (isWide(type) ? 2 : 1), insn.name === 'invoke-static' ? 0 : 1);
+        if (words !== regs.length) fail(insn.where, `expected ${words} argument registers, got ${regs.length}`);
+        outs = Math.max(outs, regs.length);
+        const [c = 0, d = 0, e = 0, f = 0, g = 0] = regs;
+        units.push(op | g << 8 | regs.length << 12, refIndex(insn), c | d << 4 | e << 8 | f << 12);
+        break;
+      }
+    }
+  }
+
+  const tries = method.catches.map(({ start, end, handler, where }) => {
+    for (const label of [start, end, handler]) if (!labels.has(label)) fail(where, `unknown label :${label}`);
+    const from = labels.get(start);
+    const count = labels.get(end) - from;
+    if (count <= 0) fail(where, 'empty try range');
+    return { start: from, count, handler: labels.get(handler) };
+  }).sort((a, b) => a.start - b.start);
+  tries.forEach((t, i) => { if (i && tries[i - 1].start + tries[i - 1].count > t.start) fail(method.where, 'overlapping try ranges'); });
+
+  return { registers: method.registers, ins, outs, units, tries };
+};
+
+class Writer {
+  constructor() { this.bytes = []; }
+  get offset() { return this.bytes.length; }
+  u8(v) { this.bytes.push(v & 0xff); }
+  u16(v) { this.u8(v); this.u8(v >>> 8); }
+  u32(v) { this.u16(v & 0xffff); this.u16(v >>> 16); }
+  uleb(v) {
+    do {
+      let byte = v & 0x7f;
+      v >>>= 7;
+      if (v) byte |= 0x80;
+      this.u8(byte);
+    } while (v);
+  }
+  align(n) { while (this.offset % n) this.u8(0); }
+  set32(at, v) { for (let i = 0; i < 4; i++) this.bytes[at + i] = (v >>> (8 * i)) & 0xff; }
+}
+
+/** Strings as MUTF-8, which matches UTF-8 for the characters without NUL or surrogates. */
+const mutf8 = s => {
+  if (/[\0\ud800-\udfff]/.test(s)) throw new Error(`Unsupported character in string ${JSON.stringify(s)}`);
+  return Buffer.from(s, 'utf8');
+};
+
+/** Assembles the smali sources (`[file, text]` pairs) into a dex file. */
+export const assembleDex = sources => {
+  const classes = sources.map(([file, text]) => parseSmali(text, file));
+  const pools = buildPools(classes);
+  const { stringList, typeList, typeIndex, stringIndex, protoList, protoIndex, fieldList, fieldIndex, methodList, methodIndex } = pools;
+
+  // Superclasses and interfaces defined here must come before their subclasses
+  const ordered = [];
+  const visit = cls => {
+    if (ordered.includes(cls)) return;
+    classes.filter(c => c.name === cls.superclass || cls.interfaces.includes(c.name)).forEach(visit);
+    ordered.push(cls);
+  };
+  classes.forEach(visit);
+
+  const w = new Writer();
+  const map = [];
+  const section = (type, count, offset) => { if (count) map.push({ type, count, offset }); };
+
+  w.bytes.length = 0x70;
+  w.bytes.fill(0);
+  section(0x0000, 1, 0);
+
+  const stringIdsOff = w.offset;
+  stringList.forEach(() => w.u32(0));
+  const typeIdsOff = w.offset;
+  typeList.forEach(t => w.u32(stringIndex.get(t)));
+  const protoIdsOff = w.offset;
+  protoList.forEach(([, p]) => { w.u32(stringIndex.get(p.short)); w.u32(typeIndex.get(p.ret)); w.u32(0); });
+  const fieldIdsOff = w.offset;
+  fieldList.forEach(([, f]) => { w.u16(typeIndex.get(f.owner)); w.u16(typeIndex.get(f.type)); w.u32(stringIndex.get(f.name)); });
+  const methodIdsOff = w.offset;
+  methodList.forEach(([, m]) => { w.u16(typeIndex.get(m.owner)); w.u16(protoIndex.get(m.proto)); w.u32(stringIndex.get(m.name)); });
+  const classDefsOff = w.offset;
+  ordered.forEach(() => { for (let i = 0; i < 8; i++) w.u32(0); });
+  section(0x0001, stringList.length, stringIdsOff);
+  section(0x0002, typeList.length, typeIdsOff);
+  section(0x0003, protoList.length, protoIdsOff);
+  section(0x0004, fieldList.length, fieldIdsOff);
+  section(0x0005, methodList.length, methodIdsOff);
+  section(0x0006, ordered.length, classDefsOff);
+
+  const dataOff = w.offset;
+
+  // code_item
+  const codeOffsets = new Map();
+  let codeCount = 0;
+  w.align(4);
+  const codeOff = w.offset;
+  for (const cls of ordered) {
+    for (const method of cls.methods) {
+      if (method.flags & ACCESS_FLAGS.abstract) continue;
+      const code = assembleCode(method, pools);
+      w.align(4);
+      codeOffsets.set(method, w.offset);
+      codeCount++;
+      w.u16(code.registers);
+      w.u16(code.ins);
+      w.u16(code.outs);
+      w.u16(code.tries.length);
+      w.u32(0);
+      w.u32(code.units.length);
+      code.units.forEach(u => w.u16(u));
+      if (code.tries.length) {
+        if (code.units.length % 2) w.u16(0);
+        // Every handler is a catch-all, so handlers are shared by address
+        const handlers = [...new Set(code.tries.map(t => t.handler))];
+        const list = new Writer();
+        list.uleb(handlers.length);
+        const handlerOffsets = handlers.map(address => {
+          const at = list.offset;
+          list.u8(0); // sleb128 0: no typed catches, then the catch-all
+          list.uleb(address);
+          return at;
+        });
+        code.tries.forEach(t => { w.u32(t.start); w.u16(t.count); w.u16(handlerOffsets[handlers.indexOf(t.handler)]); });
+        w.bytes.push(...list.bytes);
+      }
+    }
+  }
+  section(0x2001, codeCount, codeOff);
+
+  // type_list, shared between equal lists
+  w.align(4);
+  const typeListsOff = w.offset;
+  const typeLists = new Map();
+  const typeListOffset = list => {
+    if (!list.length) return 0;
+    const key = list.join('');
+    if (!typeLists.has(key)) {
+      w.align(4);
+      typeLists.set(key, w.offset);
+      w.u32(list.length);
+      list.forEach(t => w.u16(typeIndex.get(t)));
+    }
+    return typeLists.get(key);
+  };
+  const protoParams = protoList.map(([, p]) => typeListOffset(p.params));
+  const interfaceLists = ordered.map(cls => typeListOffset(cls.interfaces));
+  section(0x1001, typeLists.size, typeListsOff);
+
+  // string_data_item
+  const stringDataOff = w.offset;
+  const stringOffsets = stringList.map(s => {
+    const at = w.offset;
+    w.uleb(s.length);
+    w.bytes.push(...mutf8(s), 0);
+    return at;
+  });
+  section(0x2002, stringList.length, stringDataOff);
+
+  // class_data_item
+  const classDataOff = w.offset;
+  const classData = ordered.map(cls => {
+    const at = w.offset;
+    const byIndex = (list, index) => [...list].sort((a, b) => index.get(a.key) - index.get(b.key));
+    const statics = byIndex(cls.fields.filter(f => f.flags & ACCESS_FLAGS.static), fieldIndex);
+    const instance = byIndex(cls.fields.filter(f => !(f.flags & ACCESS_FLAGS.static)), fieldIndex);
+    const isDirect = m => m.flags & (ACCESS_FLAGS.static | ACCESS_FLAGS.private | ACCESS_FLAGS.constructor);
+    const direct = byIndex(cls.methods.filter(isDirect), methodIndex);
+    const virtual = byIndex(cls.methods.filter(m => !isDirect(m)), methodIndex);
+    [statics, instance, direct, virtual].forEach(list => w.uleb(list.length));
+    for (const list of [statics, instance]) {
+      let previous = 0;
+      list.forEach(f => { w.uleb(fieldIndex.get(f.key) - previous); previous = fieldIndex.get(f.key); w.uleb(f.flags); });
+    }
+    for (const list of [direct, virtual]) {
+      let previous = 0;
+      list.forEach(m => {
+        w.uleb(methodIndex.get(m.key) - previous);
+        previous = methodIndex.get(m.key);
+        w.uleb(m.flags);
+        w.uleb(codeOffsets.get(m) ?? 0);
+      });
+    }
+    return at;
+  });
+  section(0x2000, ordered.length, classDataOff);
+
+  // map_list
+  w.align(4);
+  const mapOff = w.offset;
+  section(0x1000, 1, mapOff);
+  w.u32(map.length);
+  map.forEach(item => { w.u16(item.type); w.u16(0); w.u32(item.count); w.u32(item.offset); });
+
+  // Fill in the ids and the header now that the data offsets are known
+  stringOffsets.forEach((offset, i) => w.set32(stringIdsOff + i * 4, offset));
+  protoParams.forEach((offset, i) => w.set32(protoIdsOff + i * 12 + 8, offset));
+  ordered.forEach((cls, i) => {
+    const at = classDefsOff + i * 32;
+    [typeIndex.get(cls.name), cls.flags, typeIndex.get(cls.superclass), interfaceLists[i], NO_INDEX, 0, classData[i], 0]
+      .forEach((value, j) => w.set32(at + j * 4, value));
+  });
+
+  const bytes = Buffer.from(w.bytes);
+  bytes.write('dex\n035\0', 0, 'latin1');
+  [
+    [32, bytes.length], [36, 0x70], [40, 0x12345678], [44, 0], [48, 0], [52, mapOff],
+    [56, stringList.length], [60, stringIdsOff], [64, typeList.length], [68, typeIdsOff],
+    [72, protoList.length], [76, protoList.length ? protoIdsOff : 0], [80, fieldList.length], [84, fieldList.length ? fieldIdsOff : 0],
+    [88, methodList.length], [92, methodIdsOff], [96, ordered.length], [100, classDefsOff],
+    [104, bytes.length - dataOff], [108, dataOff]
+  ].forEach(([at, value]) => bytes.writeUInt32LE(value, at));
+  createHash('sha1').update(bytes.subarray(32)).digest().copy(bytes, 12);
+  bytes.writeUInt32LE(adler32(bytes.subarray(12)), 8);
+  return bytes;
+};
+
+const adler32 = bytes => {
+  let a = 1;
+  let b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
@@ -0,0 +1,272 @@
+// Compiles the shell's XML files to Android's binary XML and writes its
+// resources.arsc, for the few resources the shell has: launcher icons.
+
+const ANDROID_NS = 'http://schemas.android.com/apk/res/android';
+const PACKAGE_ID = 0x7f;
+
+// android: attributes the shell uses, by resource ID and value type
+const ATTRIBUTES = {
+  label: [0x01010001, 'string'],
+  icon: [0x01010002, 'reference'],
+  name: [0x01010003, 'string'],
+  exported: [0x01010010, 'boolean'],
+  configChanges: [0x0101001f, 'flags'],
+  drawable: [0x01010199, 'reference'],
+  minSdkVersion: [0x0101020c, 'integer'],
+  versionCode: [0x0101021b, 'integer'],
+  versionName: [0x0101021c, 'string'],
+  windowSoftInputMode: [0x0101022b, 'flags'],
+  targetSdkVersion: [0x01010270, 'integer'],
+  hardwareAccelerated: [0x010102d3, 'boolean'],
+  usesCleartextTraffic: [0x010104ec, 'boolean'],
+  roundIcon: [0x0101052c, 'reference']
+};
+
+const FLAGS = {
+  configChanges: {
+    keyboard: 0x10, keyboardHidden: 0x20, orientation: 0x80, screenLayout: 0x100,
+    uiMode: 0x200, screenSize: 0x400, smallestScreenSize: 0x800
+  },
+  windowSoftInputMode: { adjustResize: 0x10, adjustPan: 0x20 }
+};
+
+const TYPE_REFERENCE = 0x01;
+const TYPE_STRING = 0x03;
+const TYPE_INT_DEC = 0x10;
+const TYPE_INT_HEX = 0x11;
+const TYPE_INT_BOOLEAN = 0x12;
+
+// Screen densities in dpi, and the qualifier for density-independent resources
+export const DENSITY_DPI = { ldpi: 120, mdpi: 160, hdpi: 240, xhdpi: 320, xxhdpi: 480, xxxhdpi: 640, anydpi: 0xfffe };
+
+const chunk = (type, header, body) => {
+  const headerSize = 8 + header.length;
+  const out = Buffer.alloc(headerSize + body.length);
+  out.writeUInt16LE(type, 0);
+  out.writeUInt16LE(headerSize, 2);
+  out.writeUInt32LE(out.length, 4);
+  header.copy(out, 8);
+  body.copy(out, headerSize);
+  return out;
+};
+
+const u32s = values => {
+  const out = Buffer.alloc(values.length * 4);
+  values.forEach((v, i) => out.writeUInt32LE(v >>> 0, i * 4));
+  return out;
+};
+
+const utf8Length = n => (n > 0x7f ? Buffer.from([0x80 | (n >> 8), n & 0xff]) : Buffer.from([n]));
+
+/** A UTF-8 string pool chunk. */
+const stringPool = strings => {
+  const data = [];
+  const offsets = [];
+  let size = 0;
+  for (const s of strings) {
+    const bytes = Buffer.from(s, 'utf8');
+    const entry = Buffer.concat([utf8Length(s.length), utf8Length(bytes.length), bytes, Buffer.from([0])]);
+    offsets.push(size);
+    data.push(entry);
+    size += entry.length;
+  }
+  const body = Buffer.concat([u32s(offsets), ...data]);
+  const padded = Buffer.concat([body, Buffer.alloc((4 - (body.length % 4)) % 4)]);
+  const header = u32s([strings.length, 0, 0x100, 28 + offsets.length * 4, 0]);
+  return chunk(0x0001, header, padded);
+};
+
+const parseAttributes = (text, where) => {
+  const attributes = [];
+  const pattern = /([\w:]+)\s*=\s*"([^"]*)"/g;
+  let match;
+  while ((match = pattern.exec(text))) attributes.push({ qualified: match[1], value: match[2] });
+  if (text.replace(pattern, '').trim()) throw new Error(`${where}: cannot read attributes '${text.trim()}'`);
+  return attributes;
+};
+
+/** Parses the simple XML used in android-shell: elements, attributes and comments. */
+const parseXml = (source, file) => {
+  const events = [];
+  const pattern = /<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<(\/?)([\w.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match;
+  while ((match = pattern.exec(source))) {
+    const line = source.slice(0, match.index).split('\n').length;
+    const where = `${file}:${line}`;
+    if (match[5] !== undefined) {
+      if (match[5].trim()) throw new Error(`${where}: text content is not supported`);
+    } else if (match[2]) {
+      if (match[1]) events.push({ type: 'end', name: match[2], line });
+      else {
+        events.push({ type: 'start', name: match[2], attributes: parseAttributes(match[3], where), line, where });
+        if (match[4]) events.push({ type: 'end', name: match[2], line });
+      }
+    }
+  }
+  return events;
+};
+
+const encodeValue = (name, value, resolve, where) => {
+  const [, kind] = ATTRIBUTES[name];
+  switch (kind) {
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') throw new Error(`${where}: ${name} must be true or false`);
+      return [TYPE_INT_BOOLEAN, value === 'true' ? 0xffffffff : 0];
+    case 'integer':
+      if (!/^\d+$/.test(value)) throw new Error(`${where}: ${name} must be a number`);
+      return [TYPE_INT_DEC, Number(value)];
+    case 'flags':
+      return [TYPE_INT_HEX, value.split('|').reduce((flags, flag) => {
+        if (!(flag in FLAGS[name])) throw new Error(`${where}: unknown ${name} value '${flag}'`);
+        return flags | FLAGS[name][flag];
+      }, 0)];
+    case 'reference': {
+      const id = resolve(value);
+      if (id === undefined) throw new Error(`${where}: unknown resource ${value}`);
+      return [TYPE_REFERENCE, id];
+    }
+    default:
+      return [TYPE_STRING, null];
+  }
+};
+
+/**
+ * Compiles XML to Android's binary form. `resolve` maps `@type/name`
+ * references to resource IDs.
+ */
+export const compileXml = (source, file, resolve) => {
+  const events = parseXml(source, file);
+
+  // Attribute names with resource IDs come first, in ID order, as aapt2 writes them
+  const attributeNames = [...new Set(events.flatMap(e => (e.attributes ?? [])
+    .filter(a => a.qualified.startsWith('android:'))
+    .map(a => a.qualified.slice('android:'.length))))];
+  for (const name of attributeNames) if (!ATTRIBUTES[name]) throw new Error(`${file}: unsupported attribute android:${name}`);
+  attributeNames.sort((a, b) => ATTRIBUTES[a][0] - ATTRIBUTES[b][0]);
+
+  const strings = [...attributeNames];
+  const index = s => {
+    if (!strings.includes(s)) strings.push(s);
+    return strings.indexOf(s);
+  };
+  const nsPrefix = index('android');
+  const nsUri = index(ANDROID_NS);
+
+  const nodes = [];
+  const node = (type, line, ext) => chunk(type, u32s([line, 0xffffffff]), ext);
+  const first = events[0];
+  nodes.push(node(0x0100, first.line, u32s([nsPrefix, nsUri])));
+  for (const event of events) {
+    if (event.type === 'end') {
+      nodes.push(node(0x0103, event.line, u32s([0xffffffff, index(event.name)])));
+      continue;
+    }
+    const attributes = event.attributes
+      .filter(a => a.qualified !== 'xmlns:android')
+      .map(({ qualified, value }) => {
+        const isAndroid = qualified.startsWith('android:');
+        const name = isAndroid ? qualified.slice('android:'.length) : qualified;
+        const [type, data] = isAndroid ? encodeValue(name, value, resolve, event.where) : [TYPE_STRING, null];
+        const raw = type === TYPE_STRING ? index(value) : 0xffffffff;
+        return { ns: isAndroid ? nsUri : 0xffffffff, name: index(name), id: isAndroid ? ATTRIBUTES[name][0] : 0, raw, type, data: data ?? raw };
+      })
+      .sort((a, b) => (a.id || Infinity) - (b.id || Infinity));
+    const ext = Buffer.alloc(20 + attributes.length * 20);
+    ext.writeUInt32LE(0xffffffff, 0);
+    ext.writeUInt32LE(index(event.name), 4);
+    ext.writeUInt16LE(20, 8);
+    ext.writeUInt16LE(20, 10);
+    ext.writeUInt16LE(attributes.length, 12);
+    attributes.forEach((a, i) => {
+      const at = 20 + i * 20;
+      ext.writeUInt32LE(a.ns >>> 0, at);
+      ext.writeUInt32LE(a.name, at + 4);
+      ext.writeUInt32LE(a.raw >>> 0, at + 8);
+      ext.writeUInt16LE(8, at + 12);
+      ext.writeUInt8(a.type, at + 15);
+      ext.writeUInt32LE(a.data >>> 0, at + 16);
+    });
+    nodes.push(node(0x0102, event.line, ext));
+  }
+  nodes.push(node(0x0101, events[events.length - 1].line, u32s([nsPrefix, nsUri])));
+
+  const resourceMap = chunk(0x0180, Buffer.alloc(0), u32s(attributeNames.map(name => ATTRIBUTES[name][0])));
+  return chunk(0x0003, Buffer.alloc(0), Buffer.concat([stringPool(strings), resourceMap, ...nodes]));
+};
+
+/** IDs for the resources of one type, given their `res/<type>-<qualifiers>/<name>.<ext>` paths. */
+export const assignIds = (paths, typeName) => {
+  const names = [...new Set(paths.map(path => path.split('/').pop().replace(/\..*$/, '')))].sort();
+  const ids = new Map(names.map((name, i) => [`@${typeName}/${name}`, (PACKAGE_ID << 24) | (1 << 16) | i]));
+  return { names, ids };
+};
+
+const CONFIG_SIZE = 64;
+
+const config = (density, sdkVersion) => {
+  const out = Buffer.alloc(CONFIG_SIZE);
+  out.writeUInt32LE(CONFIG_SIZE, 0);
+  out.writeUInt16LE(density, 14);
+  out.writeUInt16LE(sdkVersion, 24);
+  return out;
+};
+
+/**
+ * Writes resources.arsc for a package with one resource type, given file
+ * paths like `res/mipmap-xhdpi-v4/ic_launcher.png`.
+ */
+export const resourceTable = (packageName, typeName, paths) => {
+  const { names } = assignIds(paths, typeName);
+  const values = [...paths].sort();
+
+  const configs = new Map();
+  for (const path of values) {
+    const [, qualifiers, name] = path.match(new RegExp(`^res/${typeName}-([\\w-]+)/([^/.]+)\\.\\w+$`)) ?? [];
+    const [, density, sdk] = qualifiers?.match(/^([a-z]+)(?:-v(\d+))?$/) ?? [];
+    if (!(density in DENSITY_DPI)) throw new Error(`Unsupported resource path ${path}`);
+    const key = `${density}-${sdk ?? 0}`;
+    if (!configs.has(key)) configs.set(key, { density: DENSITY_DPI[density], sdk: Number(sdk ?? 0), entries: new Map() });
+    configs.get(key).entries.set(names.indexOf(name), values.indexOf(path));
+  }
+
+  // Every entry varies by density, and those also in an anydpi-v26 folder by version
+  const CONFIG_DENSITY = 0x0100;
+  const CONFIG_VERSION = 0x0400;
+  const specFlags = names.map((_, i) => [...configs.values()].reduce((flags, c) =>
+    (c.entries.has(i) && c.density === DENSITY_DPI.anydpi ? flags | CONFIG_VERSION : flags), CONFIG_DENSITY));
+  const typeSpec = chunk(0x0202, Buffer.from([1, 0, 0, 0, ...u32s([names.length])]), u32s(specFlags));
+
+  const types = [...configs.values()].map(c => {
+    const offsets = [];
+    const entries = [];
+    names.forEach((_, i) => {
+      if (!c.entries.has(i)) {
+        offsets.push(0xffffffff);
+        return;
+      }
+      offsets.push(entries.length * 16);
+      const entry = Buffer.alloc(16);
+      entry.writeUInt16LE(8, 0);
+      entry.writeUInt32LE(i, 4);
+      entry.writeUInt16LE(8, 8);
+      entry.writeUInt8(TYPE_STRING, 11);
+      entry.writeUInt32LE(c.entries.get(i), 12);
+      entries.push(entry);
+    });
+    const header = Buffer.concat([Buffer.from([1, 0, 0, 0]), u32s([names.length, 8 + 12 + CONFIG_SIZE + names.length * 4]), config(c.density, c.sdk)]);
+    return chunk(0x0201, header, Buffer.concat([u32s(offsets), ...entries]));
+  });
+
+  const typeStrings = stringPool([typeName]);
+  const keyStrings = stringPool(names);
+  const packageHeader = Buffer.alloc(288 - 8);
+  packageHeader.writeUInt32LE(PACKAGE_ID, 0);
+  Buffer.from(packageName, 'utf16le').copy(packageHeader, 4, 0, 254);
+  packageHeader.writeUInt32LE(288, 260);
+  packageHeader.writeUInt32LE(1, 264);
+  packageHeader.writeUInt32LE(288 + typeStrings.length, 268);
+  packageHeader.writeUInt32LE(names.length, 272);
+  const pkg = chunk(0x0200, packageHeader, Buffer.concat([typeStrings, keyStrings, typeSpec, ...types]));
+
+  return chunk(0x0002, u32s([1]), Buffer.concat([stringPool(values), pkg]));
+};
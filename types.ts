@@ -1,12 +1,13 @@
-export type ViewMode = 'dashboard' | 'editor' | 'preview' | 'export' | 'settings' | 'ai';
+export type ViewMode = 'dashboard' | 'editor' | 'preview' | 'source-control' | 'export' | 'settings' | 'ai';
 
 export type FileLanguage = 'html' | 'css' | 'javascript' | 'json' | 'xml' | 'php' | 'image' | 'font';
 
 export interface File {
   id: string;
   name: string;
-  content: string; // For images/fonts, this is a Base64 Data URL
+  content: string; // Empty for images/fonts, their bytes live in the blob store
   language: FileLanguage;
+  blobHash?: string; // SHA-256 of the binary content for images/fonts
   parentId: string; // 'root' or id of a folder
   isDirectory?: boolean;
   isOpen?: boolean; // For tab management
@@ -19,6 +20,17 @@ export interface Project {
   lastModified: number;
   files: File[];
   thumbnail?: string;
+  buildConfig?: BuildConfig;
+}
+
+export interface Snapshot {
+  id: string;
+  projectId: string;
+  timestamp: number;
+  reason: 'auto' | 'manual' | 'ai' | 'restore';
+  label: string;
+  files: File[];
+  changedFiles: string[]; // Names of files changed since the previous snapshot
 }
 
 export interface AppSettings {
@@ -28,6 +40,8 @@ export interface AppSettings {
   wordWrap: boolean;
   openRouterApiKey?: string;
   openRouterModel?: string;
+  gitAuthorName?: string;
+  gitAuthorEmail?: string;
 }
 
 export interface ChatMessage {
@@ -37,11 +51,87 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+/** A value logged in the preview, serialized by the preview runtime. */
+export interface ConsoleValue {
+  type: 'string' | 'number' | 'boolean' | 'undefined' | 'null' | 'bigint' | 'symbol'
+    | 'function' | 'error' | 'node' | 'array' | 'object' | 'circular';
+  description: string; // One-line preview, e.g. `Array(3) [1, 2, 3]`
+  entries?: { key: string; value: ConsoleValue }[]; // Children of expandable values
+  stack?: string; // Raw stack of errors
+}
+
+export interface StackFrame {
+  functionName: string;
+  file: string; // Project path when the frame belongs to the project, else the URL
+  line: number;
+  column: number;
+}
+
+export interface ConsoleTable {
+  columns: string[];
+  rows: { index: string; cells: Record<string, ConsoleValue> }[];
+}
+
 export interface ConsoleMessage {
   id: string;
-  type: 'log' | 'error' | 'warn' | 'info' | 'system';
+  type: 'log' | 'error' | 'warn' | 'info' | 'system' | 'command' | 'result'; // command/result: console REPL
   message: string;
   timestamp: number;
+  args?: ConsoleValue[]; // Structured arguments of messages logged by the preview
+  stack?: StackFrame[];
+  table?: ConsoleTable;
+  group?: 'start' | 'collapsed'; // Set on the header message of console.group()
+  depth?: number; // Nesting inside console groups
+}
+
+export type ConsoleDetails = Pick<ConsoleMessage, 'args' | 'stack' | 'table' | 'group' | 'depth'>;
+
+/** A fetch or XMLHttpRequest call made by the previewed page. */
+export interface NetworkRequest {
+  id: string;
+  initiator: 'fetch' | 'xhr';
+  method: string;
+  url: string;
+  state: 'pending' | 'complete' | 'failed';
+  startTime: number;
+  duration?: number; // Milliseconds until the response headers arrived or the request failed
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string; // Text, truncated, or a placeholder for binary content
+  error?: string;
+  blocked?: 'sandbox' | 'mixed-content'; // Refused by the browser before it was sent
+}
+
+export type NetworkRequestUpdate = Pick<NetworkRequest, 'id'> & Partial<NetworkRequest>;
+
+/** A CSS rule matching an inspected element. */
+export interface InspectedRule {
+  selector: string;
+  href: string | null; // Stylesheet URL, null for <style> blocks in the page
+  declarations: string;
+}
+
+/** The element selected with the preview inspector, as reported by the preview runtime. */
+export interface InspectedElement {
+  tagName: string;
+  id?: string;
+  occurrence: number; // Index among the page's elements with the same tag name
+  path: { tagName: string; id?: string; label: string }[]; // From <html> down to the element
+  attributes: { name: string; value: string }[];
+  box: {
+    width: number;
+    height: number;
+    margin: number[]; // Top, right, bottom, left
+    border: number[];
+    padding: number[];
+  };
+  styles: Record<string, string>; // Computed values of commonly edited properties
+  rules: InspectedRule[];
+  pageUrl: string;
 }
 
 export interface Keystore {
@@ -57,6 +147,8 @@ export interface BuildConfig {
   versionCode: number;
   versionName: string;
   icon?: string; // Data URL
+  iconBackgroundColor: string; // Adaptive icon background layer
+  iconScale: number; // Artwork size relative to the adaptive icon safe zone
   splash?: string; // Data URL
   splashBackgroundColor: string;
   
@@ -83,4 +175,5 @@ export interface BuildConfig {
   // System
   clearCache: boolean;
   keystore?: Keystore;
+  lastBuild?: { versionCode: number; versionName: string; time: number };
 }
\ No newline at end of file
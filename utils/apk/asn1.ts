@@ -0,0 +1,215 @@
+/**
+ * DER encoding helpers and a BER-tolerant decoder, covering what certificates,
+ * PKCS#7 signatures and keystore files need.
+ */
+
+export const TAG = {
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  BMP_STRING: 0x1e,
+  SEQUENCE: 0x30,
+  SET: 0x31
+} as const;
+
+export const OID = {
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  encryptedData: '1.2.840.113549.1.7.6',
+  commonName: '2.5.4.3',
+  countryName: '2.5.4.6',
+  organizationName: '2.5.4.10'
+} as const;
+
+export interface Asn1Node {
+  tag: number;
+  contents: Uint8Array;
+  children: Asn1Node[]; // Only filled for constructed types
+  raw: Uint8Array; // Complete encoding including the header
+}
+
+export const concatBytes = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+};
+
+// --- Encoding ---
+
+const encodeLength = (length: number): number[] => {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+};
+
+export const encode = (tag: number, ...contents: Uint8Array[]) => {
+  const body = concatBytes(contents);
+  return concatBytes([new Uint8Array([tag, ...encodeLength(body.length)]), body]);
+};
+
+export const sequence = (...items: Uint8Array[]) => encode(TAG.SEQUENCE, ...items);
+
+/** DER sorts the members of a SET OF by their encoding. */
+export const set = (...items: Uint8Array[]) => {
+  const compare = (a: Uint8Array, b: Uint8Array) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) if (a[i] !== b[i]) return a[i] - b[i];
+    return a.length - b.length;
+  };
+  return encode(TAG.SET, ...[...items].sort(compare));
+};
+
+/** Context-specific constructed tag, `[n]` in ASN.1 notation. */
+export const explicit = (n: number, ...items: Uint8Array[]) => encode(0xa0 | n, ...items);
+
+/** Integer from a number or from unsigned big-endian bytes. */
+export const integer = (value: number | Uint8Array) => {
+  let bytes: number[];
+  if (typeof value === 'number') {
+    bytes = [];
+    for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest & 0xff);
+  } else {
+    bytes = Array.from(value);
+    while (bytes.length > 1 && bytes[0] === 0) bytes.shift();
+  }
+  if (!bytes.length || bytes[0] & 0x80) bytes.unshift(0); // Keep it positive
+  return encode(TAG.INTEGER, new Uint8Array(bytes));
+};
+
+export const oid = (dotted: string) => {
+  const [first, second, ...rest] = dotted.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  rest.forEach(component => {
+    const group = [component & 0x7f];
+    for (let value = Math.floor(component / 128); value > 0; value = Math.floor(value / 128)) group.unshift(0x80 | (value & 0x7f));
+    bytes.push(...group);
+  });
+  return encode(TAG.OID, new Uint8Array(bytes));
+};
+
+export const nullValue = () => new Uint8Array([TAG.NULL, 0]);
+
+export const octetString = (data: Uint8Array) => encode(TAG.OCTET_STRING, data);
+
+export const bitString = (data: Uint8Array) => encode(TAG.BIT_STRING, new Uint8Array([0]), data);
+
+export const utf8String = (text: string) => encode(TAG.UTF8_STRING, new TextEncoder().encode(text));
+
+export const printableString = (text: string) => encode(TAG.PRINTABLE_STRING, new TextEncoder().encode(text));
+
+/** Big-endian UTF-16, the encoding of BMPString and of Java passwords. */
+export const encodeUtf16 = (text: string) => {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i * 2] = text.charCodeAt(i) >> 8;
+    bytes[i * 2 + 1] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+export const bmpString = (text: string) => encode(TAG.BMP_STRING, encodeUtf16(text));
+
+/** UTCTime up to 2049 and GeneralizedTime after, as X.509 requires. */
+export const time = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const year = date.getUTCFullYear();
+  const rest = `${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  return year < 2050
+    ? encode(TAG.UTC_TIME, new TextEncoder().encode(pad(year % 100) + rest))
+    : encode(TAG.GENERALIZED_TIME, new TextEncoder().encode(year + rest));
+};
+
+// --- Decoding ---
+
+const malformed = () => new Error('Malformed ASN.1 data.');
+
+const parse = (bytes: Uint8Array, offset: number): { node: Asn1Node; end: number } => {
+  if (offset + 2 > bytes.length) throw malformed();
+  const tag = bytes[offset];
+  const constructed = (tag & 0x20) !== 0;
+  let at = offset + 1;
+  let length = bytes[at++];
+
+  if (length === 0x80) {
+    // Indefinite length (BER): children run until an end-of-contents marker
+    if (!constructed) throw malformed();
+    const children: Asn1Node[] = [];
+    const start = at;
+    while (bytes[at] !== 0 || bytes[at + 1] !== 0) {
+      const child = parse(bytes, at);
+      children.push(child.node);
+      at = child.end;
+    }
+    return { node: { tag, contents: bytes.subarray(start, at), children, raw: bytes.subarray(offset, at + 2) }, end: at + 2 };
+  }
+
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[at++];
+  }
+  const end = at + length;
+  if (end > bytes.length) throw malformed();
+
+  const contents = bytes.subarray(at, end);
+  const children: Asn1Node[] = [];
+  if (constructed) {
+    for (let childAt = 0; childAt < contents.length;) {
+      const child = parse(contents, childAt);
+      children.push(child.node);
+      childAt = child.end;
+    }
+  }
+  return { node: { tag, contents, children, raw: bytes.subarray(offset, end) }, end };
+};
+
+export const decode = (bytes: Uint8Array): Asn1Node => parse(bytes, 0).node;
+
+export const readOid = (node: Asn1Node) => {
+  const bytes = node.contents;
+  const components = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      components.push(value);
+      value = 0;
+    }
+  }
+  return components.join('.');
+};
+
+export const readInteger = (node: Asn1Node) => node.contents.reduce((value, byte) => value * 256 + byte, 0);
+
+/** Contents of an octet string, joining the segments of a constructed (BER) one. */
+export const readOctets = (node: Asn1Node): Uint8Array => {
+  return node.tag & 0x20 ? concatBytes(node.children.map(readOctets)) : node.contents;
+};
+
+export const readString = (node: Asn1Node) => {
+  if (node.tag !== TAG.BMP_STRING) return new TextDecoder().decode(node.contents);
+  let text = '';
+  for (let i = 0; i + 1 < node.contents.length; i += 2) text += String.fromCharCode((node.contents[i] << 8) | node.contents[i + 1]);
+  return text;
+};
+
+export const readTime = (node: Asn1Node) => {
+  const text = new TextDecoder().decode(node.contents);
+  const digits = node.tag === TAG.UTC_TIME ? `${Number(text.slice(0, 2)) < 50 ? '20' : '19'}${text}` : text;
+  const [year, month, day, hour, minute, second] = [0, 4, 6, 8, 10, 12].map((start, i) => Number(digits.slice(start, i ? start + 2 : 4)));
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second || 0));
+};
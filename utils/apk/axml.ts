@@ -0,0 +1,406 @@
+/**
+ * Reader and writer for Android binary XML, the compiled form of
+ * AndroidManifest.xml inside an APK. The document is kept as its string
+ * pool plus a flat list of nodes, so edits can be written back without
+ * an XML round trip.
+ */
+
+export const ANDROID_NAMESPACE = 'http://schemas.android.com/apk/res/android';
+
+const NO_ENTRY = 0xffffffff;
+
+const CHUNK_STRING_POOL = 0x0001;
+const CHUNK_XML = 0x0003;
+const CHUNK_START_NAMESPACE = 0x0100;
+const CHUNK_END_NAMESPACE = 0x0101;
+const CHUNK_START_ELEMENT = 0x0102;
+const CHUNK_END_ELEMENT = 0x0103;
+const CHUNK_CDATA = 0x0104;
+const CHUNK_RESOURCE_MAP = 0x0180;
+
+const UTF8_FLAG = 0x100;
+
+export const TYPE_REFERENCE = 0x01;
+export const TYPE_STRING = 0x03;
+export const TYPE_INT_DEC = 0x10;
+export const TYPE_INT_BOOLEAN = 0x12;
+
+export interface AxmlAttribute {
+  namespace: number; // String indices, NO_ENTRY when absent
+  name: number;
+  rawValue: number;
+  type: number;
+  data: number;
+}
+
+interface NodeBase {
+  line: number;
+  comment: number;
+}
+
+export type AxmlNode =
+  | NodeBase & { kind: 'startNamespace' | 'endNamespace'; prefix: number; uri: number }
+  | NodeBase & { kind: 'startElement'; namespace: number; name: number; attributes: AxmlAttribute[]; idIndex: number; classIndex: number; styleIndex: number }
+  | NodeBase & { kind: 'endElement'; namespace: number; name: number }
+  | NodeBase & { kind: 'cdata'; data: number; type: number; value: number };
+
+export type AxmlElement = Extract<AxmlNode, { kind: 'startElement' }>;
+
+export interface AxmlDocument {
+  strings: string[];
+  resourceIds: number[]; // Resource ids of the first strings, which name attributes
+  nodes: AxmlNode[];
+}
+
+export type AttributeValue = string | number | boolean;
+
+const readStringPool = (view: DataView, start: number): string[] => {
+  const count = view.getUint32(start + 8, true);
+  const styleCount = view.getUint32(start + 12, true);
+  const flags = view.getUint32(start + 16, true);
+  const stringsStart = start + view.getUint32(start + 20, true);
+  const headerSize = view.getUint16(start + 2, true);
+  if (styleCount > 0) throw new Error('Styled strings in binary XML are not supported.');
+
+  const utf8 = (flags & UTF8_FLAG) !== 0;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  const strings: string[] = [];
+  for (let i = 0; i < count; i++) {
+    let at = stringsStart + view.getUint32(start + headerSize + i * 4, true);
+    if (utf8) {
+      // UTF-16 length, then UTF-8 byte length, each one or two bytes
+      at += view.getUint8(at) & 0x80 ? 2 : 1;
+      let length = view.getUint8(at);
+      if (length & 0x80) {
+        length = ((length & 0x7f) << 8) | view.getUint8(at + 1);
+        at += 2;
+      } else {
+        at += 1;
+      }
+      strings.push(new TextDecoder().decode(bytes.subarray(at, at + length)));
+    } else {
+      let length = view.getUint16(at, true);
+      if (length & 0x8000) {
+        length = ((length & 0x7fff) << 16) | view.getUint16(at + 2, true);
+        at += 4;
+      } else {
+        at += 2;
+      }
+      let text = '';
+      for (let c = 0; c < length; c++) text += String.fromCharCode(view.getUint16(at + c * 2, true));
+      strings.push(text);
+    }
+  }
+  return strings;
+};
+
+export const parseAxml = (bytes: Uint8Array): AxmlDocument => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(0, true) !== CHUNK_XML) throw new Error('Not an Android binary XML file.');
+
+  const doc: AxmlDocument = { strings: [], resourceIds: [], nodes: [] };
+  let offset = view.getUint16(2, true);
+  while (offset < view.byteLength) {
+    const type = view.getUint16(offset, true);
+    const headerSize = view.getUint16(offset + 2, true);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + headerSize;
+    const base = { line: 0, comment: NO_ENTRY };
+    if (type >= CHUNK_START_NAMESPACE && type <= CHUNK_CDATA) {
+      base.line = view.getUint32(offset + 8, true);
+      base.comment = view.getUint32(offset + 12, true);
+    }
+
+    switch (type) {
+      case CHUNK_STRING_POOL:
+        doc.strings = readStringPool(view, offset);
+        break;
+      case CHUNK_RESOURCE_MAP:
+        for (let at = body; at < offset + size; at += 4) doc.resourceIds.push(view.getUint32(at, true));
+        break;
+      case CHUNK_START_NAMESPACE:
+      case CHUNK_END_NAMESPACE:
+        doc.nodes.push({
+          ...base,
+          kind: type === CHUNK_START_NAMESPACE ? 'startNamespace' : 'endNamespace',
+          prefix: view.getUint32(body, true),
+          uri: view.getUint32(body + 4, true)
+        });
+        break;
+      case CHUNK_START_ELEMENT: {
+        const attributeStart = view.getUint16(body + 8, true);
+        const attributeSize = view.getUint16(body + 10, true);
+        const attributeCount = view.getUint16(body + 12, true);
+        const attributes: AxmlAttribute[] = [];
+        for (let i = 0; i < attributeCount; i++) {
+          const at = body + attributeStart + i * attributeSize;
+          attributes.push({
+            namespace: view.getUint32(at, true),
+            name: view.getUint32(at + 4, true),
+            rawValue: view.getUint32(at + 8, true),
+            type: view.getUint8(at + 15),
+            data: view.getUint32(at + 16, true)
+          });
+        }
+        doc.nodes.push({
+          ...base,
+          kind: 'startElement',
+          namespace: view.getUint32(body, true),
+          name: view.getUint32(body + 4, true),
+          attributes,
+          idIndex: view.getUint16(body + 14, true),
+          classIndex: view.getUint16(body + 16, true),
+          styleIndex: view.getUint16(body + 18, true)
+        });
+        break;
+      }
+      case CHUNK_END_ELEMENT:
+        doc.nodes.push({ ...base, kind: 'endElement', namespace: view.getUint32(body, true), name: view.getUint32(body + 4, true) });
+        break;
+      case CHUNK_CDATA:
+        doc.nodes.push({ ...base, kind: 'cdata', data: view.getUint32(body, true), type: view.getUint8(body + 7), value: view.getUint32(body + 8, true) });
+        break;
+      // Other chunks carry nothing the manifest needs
+    }
+    offset += size;
+  }
+  return doc;
+};
+
+const writeStringPool = (strings: string[]): Uint8Array => {
+  // Always written as UTF-16, which every Android version reads
+  const offsets: number[] = [];
+  let dataSize = 0;
+  strings.forEach(text => {
+    offsets.push(dataSize);
+    dataSize += (text.length > 0x7fff ? 4 : 2) + text.length * 2 + 2;
+  });
+  const paddedDataSize = (dataSize + 3) & ~3;
+  const headerSize = 28;
+  const stringsStart = headerSize + strings.length * 4;
+  const chunk = new Uint8Array(stringsStart + paddedDataSize);
+  const view = new DataView(chunk.buffer);
+  view.setUint16(0, CHUNK_STRING_POOL, true);
+  view.setUint16(2, headerSize, true);
+  view.setUint32(4, chunk.length, true);
+  view.setUint32(8, strings.length, true);
+  view.setUint32(12, 0, true);
+  view.setUint32(16, 0, true);
+  view.setUint32(20, stringsStart, true);
+  view.setUint32(24, 0, true);
+  strings.forEach((text, i) => {
+    view.setUint32(headerSize + i * 4, offsets[i], true);
+    let at = stringsStart + offsets[i];
+    if (text.length > 0x7fff) {
+      view.setUint16(at, 0x8000 | (text.length >>> 16), true);
+      view.setUint16(at + 2, text.length & 0xffff, true);
+      at += 4;
+    } else {
+      view.setUint16(at, text.length, true);
+      at += 2;
+    }
+    for (let c = 0; c < text.length; c++) view.setUint16(at + c * 2, text.charCodeAt(c), true);
+  });
+  return chunk;
+};
+
+const nodeSize = (node: AxmlNode) => {
+  if (node.kind === 'startElement') return 36 + node.attributes.length * 20;
+  return node.kind === 'cdata' ? 28 : 24;
+};
+
+export const serializeAxml = (doc: AxmlDocument): Uint8Array => {
+  const pool = writeStringPool(doc.strings);
+  const mapSize = 8 + doc.resourceIds.length * 4;
+  const nodesSize = doc.nodes.reduce((sum, node) => sum + nodeSize(node), 0);
+  const output = new Uint8Array(8 + pool.length + mapSize + nodesSize);
+  const view = new DataView(output.buffer);
+
+  view.setUint16(0, CHUNK_XML, true);
+  view.setUint16(2, 8, true);
+  view.setUint32(4, output.length, true);
+  output.set(pool, 8);
+
+  let at = 8 + pool.length;
+  view.setUint16(at, CHUNK_RESOURCE_MAP, true);
+  view.setUint16(at + 2, 8, true);
+  view.setUint32(at + 4, mapSize, true);
+  doc.resourceIds.forEach((id, i) => view.setUint32(at + 8 + i * 4, id, true));
+  at += mapSize;
+
+  doc.nodes.forEach(node => {
+    const size = nodeSize(node);
+    const type = {
+      startNamespace: CHUNK_START_NAMESPACE,
+      endNamespace: CHUNK_END_NAMESPACE,
+      startElement: CHUNK_START_ELEMENT,
+      endElement: CHUNK_END_ELEMENT,
+      cdata: CHUNK_CDATA
+    }[node.kind];
+    view.setUint16(at, type, true);
+    view.setUint16(at + 2, 16, true);
+    view.setUint32(at + 4, size, true);
+    view.setUint32(at + 8, node.line, true);
+    view.setUint32(at + 12, node.comment, true);
+    const body = at + 16;
+
+    if ('prefix' in node) {
+      view.setUint32(body, node.prefix, true);
+      view.setUint32(body + 4, node.uri, true);
+    } else if (node.kind === 'endElement') {
+      view.setUint32(body, node.namespace, true);
+      view.setUint32(body + 4, node.name, true);
+    } else if (node.kind === 'cdata') {
+      view.setUint32(body, node.data, true);
+      view.setUint16(body + 4, 8, true);
+      view.setUint8(body + 7, node.type);
+      view.setUint32(body + 8, node.value, true);
+    } else {
+      view.setUint32(body, node.namespace, true);
+      view.setUint32(body + 4, node.name, true);
+      view.setUint16(body + 8, 20, true);
+      view.setUint16(body + 10, 20, true);
+      view.setUint16(body + 12, node.attributes.length, true);
+      view.setUint16(body + 14, node.idIndex, true);
+      view.setUint16(body + 16, node.classIndex, true);
+      view.setUint16(body + 18, node.styleIndex, true);
+      node.attributes.forEach((attribute, i) => {
+        const attributeAt = body + 20 + i * 20;
+        view.setUint32(attributeAt, attribute.namespace, true);
+        view.setUint32(attributeAt + 4, attribute.name, true);
+        view.setUint32(attributeAt + 8, attribute.rawValue, true);
+        view.setUint16(attributeAt + 12, 8, true);
+        view.setUint8(attributeAt + 15, attribute.type);
+        view.setUint32(attributeAt + 16, attribute.data, true);
+      });
+    }
+    at += size;
+  });
+  return output;
+};
+
+/** Inserts a string into the pool, renumbering every reference to the strings after it. */
+const insertString = (doc: AxmlDocument, index: number, value: string) => {
+  doc.strings.splice(index, 0, value);
+  const shift = (ref: number) => (ref !== NO_ENTRY && ref >= index ? ref + 1 : ref);
+  doc.nodes.forEach(node => {
+    node.comment = shift(node.comment);
+    if ('prefix' in node) {
+      node.prefix = shift(node.prefix);
+      node.uri = shift(node.uri);
+    } else if (node.kind === 'cdata') {
+      node.data = shift(node.data);
+      if (node.type === TYPE_STRING) node.value = shift(node.value);
+    } else {
+      node.namespace = shift(node.namespace);
+      node.name = shift(node.name);
+      if (node.kind === 'startElement') {
+        node.attributes.forEach(attribute => {
+          attribute.namespace = shift(attribute.namespace);
+          attribute.name = shift(attribute.name);
+          attribute.rawValue = shift(attribute.rawValue);
+          if (attribute.type === TYPE_STRING) attribute.data = shift(attribute.data);
+        });
+      }
+    }
+  });
+};
+
+/** Index of a plain string, added at the end of the pool when missing. */
+export const stringIndex = (doc: AxmlDocument, value: string) => {
+  const existing = doc.strings.indexOf(value, doc.resourceIds.length);
+  if (existing !== -1) return existing;
+  doc.strings.push(value);
+  return doc.strings.length - 1;
+};
+
+// Attribute names with a resource id must sit in the id-mapped head of the pool
+const attributeNameIndex = (doc: AxmlDocument, name: string, resourceId?: number) => {
+  if (resourceId === undefined) return stringIndex(doc, name);
+  const existing = doc.resourceIds.indexOf(resourceId);
+  if (existing !== -1) return existing;
+  const index = doc.resourceIds.length;
+  insertString(doc, index, name);
+  doc.resourceIds.push(resourceId);
+  return index;
+};
+
+const getResourceId = (doc: AxmlDocument, nameIndex: number) => (nameIndex < doc.resourceIds.length ? doc.resourceIds[nameIndex] : 0);
+
+export const getElements = (doc: AxmlDocument, name: string): AxmlElement[] => {
+  return doc.nodes.filter((node): node is AxmlElement => node.kind === 'startElement' && doc.strings[node.name] === name);
+};
+
+const findAttribute = (doc: AxmlDocument, element: AxmlElement, name: string, resourceId?: number) => {
+  return element.attributes.find(attribute => resourceId !== undefined
+    ? getResourceId(doc, attribute.name) === resourceId
+    : doc.strings[attribute.name] === name && attribute.namespace === NO_ENTRY);
+};
+
+/** String value of an attribute; `resourceId` selects android: attributes. */
+export const getAttribute = (doc: AxmlDocument, element: AxmlElement, name: string, resourceId?: number): string | null => {
+  const attribute = findAttribute(doc, element, name, resourceId);
+  if (!attribute) return null;
+  if (attribute.rawValue !== NO_ENTRY) return doc.strings[attribute.rawValue];
+  return attribute.type === TYPE_STRING ? doc.strings[attribute.data] : String(attribute.data | 0);
+};
+
+const encodeValue = (doc: AxmlDocument, value: AttributeValue) => {
+  if (typeof value === 'boolean') return { rawValue: NO_ENTRY, type: TYPE_INT_BOOLEAN, data: value ? NO_ENTRY : 0 };
+  if (typeof value === 'number') return { rawValue: NO_ENTRY, type: TYPE_INT_DEC, data: value >>> 0 };
+  const index = stringIndex(doc, value);
+  return { rawValue: index, type: TYPE_STRING, data: index };
+};
+
+/**
+ * Sets an attribute, adding it if needed. Attributes stay sorted by resource
+ * id, which Android relies on when it resolves them.
+ */
+export const setAttribute = (doc: AxmlDocument, element: AxmlElement, name: string, value: AttributeValue, resourceId?: number) => {
+  const existing = findAttribute(doc, element, name, resourceId);
+  if (existing) {
+    Object.assign(existing, encodeValue(doc, value));
+    return;
+  }
+
+  // Pool insertions renumber strings, so every index is taken before building the attribute
+  const nameIndex = attributeNameIndex(doc, name, resourceId);
+  const namespace = resourceId === undefined ? NO_ENTRY : stringIndex(doc, ANDROID_NAMESPACE);
+  const attribute: AxmlAttribute = { namespace, name: nameIndex, ...encodeValue(doc, value) };
+  const id = resourceId ?? 0;
+  let position = element.attributes.findIndex(other => getResourceId(doc, other.name) > id);
+  if (position === -1) position = element.attributes.length;
+  element.attributes.splice(position, 0, attribute);
+
+  // idIndex and friends are 1-based positions of special attributes
+  const adjust = (index: number) => (index > position ? index + 1 : index);
+  element.idIndex = adjust(element.idIndex);
+  element.classIndex = adjust(element.classIndex);
+  element.styleIndex = adjust(element.styleIndex);
+};
+
+/** Removes an element together with its children. */
+export const removeElement = (doc: AxmlDocument, element: AxmlElement) => {
+  const start = doc.nodes.indexOf(element);
+  let depth = 0;
+  for (let i = start; i < doc.nodes.length; i++) {
+    const kind = doc.nodes[i].kind;
+    if (kind === 'startElement') depth++;
+    if (kind === 'endElement' && --depth === 0) {
+      doc.nodes.splice(start, i - start + 1);
+      return;
+    }
+  }
+};
+
+/** Adds an empty element as the first child of `parent` and returns it. */
+export const insertElement = (doc: AxmlDocument, parent: AxmlElement, name: string): AxmlElement => {
+  const nameIndex = stringIndex(doc, name);
+  const element: AxmlElement = {
+    kind: 'startElement', line: parent.line, comment: NO_ENTRY,
+    namespace: NO_ENTRY, name: nameIndex, attributes: [], idIndex: 0, classIndex: 0, styleIndex: 0
+  };
+  const end: AxmlNode = { kind: 'endElement', line: parent.line, comment: NO_ENTRY, namespace: NO_ENTRY, name: nameIndex };
+  doc.nodes.splice(doc.nodes.indexOf(parent) + 1, 0, element, end);
+  return element;
+};
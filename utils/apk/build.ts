@@ -0,0 +1,173 @@
+/**
+ * Builds an Android APK entirely in the browser by filling in a prebuilt
+ * WebView shell, so no Android SDK or server is involved.
+ *
+ * The shell template is served at `android/shell.apk` next to the app and
+ * committed under public/; `npm run build:shell` rebuilds it from
+ * `android-shell/`. It must follow this contract:
+ * - its activity loads the entry page named in `assets/buildora.json` from
+ *   `file:///android_asset/www/` and applies the other settings in that file;
+ * - launcher icons are PNGs under `res/mipmap-<density>/ic_launcher*.png`,
+ *   with adaptive icon layers named `ic_launcher_foreground.png` and
+ *   `ic_launcher_background.png` (built without resource path shortening);
+ * - it is compiled with `android:label`, `package`, version and permissions
+ *   in the manifest only, since those are rewritten here.
+ */
+import { BuildConfig, Project } from '../../types';
+import { getFileBytes, isBinaryFile, dataUrlToBlob } from '../blobStore';
+import { IconVariant, DENSITIES, loadIconSource, renderLauncherIcon } from '../icons';
+import { buildPathIndex, findIndexFile, getFilePath } from '../paths';
+import { ZipEntry, readZip, readEntry, createEntry, writeZip } from './zip';
+import { parseAxml, serializeAxml } from './axml';
+import { applyManifestConfig } from './manifest';
+import { ApkSigner, signApk } from './sign';
+
+export const SHELL_TEMPLATE_URL = 'android/shell.apk';
+export const APK_MIME_TYPE = 'application/vnd.android.package-archive';
+
+const MANIFEST_PATH = 'AndroidManifest.xml';
+const WEB_ROOT = 'assets/www/';
+const CONFIG_PATH = 'assets/buildora.json';
+const SPLASH_PATH = 'assets/buildora/splash.png';
+
+const LAUNCHER_ICON = /^res\/mipmap-([a-z]+)(?:-v\d+)?\/ic_launcher(?:_(round|foreground|background))?\.png$/;
+
+// Old signatures no longer match once the contents change
+const SIGNATURE_FILE = /^META-INF\/(MANIFEST\.MF|[^/]+\.(SF|RSA|DSA|EC))$/i;
+
+/** Runtime settings the shell reads from `assets/buildora.json`. */
+export interface ShellConfig {
+  entry: string;
+  fullscreen: boolean;
+  statusBarColor: string;
+  splash: string | null;
+  splashBackgroundColor: string;
+  zoomEnabled: boolean;
+  pullToRefresh: boolean;
+  javascriptEnabled: boolean;
+  domStorageEnabled: boolean;
+  cacheMode: BuildConfig['cacheMode'];
+  mixedContentMode: BuildConfig['mixedContentMode'];
+  clearCache: boolean;
+}
+
+export type BuildProgress = (message: string) => void;
+
+export const SHELL_MISSING_MESSAGE = `APK shell template not found. Run \`npm run build:shell\` to build it into public/${SHELL_TEMPLATE_URL}, then rebuild the app.`;
+
+// Dev servers answer unknown paths with the app's HTML, so the bytes are checked too
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+const fetchTemplate = async (init?: RequestInit): Promise<Uint8Array | null> => {
+  try {
+    const response = await fetch(new URL(SHELL_TEMPLATE_URL, document.baseURI).href, init);
+    if (!response.ok) return null;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return isZip(bytes) ? bytes : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Whether the app is deployed with a shell template, reading only its first bytes where the server allows. */
+export const hasShellTemplate = async () => (await fetchTemplate({ headers: { Range: 'bytes=0-3' } })) !== null;
+
+const loadTemplate = async (): Promise<Uint8Array> => {
+  const template = await fetchTemplate();
+  if (!template) throw new Error(SHELL_MISSING_MESSAGE);
+  return template;
+};
+
+const toBytes = async (dataUrl: string) => new Uint8Array(await dataUrlToBlob(dataUrl).arrayBuffer());
+
+/** Project files as entries under `assets/www/`. */
+const createWebEntries = async (project: Project): Promise<ZipEntry[]> => {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  for (const [path, file] of buildPathIndex(project.files)) {
+    if (file.isDirectory) continue;
+    let data: Uint8Array;
+    if (isBinaryFile(file)) {
+      // Legacy projects may still hold binaries as data URLs
+      data = (await getFileBytes(file)) ?? (file.content.startsWith('data:') ? await toBytes(file.content) : new Uint8Array());
+    } else {
+      data = encoder.encode(file.content);
+    }
+    entries.push(await createEntry(WEB_ROOT + path, data));
+  }
+  return entries;
+};
+
+/** Fills the shell template with the project and configuration, unsigned. */
+export const assembleApk = async (project: Project, config: BuildConfig, onProgress?: BuildProgress): Promise<ZipEntry[]> => {
+  const indexFile = findIndexFile(project.files);
+  if (!indexFile) throw new Error("Project must contain an 'index.html' to run as an app.");
+  if (indexFile.name.endsWith('.php')) throw new Error('PHP pages need a server and cannot run inside an APK.');
+
+  onProgress?.('Loading APK template...');
+  const template = readZip(await loadTemplate());
+  const manifestEntry = template.find(entry => entry.name === MANIFEST_PATH);
+  if (!manifestEntry) throw new Error('The APK template has no AndroidManifest.xml.');
+
+  onProgress?.('Writing manifest...');
+  const manifest = parseAxml(await readEntry(manifestEntry));
+  applyManifestConfig(manifest, config);
+
+  const iconSource = await loadIconSource(config);
+  const entries: ZipEntry[] = [];
+  try {
+    for (const entry of template) {
+      if (SIGNATURE_FILE.test(entry.name) || entry.name.startsWith(WEB_ROOT) || entry.name === CONFIG_PATH || entry.name === SPLASH_PATH) continue;
+
+      const icon = iconSource && entry.name.match(LAUNCHER_ICON);
+      if (entry.name === MANIFEST_PATH) {
+        entries.push(await createEntry(MANIFEST_PATH, serializeAxml(manifest)));
+      } else if (icon && DENSITIES[icon[1]]) {
+        onProgress?.(`Rendering ${icon[1]} icon...`);
+        const png = await renderLauncherIcon(iconSource, (icon[2] || 'legacy') as IconVariant, icon[1]);
+        entries.push(await createEntry(entry.name, new Uint8Array(await png.arrayBuffer())));
+      } else {
+        entries.push(entry);
+      }
+    }
+  } finally {
+    iconSource?.image.close();
+  }
+
+  onProgress?.('Packaging project files...');
+  entries.push(...await createWebEntries(project));
+
+  if (config.splash) entries.push(await createEntry(SPLASH_PATH, await toBytes(config.splash)));
+
+  const shellConfig: ShellConfig = {
+    entry: getFilePath(project.files, indexFile),
+    fullscreen: config.fullscreen,
+    statusBarColor: config.statusBarColor,
+    splash: config.splash ? SPLASH_PATH.slice('assets/'.length) : null,
+    splashBackgroundColor: config.splashBackgroundColor,
+    zoomEnabled: config.zoomEnabled,
+    pullToRefresh: config.pullToRefresh,
+    javascriptEnabled: config.javascriptEnabled,
+    domStorageEnabled: config.domStorageEnabled,
+    cacheMode: config.cacheMode,
+    mixedContentMode: config.mixedContentMode,
+    clearCache: config.clearCache
+  };
+  entries.push(await createEntry(CONFIG_PATH, new TextEncoder().encode(JSON.stringify(shellConfig, null, 2))));
+
+  return entries;
+};
+
+/**
+ * Builds an APK for the project. Without a signer the APK is unsigned, and
+ * Android refuses to install it until it is signed.
+ */
+export const buildApk = async (project: Project, config: BuildConfig, onProgress?: BuildProgress, signer?: ApkSigner): Promise<Blob> => {
+  const entries = await assembleApk(project, config, onProgress);
+  if (!signer) {
+    onProgress?.('Writing APK...');
+    return new Blob([writeZip(entries).data as BlobPart], { type: APK_MIME_TYPE });
+  }
+  onProgress?.('Signing APK...');
+  return new Blob([await signApk(entries, signer) as BlobPart], { type: APK_MIME_TYPE });
+};
@@ -0,0 +1,101 @@
+import {
+  Asn1Node, OID, decode, readOid, readString, readTime,
+  sequence, set, oid, integer, nullValue, bitString, utf8String, printableString, time
+} from './asn1';
+
+/** A private key with its certificate chain, as held in keystore files. */
+export interface KeyEntry {
+  alias: string;
+  privateKey: Uint8Array; // PKCS#8 DER
+  certificates: Uint8Array[]; // DER, the key's own certificate first
+}
+
+export interface DistinguishedName {
+  commonName: string;
+  organization?: string;
+  country?: string; // Two-letter code
+}
+
+export interface CertificateInfo {
+  serialNumber: Uint8Array;
+  issuer: Uint8Array; // DER-encoded Name, copied as is into signatures
+  subject: string;
+  publicKey: Uint8Array; // DER SubjectPublicKeyInfo
+  notBefore: Date;
+  notAfter: Date;
+}
+
+export const RSA_SIGNING: RsaHashedImportParams = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+
+const NAME_LABELS: Record<string, string> = {
+  [OID.commonName]: 'CN',
+  [OID.organizationName]: 'O',
+  [OID.countryName]: 'C'
+};
+
+const encodeName = (name: DistinguishedName) => {
+  const part = (type: string, value: Uint8Array) => set(sequence(oid(type), value));
+  return sequence(
+    ...(name.country ? [part(OID.countryName, printableString(name.country))] : []),
+    ...(name.organization ? [part(OID.organizationName, utf8String(name.organization))] : []),
+    part(OID.commonName, utf8String(name.commonName))
+  );
+};
+
+const formatName = (name: Asn1Node) => name.children
+  .flatMap(rdn => rdn.children)
+  .map(attribute => {
+    const [type, value] = attribute.children;
+    return `${NAME_LABELS[readOid(type)] || readOid(type)}=${readString(value)}`;
+  })
+  .reverse()
+  .join(', ');
+
+export const parseCertificate = (der: Uint8Array): CertificateInfo => {
+  const [tbs] = decode(der).children;
+  // v1 certificates have no explicit version field
+  const fields = tbs.children[0].tag === 0xa0 ? tbs.children.slice(1) : tbs.children;
+  const [serialNumber, , issuer, validity, subject, publicKey] = fields;
+  return {
+    serialNumber: serialNumber.contents,
+    issuer: issuer.raw,
+    subject: formatName(subject),
+    publicKey: publicKey.raw,
+    notBefore: readTime(validity.children[0]),
+    notAfter: readTime(validity.children[1])
+  };
+};
+
+/** SHA-256 fingerprint in the colon-separated form keytool and Play Console show. */
+export const getFingerprint = async (der: Uint8Array) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', der as BufferSource));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(':');
+};
+
+/** Self-signed certificate for an app signing key. */
+export const createCertificate = async (keyPair: CryptoKeyPair, name: DistinguishedName, validityYears: number) => {
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+  const algorithm = sequence(oid(OID.sha256WithRSAEncryption), nullValue());
+  const subject = encodeName(name);
+  const notBefore = new Date();
+  const notAfter = new Date(notBefore);
+  notAfter.setUTCFullYear(notAfter.getUTCFullYear() + validityYears);
+
+  const tbs = sequence(
+    integer(crypto.getRandomValues(new Uint8Array(8))),
+    algorithm,
+    subject,
+    sequence(time(notBefore), time(notAfter)),
+    subject,
+    publicKey
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign(RSA_SIGNING, keyPair.privateKey, tbs));
+  return sequence(tbs, algorithm, bitString(signature));
+};
+
+/** Imports a PKCS#8 key for signing; APK signing here is limited to RSA. */
+export const importSigningKey = async (privateKey: Uint8Array) => {
+  const [, algorithm] = decode(privateKey).children;
+  if (readOid(algorithm.children[0]) !== OID.rsaEncryption) throw new Error('Only RSA signing keys are supported.');
+  return crypto.subtle.importKey('pkcs8', privateKey as BufferSource, RSA_SIGNING, true, ['sign']);
+};
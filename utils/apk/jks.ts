@@ -0,0 +1,126 @@
+/**
+ * Java KeyStore (.jks) files, the format older Android tooling creates.
+ * The key and the store must share one password, keytool's default.
+ */
+import { KeyEntry } from './certificate';
+import { concatBytes, encodeUtf16, decode, readOid, sequence, oid, nullValue, octetString } from './asn1';
+
+const MAGIC = 0xfeedfeed;
+const JCEKS_MAGIC = 0xcececece;
+const PRIVATE_KEY_ENTRY = 1;
+const KEY_PROTECTOR_OID = '1.3.6.1.4.1.42.2.17.1.1'; // Sun's proprietary SHA-1 key protection
+const INTEGRITY_SALT = 'Mighty Aphrodite'; // Fixed by the JDK implementation
+const SHA1_LENGTH = 20;
+
+const sha1 = async (...parts: Uint8Array[]) => new Uint8Array(await crypto.subtle.digest('SHA-1', concatBytes(parts)));
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const integrityDigest = (password: string, data: Uint8Array) => sha1(encodeUtf16(password), new TextEncoder().encode(INTEGRITY_SALT), data);
+
+// The key is XORed with a SHA-1 chain seeded by a random salt
+const keystream = async (password: string, salt: Uint8Array, length: number) => {
+  const output = new Uint8Array(length);
+  let block = salt;
+  for (let offset = 0; offset < length; offset += SHA1_LENGTH) {
+    block = await sha1(encodeUtf16(password), block);
+    output.set(block.subarray(0, Math.min(SHA1_LENGTH, length - offset)), offset);
+  }
+  return output;
+};
+
+const unprotectKey = async (protectedKey: Uint8Array, password: string) => {
+  const salt = protectedKey.subarray(0, SHA1_LENGTH);
+  const encrypted = protectedKey.subarray(SHA1_LENGTH, protectedKey.length - SHA1_LENGTH);
+  const check = protectedKey.subarray(protectedKey.length - SHA1_LENGTH);
+  const stream = await keystream(password, salt, encrypted.length);
+  const key = encrypted.map((byte, i) => byte ^ stream[i]);
+  if (!sameBytes(await sha1(encodeUtf16(password), key), check)) throw new Error('Incorrect key password.');
+  return key;
+};
+
+const protectKey = async (key: Uint8Array, password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(SHA1_LENGTH));
+  const stream = await keystream(password, salt, key.length);
+  return concatBytes([salt, key.map((byte, i) => byte ^ stream[i]), await sha1(encodeUtf16(password), key)]);
+};
+
+export const isJks = (bytes: Uint8Array) => {
+  if (bytes.length < 4) return false;
+  const magic = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0);
+  return magic === MAGIC || magic === JCEKS_MAGIC;
+};
+
+export const parseJks = async (bytes: Uint8Array, password: string): Promise<KeyEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(0) === JCEKS_MAGIC) throw new Error('JCEKS keystores are not supported. Convert it to PKCS#12 with keytool -importkeystore.');
+  if (view.getUint32(0) !== MAGIC) throw new Error('Not a Java keystore.');
+
+  const body = bytes.subarray(0, bytes.length - SHA1_LENGTH);
+  if (!sameBytes(await integrityDigest(password, body), bytes.subarray(body.length))) throw new Error('Incorrect keystore password.');
+
+  const version = view.getUint32(4);
+  const count = view.getUint32(8);
+  let at = 12;
+  const readUtf = () => {
+    const length = view.getUint16(at);
+    const text = new TextDecoder().decode(bytes.subarray(at + 2, at + 2 + length));
+    at += 2 + length;
+    return text;
+  };
+  const readBlock = () => {
+    const length = view.getUint32(at);
+    const block = bytes.subarray(at + 4, at + 4 + length);
+    at += 4 + length;
+    return block;
+  };
+  const readCertificate = () => {
+    if (version === 2) readUtf(); // Certificate type, always X.509
+    return readBlock();
+  };
+
+  for (let i = 0; i < count; i++) {
+    const tag = view.getUint32(at);
+    at += 4;
+    const alias = readUtf();
+    at += 8; // Creation date
+
+    if (tag !== PRIVATE_KEY_ENTRY) {
+      readCertificate(); // Trusted certificate entries hold no key
+      continue;
+    }
+
+    const [algorithm, protectedKey] = decode(readBlock()).children;
+    if (readOid(algorithm.children[0]) !== KEY_PROTECTOR_OID) throw new Error('Unsupported key protection in Java keystore.');
+    const privateKey = await unprotectKey(protectedKey.contents, password);
+    const chainLength = view.getUint32(at);
+    at += 4;
+    const certificates = Array.from({ length: chainLength }, readCertificate);
+    return { alias, privateKey, certificates };
+  }
+  throw new Error('The keystore contains no private key.');
+};
+
+export const createJks = async (entry: KeyEntry, password: string): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const u16 = (value: number) => new Uint8Array([value >> 8, value & 0xff]);
+  const u32 = (value: number) => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+  };
+  const utf = (text: string) => concatBytes([u16(encoder.encode(text).length), encoder.encode(text)]);
+  const block = (data: Uint8Array) => concatBytes([u32(data.length), data]);
+
+  const date = new Uint8Array(8);
+  new DataView(date.buffer).setBigUint64(0, BigInt(Date.now()));
+  const protectedKey = sequence(sequence(oid(KEY_PROTECTOR_OID), nullValue()), octetString(await protectKey(entry.privateKey, password)));
+
+  const body = concatBytes([
+    u32(MAGIC), u32(2), u32(1),
+    u32(PRIVATE_KEY_ENTRY), utf(entry.alias.toLowerCase()), date, block(protectedKey),
+    u32(entry.certificates.length),
+    ...entry.certificates.flatMap(certificate => [utf('X.509'), block(certificate)])
+  ]);
+  return concatBytes([body, await integrityDigest(password, body)]);
+};
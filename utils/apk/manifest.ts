@@ -0,0 +1,90 @@
+import { BuildConfig } from '../../types';
+import { AxmlDocument, AxmlElement, getElements, getAttribute, setAttribute, insertElement, removeElement } from './axml';
+
+// android: attribute resource ids (android.R.attr)
+const ATTR_LABEL = 0x01010001;
+const ATTR_NAME = 0x01010003;
+const ATTR_AUTHORITIES = 0x01010018;
+const ATTR_SCREEN_ORIENTATION = 0x0101001e;
+const ATTR_VERSION_CODE = 0x0101021b;
+const ATTR_VERSION_NAME = 0x0101021c;
+const ATTR_HARDWARE_ACCELERATED = 0x010102d3;
+const ATTR_USES_CLEARTEXT_TRAFFIC = 0x010104ec;
+
+// ActivityInfo.SCREEN_ORIENTATION_* values
+const ORIENTATIONS: Record<BuildConfig['orientation'], number> = {
+  landscape: 0,
+  portrait: 1,
+  sensor: 4,
+  auto: -1
+};
+
+// Android permissions each permission toggle of the build settings grants
+export const PERMISSIONS: [keyof BuildConfig, string[]][] = [
+  ['internetPermission', ['android.permission.INTERNET', 'android.permission.ACCESS_NETWORK_STATE']],
+  ['cameraPermission', ['android.permission.CAMERA']],
+  ['storagePermission', ['android.permission.READ_EXTERNAL_STORAGE', 'android.permission.WRITE_EXTERNAL_STORAGE']],
+  ['locationPermission', ['android.permission.ACCESS_FINE_LOCATION', 'android.permission.ACCESS_COARSE_LOCATION']]
+];
+
+const COMPONENTS = ['application', 'activity', 'activity-alias', 'service', 'receiver', 'provider'];
+
+/**
+ * Moves the manifest to a new package. Component class names are pinned to
+ * the shell's code first, while package-scoped permissions and provider
+ * authorities follow the new name so two generated apps can coexist.
+ */
+const renamePackage = (doc: AxmlDocument, manifest: AxmlElement, packageName: string) => {
+  const previous = getAttribute(doc, manifest, 'package');
+  if (!previous || previous === packageName) return;
+
+  COMPONENTS.forEach(tag => getElements(doc, tag).forEach(element => {
+    const name = getAttribute(doc, element, 'name', ATTR_NAME);
+    if (name && !name.includes('.')) setAttribute(doc, element, 'name', `${previous}.${name}`, ATTR_NAME);
+    else if (name?.startsWith('.')) setAttribute(doc, element, 'name', previous + name, ATTR_NAME);
+  }));
+
+  const rename = (value: string) => (value.startsWith(`${previous}.`) ? packageName + value.slice(previous.length) : value);
+  ['permission', 'uses-permission'].forEach(tag => getElements(doc, tag).forEach(element => {
+    const name = getAttribute(doc, element, 'name', ATTR_NAME);
+    if (name) setAttribute(doc, element, 'name', rename(name), ATTR_NAME);
+  }));
+  getElements(doc, 'provider').forEach(element => {
+    const authorities = getAttribute(doc, element, 'authorities', ATTR_AUTHORITIES);
+    if (authorities) setAttribute(doc, element, 'authorities', authorities.split(';').map(rename).join(';'), ATTR_AUTHORITIES);
+  });
+
+  setAttribute(doc, manifest, 'package', packageName);
+};
+
+const applyPermissions = (doc: AxmlDocument, manifest: AxmlElement, config: BuildConfig) => {
+  const managed = PERMISSIONS.flatMap(([, names]) => names);
+  getElements(doc, 'uses-permission').forEach(element => {
+    if (managed.includes(getAttribute(doc, element, 'name', ATTR_NAME) || '')) removeElement(doc, element);
+  });
+  PERMISSIONS.filter(([flag]) => config[flag]).flatMap(([, names]) => names).reverse().forEach(name => {
+    setAttribute(doc, insertElement(doc, manifest, 'uses-permission'), 'name', name, ATTR_NAME);
+  });
+};
+
+/** Rewrites the shell's compiled AndroidManifest.xml for a build configuration. */
+export const applyManifestConfig = (doc: AxmlDocument, config: BuildConfig) => {
+  const [manifest] = getElements(doc, 'manifest');
+  const [application] = getElements(doc, 'application');
+  if (!manifest || !application) throw new Error('The APK template has no valid AndroidManifest.xml.');
+
+  renamePackage(doc, manifest, config.packageName);
+  setAttribute(doc, manifest, 'versionCode', config.versionCode, ATTR_VERSION_CODE);
+  setAttribute(doc, manifest, 'versionName', config.versionName, ATTR_VERSION_NAME);
+
+  // A literal label replaces the template's @string/app_name, so resources.arsc stays untouched
+  setAttribute(doc, application, 'label', config.appName, ATTR_LABEL);
+  setAttribute(doc, application, 'hardwareAccelerated', config.hardwareAccel, ATTR_HARDWARE_ACCELERATED);
+  setAttribute(doc, application, 'usesCleartextTraffic', config.mixedContentMode !== 'never', ATTR_USES_CLEARTEXT_TRAFFIC);
+
+  getElements(doc, 'activity').forEach(activity => {
+    setAttribute(doc, activity, 'screenOrientation', ORIENTATIONS[config.orientation], ATTR_SCREEN_ORIENTATION);
+  });
+
+  applyPermissions(doc, manifest, config);
+};
@@ -0,0 +1,201 @@
+/**
+ * PKCS#12 (.p12/.pfx) keystores. Reading supports the PBES2/AES encryption
+ * that current OpenSSL and keytool write; files are written the same way.
+ */
+import { KeyEntry } from './certificate';
+import {
+  Asn1Node, OID, concatBytes, encodeUtf16, decode, readOid, readInteger, readOctets, readString,
+  sequence, set, explicit, oid, integer, nullValue, octetString, bmpString
+} from './asn1';
+
+const PKCS12_OID = {
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  shroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+  x509Certificate: '1.2.840.113549.1.9.22.1',
+  friendlyName: '1.2.840.113549.1.9.20',
+  localKeyId: '1.2.840.113549.1.9.21',
+  pbes2: '1.2.840.113549.1.5.13',
+  pbkdf2: '1.2.840.113549.1.5.12',
+  hmacWithSHA1: '1.2.840.113549.2.7',
+  hmacWithSHA256: '1.2.840.113549.2.9',
+  hmacWithSHA512: '1.2.840.113549.2.11',
+  aes128Cbc: '2.16.840.1.101.3.4.1.2',
+  aes256Cbc: '2.16.840.1.101.3.4.1.42'
+};
+
+const PRF_HASHES: Record<string, string> = {
+  [PKCS12_OID.hmacWithSHA1]: 'SHA-1',
+  [PKCS12_OID.hmacWithSHA256]: 'SHA-256',
+  [PKCS12_OID.hmacWithSHA512]: 'SHA-512'
+};
+
+const AES_KEY_LENGTHS: Record<string, number> = {
+  [PKCS12_OID.aes128Cbc]: 128,
+  [PKCS12_OID.aes256Cbc]: 256
+};
+
+// Hash output and block sizes in bytes for the PKCS#12 MAC key derivation
+const MAC_HASHES: Record<string, { name: string; u: number; v: number }> = {
+  [OID.sha1]: { name: 'SHA-1', u: 20, v: 64 },
+  [OID.sha256]: { name: 'SHA-256', u: 32, v: 64 }
+};
+
+const ITERATIONS = 2048;
+
+const digest = async (hash: string, data: Uint8Array) => new Uint8Array(await crypto.subtle.digest(hash, data as BufferSource));
+
+/** Password as a null-terminated big-endian UTF-16 string, which the MAC key derivation uses. */
+const bmpPassword = (password: string) => concatBytes([encodeUtf16(password), new Uint8Array(2)]);
+
+/** Key derivation from RFC 7292 appendix B; id 3 produces MAC keys. */
+const deriveMacKey = async (password: string, salt: Uint8Array, iterations: number, hash: { name: string; u: number; v: number }) => {
+  const { u, v } = hash;
+  const fill = (source: Uint8Array) => {
+    const output = new Uint8Array(v * Math.ceil(source.length / v));
+    for (let i = 0; i < output.length; i++) output[i] = source[i % source.length];
+    return output;
+  };
+  const input = concatBytes([fill(salt), fill(bmpPassword(password))]);
+  const diversifier = new Uint8Array(v).fill(3);
+
+  let key = await digest(hash.name, concatBytes([diversifier, input]));
+  for (let i = 1; i < iterations; i++) key = await digest(hash.name, key);
+  // A single round covers the key length of both supported hashes
+  return key.subarray(0, u);
+};
+
+const computeMac = async (password: string, data: Uint8Array, salt: Uint8Array, iterations: number, hashOid: string) => {
+  const hash = MAC_HASHES[hashOid];
+  if (!hash) throw new Error('Unsupported PKCS#12 integrity algorithm.');
+  const key = await crypto.subtle.importKey('raw', await deriveMacKey(password, salt, iterations, hash), { name: 'HMAC', hash: hash.name }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, data as BufferSource));
+};
+
+const pbes2Key = async (password: string, salt: Uint8Array, iterations: number, hash: string, length: number, usage: KeyUsage) => {
+  const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey({ name: 'PBKDF2', salt: salt as BufferSource, iterations, hash }, base, { name: 'AES-CBC', length }, false, [usage]);
+};
+
+const decrypt = async (algorithm: Asn1Node, data: Uint8Array, password: string) => {
+  if (readOid(algorithm.children[0]) !== PKCS12_OID.pbes2) {
+    throw new Error('This PKCS#12 file uses legacy encryption (3DES or RC2). Re-export it with AES-256, e.g. openssl pkcs12 -export -keypbe AES-256-CBC -certpbe AES-256-CBC.');
+  }
+  const [kdf, scheme] = algorithm.children[1].children;
+  if (readOid(kdf.children[0]) !== PKCS12_OID.pbkdf2) throw new Error('Unsupported PKCS#12 key derivation.');
+  const [salt, iterations, ...options] = kdf.children[1].children;
+  const prf = options.find(option => option.children.length);
+  const hash = prf ? PRF_HASHES[readOid(prf.children[0])] : 'SHA-1';
+  const length = AES_KEY_LENGTHS[readOid(scheme.children[0])];
+  if (!hash || !length) throw new Error('Unsupported PKCS#12 encryption algorithm.');
+
+  const key = await pbes2Key(password, salt.contents, readInteger(iterations), hash, length, 'decrypt');
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: scheme.children[1].contents as BufferSource }, key, data as BufferSource));
+  } catch {
+    throw new Error('Incorrect keystore password.');
+  }
+};
+
+const encrypt = async (data: Uint8Array, password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(16));
+  const key = await pbes2Key(password, salt, ITERATIONS, 'SHA-256', 256, 'encrypt');
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, data as BufferSource));
+  const algorithm = sequence(
+    oid(PKCS12_OID.pbes2),
+    sequence(
+      sequence(oid(PKCS12_OID.pbkdf2), sequence(octetString(salt), integer(ITERATIONS), sequence(oid(PKCS12_OID.hmacWithSHA256), nullValue()))),
+      sequence(oid(PKCS12_OID.aes256Cbc), octetString(iv))
+    )
+  );
+  return sequence(algorithm, octetString(encrypted));
+};
+
+const dataContent = (content: Uint8Array) => sequence(oid(OID.data), explicit(0, octetString(content)));
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const parsePkcs12 = async (bytes: Uint8Array, password: string): Promise<KeyEntry> => {
+  const [, authSafe, macData] = decode(bytes).children;
+  if (readOid(authSafe.children[0]) !== OID.data) throw new Error('Unsupported PKCS#12 file: public-key integrity mode.');
+  const content = readOctets(authSafe.children[1].children[0]);
+
+  if (macData) {
+    const [digestInfo, salt, iterations] = macData.children;
+    const expected = readOctets(digestInfo.children[1]);
+    const actual = await computeMac(password, content, salt.contents, iterations ? readInteger(iterations) : 1, readOid(digestInfo.children[0].children[0]));
+    if (toHex(actual) !== toHex(expected)) throw new Error('Incorrect keystore password.');
+  }
+
+  const keys: { key: Uint8Array; id?: string; alias?: string }[] = [];
+  const certificates: { der: Uint8Array; id?: string }[] = [];
+
+  for (const info of decode(content).children) {
+    const type = readOid(info.children[0]);
+    let safeContents: Uint8Array;
+    if (type === OID.data) {
+      safeContents = readOctets(info.children[1].children[0]);
+    } else if (type === OID.encryptedData) {
+      const [, encryptedContentInfo] = info.children[1].children[0].children;
+      const [, algorithm, encrypted] = encryptedContentInfo.children;
+      safeContents = await decrypt(algorithm, readOctets(encrypted), password);
+    } else {
+      continue;
+    }
+
+    for (const bag of decode(safeContents).children) {
+      const [bagType, value, attributes] = bag.children;
+      const attribute = (name: string) => attributes?.children.find(item => readOid(item.children[0]) === name)?.children[1].children[0];
+      const id = attribute(PKCS12_OID.localKeyId);
+      const alias = attribute(PKCS12_OID.friendlyName);
+      const meta = { id: id && toHex(id.contents), alias: alias && readString(alias) };
+
+      const bagOid = readOid(bagType);
+      if (bagOid === PKCS12_OID.keyBag) {
+        keys.push({ key: value.children[0].raw, ...meta });
+      } else if (bagOid === PKCS12_OID.shroudedKeyBag) {
+        const [algorithm, encrypted] = value.children[0].children;
+        keys.push({ key: await decrypt(algorithm, encrypted.contents, password), ...meta });
+      } else if (bagOid === PKCS12_OID.certBag) {
+        const [certType, certValue] = value.children[0].children;
+        if (readOid(certType) === PKCS12_OID.x509Certificate) certificates.push({ der: readOctets(certValue.children[0]), id: meta.id });
+      }
+    }
+  }
+
+  const [key] = keys;
+  if (!key) throw new Error('The keystore contains no private key.');
+  const own = certificates.find(certificate => key.id && certificate.id === key.id) || certificates[0];
+  if (!own) throw new Error('The keystore contains no certificate for its key.');
+
+  return {
+    alias: key.alias || 'key0',
+    privateKey: key.key,
+    certificates: [own.der, ...certificates.filter(certificate => certificate !== own).map(certificate => certificate.der)]
+  };
+};
+
+export const createPkcs12 = async (entry: KeyEntry, password: string): Promise<Uint8Array> => {
+  const keyId = await digest('SHA-1', entry.certificates[0]);
+  const attributes = set(
+    sequence(oid(PKCS12_OID.friendlyName), set(bmpString(entry.alias))),
+    sequence(oid(PKCS12_OID.localKeyId), set(octetString(keyId)))
+  );
+
+  const keyBag = sequence(oid(PKCS12_OID.shroudedKeyBag), explicit(0, await encrypt(entry.privateKey, password)), attributes);
+  const certBags = entry.certificates.map((certificate, i) => sequence(
+    oid(PKCS12_OID.certBag),
+    explicit(0, sequence(oid(PKCS12_OID.x509Certificate), explicit(0, octetString(certificate)))),
+    ...(i === 0 ? [attributes] : [])
+  ));
+  const authSafe = sequence(dataContent(sequence(keyBag)), dataContent(sequence(...certBags)));
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const mac = await computeMac(password, authSafe, salt, ITERATIONS, OID.sha256);
+  return sequence(
+    integer(3),
+    dataContent(authSafe),
+    sequence(sequence(sequence(oid(OID.sha256), nullValue()), octetString(mac)), octetString(salt), integer(ITERATIONS))
+  );
+};
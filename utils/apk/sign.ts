@@ -0,0 +1,167 @@
+/**
+ * APK signing with the JAR (v1) and APK Signature Scheme v2. v1 keeps older
+ * Android versions installing; v2 covers the whole file and is what Android 7+
+ * verifies. Both use RSA with SHA-256.
+ */
+import { ZipEntry, WrittenZip, createEntry, readEntry, writeZip, findEndOfCentralDirectory } from './zip';
+import { parseCertificate, RSA_SIGNING } from './certificate';
+import { OID, concatBytes, sequence, set, explicit, oid, integer, nullValue, octetString } from './asn1';
+
+export interface ApkSigner {
+  key: CryptoKey;
+  certificate: Uint8Array; // DER X.509
+}
+
+const SIGNER_NAME = 'CERT';
+const CREATED_BY = 'Buildora';
+const MANIFEST_LINE_BYTES = 72;
+
+const V2_BLOCK_ID = 0x7109871a;
+const RSA_PKCS1_SHA256 = 0x0103;
+const CHUNK_SIZE = 1024 * 1024;
+const BLOCK_MAGIC = 'APK Sig Block 42';
+
+const encoder = new TextEncoder();
+
+const sha256 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', data as BufferSource));
+
+const sign = async (signer: ApkSigner, data: Uint8Array) => new Uint8Array(await crypto.subtle.sign(RSA_SIGNING, signer.key, data as BufferSource));
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+
+// --- v1 (JAR signing) ---
+
+/** A manifest header, wrapped at 72 bytes with continuation lines that start with a space. */
+const header = (name: string, value: string) => {
+  const bytes = encoder.encode(`${name}: ${value}`);
+  const lines = [bytes.subarray(0, MANIFEST_LINE_BYTES)];
+  for (let at = MANIFEST_LINE_BYTES; at < bytes.length; at += MANIFEST_LINE_BYTES - 1) {
+    lines.push(concatBytes([encoder.encode(' '), bytes.subarray(at, at + MANIFEST_LINE_BYTES - 1)]));
+  }
+  return concatBytes(lines.flatMap(line => [line, encoder.encode('\r\n')]));
+};
+
+const section = (...headers: Uint8Array[]) => concatBytes([...headers, encoder.encode('\r\n')]);
+
+/** PKCS#7 SignedData with a detached RSA signature over the signature file. */
+const signatureBlock = (signer: ApkSigner, signature: Uint8Array) => {
+  const { issuer, serialNumber } = parseCertificate(signer.certificate);
+  const digestAlgorithm = sequence(oid(OID.sha256), nullValue());
+  const signerInfo = sequence(
+    integer(1),
+    sequence(issuer, integer(serialNumber)),
+    digestAlgorithm,
+    sequence(oid(OID.rsaEncryption), nullValue()),
+    octetString(signature)
+  );
+  return sequence(
+    oid(OID.signedData),
+    explicit(0, sequence(
+      integer(1),
+      set(digestAlgorithm),
+      sequence(oid(OID.data)),
+      explicit(0, signer.certificate),
+      set(signerInfo)
+    ))
+  );
+};
+
+/** Adds META-INF/MANIFEST.MF, CERT.SF and CERT.RSA, placed first like jarsigner does. */
+export const signV1 = async (entries: ZipEntry[], signer: ApkSigner): Promise<ZipEntry[]> => {
+  const mainSection = section(header('Manifest-Version', '1.0'), header('Created-By', CREATED_BY));
+  const files = entries.filter(entry => !entry.name.endsWith('/'));
+  const entrySections: Uint8Array[] = [];
+  for (const entry of files) {
+    const digest = await sha256(await readEntry(entry));
+    entrySections.push(section(header('Name', entry.name), header('SHA-256-Digest', toBase64(digest))));
+  }
+  const manifest = concatBytes([mainSection, ...entrySections]);
+
+  // The signature file digests the manifest as a whole and section by section
+  const signatureSections: Uint8Array[] = [];
+  for (let i = 0; i < files.length; i++) {
+    signatureSections.push(section(header('Name', files[i].name), header('SHA-256-Digest', toBase64(await sha256(entrySections[i])))));
+  }
+  const signatureFile = concatBytes([
+    section(
+      header('Signature-Version', '1.0'),
+      header('Created-By', CREATED_BY),
+      header('SHA-256-Digest-Manifest', toBase64(await sha256(manifest))),
+      header('SHA-256-Digest-Manifest-Main-Attributes', toBase64(await sha256(mainSection))),
+      // Tells v2-aware verifiers to reject the APK if its v2 signature was stripped
+      header('X-Android-APK-Signed', '2')
+    ),
+    ...signatureSections
+  ]);
+
+  return [
+    await createEntry('META-INF/MANIFEST.MF', manifest),
+    await createEntry(`META-INF/${SIGNER_NAME}.SF`, signatureFile),
+    await createEntry(`META-INF/${SIGNER_NAME}.RSA`, signatureBlock(signer, await sign(signer, signatureFile))),
+    ...entries
+  ];
+};
+
+// --- v2 (APK Signature Scheme v2) ---
+
+const u32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+};
+
+const u64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(value), true);
+  return bytes;
+};
+
+const lengthPrefixed = (...parts: Uint8Array[]) => {
+  const data = concatBytes(parts);
+  return concatBytes([u32(data.length), data]);
+};
+
+/** Digest of 1 MiB chunks of each section, as defined by the v2 scheme. */
+const contentDigest = async (sections: Uint8Array[]) => {
+  const chunkDigests: Uint8Array[] = [];
+  for (const data of sections) {
+    for (let at = 0; at < data.length; at += CHUNK_SIZE) {
+      const chunk = data.subarray(at, at + CHUNK_SIZE);
+      chunkDigests.push(await sha256(concatBytes([new Uint8Array([0xa5]), u32(chunk.length), chunk])));
+    }
+  }
+  return sha256(concatBytes([new Uint8Array([0x5a]), u32(chunkDigests.length), ...chunkDigests]));
+};
+
+/** Inserts an APK Signing Block between the ZIP entries and the central directory. */
+export const signV2 = async (zip: WrittenZip, signer: ApkSigner): Promise<Uint8Array> => {
+  const { data, centralDirectoryOffset } = zip;
+  const endOfCentralDirectory = findEndOfCentralDirectory(new DataView(data.buffer, data.byteOffset, data.byteLength));
+  const digest = await contentDigest([
+    data.subarray(0, centralDirectoryOffset),
+    data.subarray(centralDirectoryOffset, endOfCentralDirectory),
+    data.subarray(endOfCentralDirectory)
+  ]);
+
+  const signedData = concatBytes([
+    lengthPrefixed(lengthPrefixed(u32(RSA_PKCS1_SHA256), lengthPrefixed(digest))),
+    lengthPrefixed(lengthPrefixed(signer.certificate)),
+    lengthPrefixed() // No additional attributes
+  ]);
+  const signerBlock = concatBytes([
+    lengthPrefixed(signedData),
+    lengthPrefixed(lengthPrefixed(u32(RSA_PKCS1_SHA256), lengthPrefixed(await sign(signer, signedData)))),
+    lengthPrefixed(parseCertificate(signer.certificate).publicKey)
+  ]);
+  const value = lengthPrefixed(lengthPrefixed(signerBlock));
+  const pair = concatBytes([u64(4 + value.length), u32(V2_BLOCK_ID), value]);
+  const blockSize = pair.length + 8 + BLOCK_MAGIC.length;
+  const block = concatBytes([u64(blockSize), pair, u64(blockSize), encoder.encode(BLOCK_MAGIC)]);
+
+  const output = concatBytes([data.subarray(0, centralDirectoryOffset), block, data.subarray(centralDirectoryOffset)]);
+  new DataView(output.buffer).setUint32(endOfCentralDirectory + block.length + 16, centralDirectoryOffset + block.length, true);
+  return output;
+};
+
+/** Signs with both schemes and returns the finished APK bytes. */
+export const signApk = async (entries: ZipEntry[], signer: ApkSigner) => signV2(writeZip(await signV1(entries, signer)), signer);
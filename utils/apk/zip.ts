@@ -0,0 +1,179 @@
+/**
+ * Minimal ZIP reader and writer for APK files. Entries keep their compressed
+ * bytes, so unchanged template files are copied without recompressing, and
+ * stored entries are aligned the way zipalign does it.
+ */
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  crc32: number;
+  uncompressedSize: number;
+  data: Uint8Array; // As stored in the archive, i.e. compressed for deflate entries
+}
+
+export interface WrittenZip {
+  data: Uint8Array;
+  centralDirectoryOffset: number; // Where an APK signing block gets inserted
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ALIGNMENT_EXTRA_ID = 0xd935; // Extra field zipalign pads with
+
+// Fixed timestamp (1981-01-01) keeps builds reproducible
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+// Formats that do not shrink when deflated
+const STORED_EXTENSIONS = /\.(png|jpe?g|gif|webp|ico|mp3|ogg|mp4|webm|woff2?|zip|gz|arsc)$/i;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const output = new Blob([data.slice()]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+export const findEndOfCentralDirectory = (view: DataView) => {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a ZIP archive: end of central directory not found.');
+};
+
+export const readZip = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER) throw new Error('Corrupt ZIP central directory.');
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    // Local headers have their own name and extra lengths
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    entries.push({ name, method, crc32: crc, uncompressedSize, data: bytes.subarray(dataStart, dataStart + compressedSize) });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+export const readEntry = async (entry: ZipEntry): Promise<Uint8Array> => {
+  if (entry.method === 0) return entry.data;
+  if (entry.method !== 8) throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}.`);
+  return transform(entry.data, new DecompressionStream('deflate-raw'));
+};
+
+/** Builds an entry from uncompressed bytes, deflating it unless the format is already compressed. */
+export const createEntry = async (name: string, data: Uint8Array, compress = !STORED_EXTENSIONS.test(name)): Promise<ZipEntry> => {
+  const entry = { name, crc32: crc32(data), uncompressedSize: data.length };
+  if (!compress) return { ...entry, method: 0, data };
+  const deflated = await transform(data, new CompressionStream('deflate-raw'));
+  // Tiny files can grow when deflated
+  return deflated.length < data.length ? { ...entry, method: 8, data: deflated } : { ...entry, method: 0, data };
+};
+
+// Stored entries are aligned so Android can map them directly; native libraries to memory pages
+const getAlignment = (entry: ZipEntry) => {
+  if (entry.method !== 0) return 1;
+  return entry.name.endsWith('.so') ? 4096 : 4;
+};
+
+export const writeZip = (entries: ZipEntry[]): WrittenZip => {
+  const encoder = new TextEncoder();
+  const names = entries.map(entry => encoder.encode(entry.name));
+
+  // Lay out local records first to know each entry's padding and offset
+  let offset = 0;
+  const layout = entries.map((entry, i) => {
+    const headerEnd = offset + 30 + names[i].length;
+    const alignment = getAlignment(entry);
+    let extraLength = 0;
+    if (alignment > 1 && headerEnd % alignment !== 0) {
+      extraLength = 6;
+      extraLength += (alignment - ((headerEnd + extraLength) % alignment)) % alignment;
+    }
+    const record = { offset, extraLength, alignment };
+    offset = headerEnd + extraLength + entry.data.length;
+    return record;
+  });
+
+  const centralDirectoryOffset = offset;
+  const centralDirectorySize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+  const output = new Uint8Array(centralDirectoryOffset + centralDirectorySize + 22);
+  const view = new DataView(output.buffer);
+
+  const writeCommon = (at: number, entry: ZipEntry, name: Uint8Array) => {
+    const utf8 = name.some(byte => byte > 0x7f);
+    view.setUint16(at, entry.method === 8 ? 20 : 10, true);
+    view.setUint16(at + 2, utf8 ? 0x0800 : 0, true);
+    view.setUint16(at + 4, entry.method, true);
+    view.setUint16(at + 6, DOS_TIME, true);
+    view.setUint16(at + 8, DOS_DATE, true);
+    view.setUint32(at + 10, entry.crc32, true);
+    view.setUint32(at + 14, entry.data.length, true);
+    view.setUint32(at + 18, entry.uncompressedSize, true);
+    view.setUint16(at + 22, name.length, true);
+  };
+
+  entries.forEach((entry, i) => {
+    const { offset: at, extraLength, alignment } = layout[i];
+    view.setUint32(at, LOCAL_HEADER, true);
+    writeCommon(at + 4, entry, names[i]);
+    view.setUint16(at + 28, extraLength, true);
+    output.set(names[i], at + 30);
+    if (extraLength) {
+      const extraAt = at + 30 + names[i].length;
+      view.setUint16(extraAt, ALIGNMENT_EXTRA_ID, true);
+      view.setUint16(extraAt + 2, extraLength - 4, true);
+      view.setUint16(extraAt + 4, alignment, true);
+    }
+    output.set(entry.data, at + 30 + names[i].length + extraLength);
+  });
+
+  let at = centralDirectoryOffset;
+  entries.forEach((entry, i) => {
+    view.setUint32(at, CENTRAL_HEADER, true);
+    view.setUint16(at + 4, 0x031e, true); // Made by: Unix, ZIP 3.0
+    writeCommon(at + 6, entry, names[i]);
+    view.setUint32(at + 42, layout[i].offset, true);
+    output.set(names[i], at + 46);
+    at += 46 + names[i].length;
+  });
+
+  view.setUint32(at, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(at + 8, entries.length, true);
+  view.setUint16(at + 10, entries.length, true);
+  view.setUint32(at + 12, centralDirectorySize, true);
+  view.setUint32(at + 16, centralDirectoryOffset, true);
+
+  return { data: output, centralDirectoryOffset };
+};
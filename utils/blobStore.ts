@@ -0,0 +1,180 @@
+import { File, Project, Snapshot } from '../types';
+import { openDB, promisifyRequest, transactionDone, STORES } from './db';
+
+interface BlobRecord {
+  hash: string;
+  blob: Blob;
+  size: number;
+  type: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  html: 'text/html; charset=utf-8',
+  htm: 'text/html; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  js: 'text/javascript; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  webmanifest: 'application/manifest+json; charset=utf-8',
+  xml: 'application/xml; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  wasm: 'application/wasm',
+};
+
+// Content-addressed, so a hash always maps to the same bytes and URLs never go stale
+const objectUrlCache = new Map<string, string>();
+
+// Blobs stored for files that are not saved yet; garbage collection keeps them
+const pendingHashes = new Set<string>();
+
+export const isBinaryFile = (file: Pick<File, 'language'>) => file.language === 'image' || file.language === 'font';
+
+export const guessMimeType = (name: string) => {
+  const ext = name.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[ext] || 'application/octet-stream';
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashBytes = async (data: BufferSource) => {
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+export const putBlob = async (data: Blob | ArrayBuffer | ArrayBufferView, type: string = 'application/octet-stream'): Promise<string> => {
+  const blob = data instanceof Blob ? data : new Blob([data as BlobPart], { type });
+  const hash = await hashBytes(await blob.arrayBuffer());
+
+  const db = await openDB();
+  const tx = db.transaction(STORES.blobs, 'readwrite');
+  const store = tx.objectStore(STORES.blobs);
+  const existing = await promisifyRequest(store.getKey(hash));
+  if (existing === undefined) {
+    const record: BlobRecord = { hash, blob, size: blob.size, type: blob.type || type };
+    store.put(record);
+  }
+  await transactionDone(tx);
+  pendingHashes.add(hash);
+  return hash;
+};
+
+/** Marks the blobs of saved files as referenced by the store itself. */
+export const settleBlobs = (files: File[]) => {
+  files.forEach(f => {
+    if (f.blobHash) pendingHashes.delete(f.blobHash);
+  });
+};
+
+export const getBlob = async (hash: string): Promise<Blob | null> => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.blobs, 'readonly');
+  const record = await promisifyRequest<BlobRecord | undefined>(tx.objectStore(STORES.blobs).get(hash));
+  return record ? record.blob : null;
+};
+
+export const getBlobUrl = async (hash: string): Promise<string | null> => {
+  const cached = objectUrlCache.get(hash);
+  if (cached) return cached;
+
+  const blob = await getBlob(hash);
+  if (!blob) return null;
+  const url = URL.createObjectURL(blob);
+  objectUrlCache.set(hash, url);
+  return url;
+};
+
+export const getFileBytes = async (file: File): Promise<Uint8Array | null> => {
+  if (!file.blobHash) return null;
+  const blob = await getBlob(file.blobHash);
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data = ''] = dataUrl.split(',');
+  const mime = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  if (header.includes(';base64')) {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mime });
+  }
+  return new Blob([decodeURIComponent(data)], { type: mime });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Moves Base64 data URLs held in binary files' `content` into the blob store.
+ * Used when ingesting legacy projects or JSON exports.
+ */
+export const extractInlineBlobs = async (files: File[]): Promise<File[]> => {
+  return Promise.all(files.map(async f => {
+    if (!isBinaryFile(f) || !f.content.startsWith('data:')) return f;
+    const blobHash = await putBlob(dataUrlToBlob(f.content));
+    return { ...f, content: '', blobHash };
+  }));
+};
+
+/**
+ * Inverse of `extractInlineBlobs`: embeds binary files as data URLs so the
+ * project can travel as a single self-contained JSON document.
+ */
+export const inlineBlobs = async (project: Project): Promise<Project> => {
+  const files = await Promise.all(project.files.map(async f => {
+    if (!f.blobHash) return f;
+    const blob = await getBlob(f.blobHash);
+    if (!blob) return f;
+    const { blobHash, ...rest } = f;
+    return { ...rest, content: await blobToDataUrl(blob) };
+  }));
+  return { ...project, files };
+};
+
+/**
+ * Deletes blobs that are no longer referenced by any stored file or snapshot,
+ * except those put since the last save of the files using them.
+ */
+export const collectGarbage = async () => {
+  const db = await openDB();
+  const tx = db.transaction([STORES.files, STORES.snapshots, STORES.blobs], 'readwrite');
+  const [fileRecords, snapshots, hashes] = await Promise.all([
+    promisifyRequest<File[]>(tx.objectStore(STORES.files).getAll()),
+    promisifyRequest<Snapshot[]>(tx.objectStore(STORES.snapshots).getAll()),
+    promisifyRequest(tx.objectStore(STORES.blobs).getAllKeys())
+  ]);
+
+  const referenced = new Set(
+    [...fileRecords, ...snapshots.flatMap(s => s.files)].map(f => f.blobHash).filter(Boolean)
+  );
+  const blobStore = tx.objectStore(STORES.blobs);
+  hashes.forEach(hash => {
+    if (!referenced.has(hash as string) && !pendingHashes.has(hash as string)) {
+      blobStore.delete(hash);
+      const url = objectUrlCache.get(hash as string);
+      if (url) {
+        URL.revokeObjectURL(url);
+        objectUrlCache.delete(hash as string);
+      }
+    }
+  });
+  await transactionDone(tx);
+};
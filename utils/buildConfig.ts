@@ -0,0 +1,122 @@
+import { BuildConfig, Project } from '../types';
+
+// Package name segment from free text: lowercase letters, digits and underscores
+const toPackageSegment = (text: string) => {
+  const segment = text.toLowerCase().replace(/[^a-z0-9_]/g, '');
+  if (!segment) return 'app';
+  return /^[0-9]/.test(segment) ? `app${segment}` : segment;
+};
+
+/** Build settings for a project that has never been configured. */
+export const defaultBuildConfig = (project: Project): BuildConfig => ({
+  appName: project.name,
+  packageName: `com.buildora.${toPackageSegment(project.name)}`,
+  versionCode: 1,
+  versionName: '1.0.0',
+  iconBackgroundColor: '#ffffff',
+  iconScale: 1,
+  splashBackgroundColor: '#ffffff',
+
+  orientation: 'portrait',
+  fullscreen: false,
+  statusBarColor: '#000000',
+  zoomEnabled: false,
+  pullToRefresh: false,
+
+  javascriptEnabled: true,
+  domStorageEnabled: true,
+  cacheMode: 'default',
+  hardwareAccel: true,
+  mixedContentMode: 'never',
+
+  internetPermission: true,
+  cameraPermission: false,
+  storagePermission: false,
+  locationPermission: false,
+
+  clearCache: false
+});
+
+/** Saved settings on top of the defaults, so configs saved before a field existed still work. */
+export const getBuildConfig = (project: Project): BuildConfig => ({ ...defaultBuildConfig(project), ...project.buildConfig });
+
+export type BuildConfigErrors = Partial<Record<keyof BuildConfig, string>>;
+
+/** New settings, or a change to apply to whatever the settings are by then. */
+export type BuildConfigUpdate = BuildConfig | ((current: BuildConfig) => BuildConfig);
+
+// Google Play's upper limit for versionCode
+export const MAX_VERSION_CODE = 2100000000;
+
+// The form Android's Color.parseColor and HTML both accept
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const COLOR_FIELDS = ['splashBackgroundColor', 'statusBarColor'] as const;
+
+const JAVA_KEYWORDS = new Set([
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+  'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'goto',
+  'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'null', 'package',
+  'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized',
+  'this', 'throw', 'throws', 'transient', 'true', 'try', 'void', 'volatile', 'while'
+]);
+
+export const validatePackageName = (packageName: string): string | null => {
+  const segments = packageName.split('.');
+  if (segments.length < 2) return 'Use at least two segments, e.g. com.example.app.';
+  for (const segment of segments) {
+    if (!segment) return 'Segments cannot be empty.';
+    if (!/^[a-zA-Z][a-zA-Z0-9_]*$/.test(segment)) return `"${segment}" must start with a letter and contain only letters, digits and underscores.`;
+    if (JAVA_KEYWORDS.has(segment)) return `"${segment}" is a reserved Java keyword.`;
+  }
+  return null;
+};
+
+/** Compares dotted version names segment by segment, so 1.10 is newer than 1.9. */
+export const compareVersionNames = (a: string, b: string) => {
+  const left = a.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+  const right = b.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff) return diff;
+  }
+  return 0;
+};
+
+export const validateBuildConfig = (config: BuildConfig): BuildConfigErrors => {
+  const errors: BuildConfigErrors = {};
+  const { lastBuild } = config;
+
+  if (!config.appName.trim()) errors.appName = 'Enter an app name.';
+
+  const packageError = validatePackageName(config.packageName);
+  if (packageError) errors.packageName = packageError;
+
+  if (!Number.isInteger(config.versionCode) || config.versionCode < 1 || config.versionCode > MAX_VERSION_CODE) {
+    errors.versionCode = `Use a whole number from 1 to ${MAX_VERSION_CODE}.`;
+  } else if (lastBuild && config.versionCode <= lastBuild.versionCode) {
+    // Android refuses to install an update with a lower or equal versionCode
+    errors.versionCode = `Must be higher than the last build (${lastBuild.versionCode}).`;
+  }
+
+  if (!config.versionName.trim()) {
+    errors.versionName = 'Enter a version name, e.g. 1.0.0.';
+  } else if (lastBuild && compareVersionNames(config.versionName, lastBuild.versionName) < 0) {
+    errors.versionName = `Lower than the last build (${lastBuild.versionName}).`;
+  }
+
+  for (const field of COLOR_FIELDS) {
+    if (!HEX_COLOR.test(config[field])) errors[field] = 'Use a hex color, e.g. #1e40af.';
+  }
+
+  return errors;
+};
+
+/**
+ * Records a finished build made with `built` and moves on to the next
+ * versionCode, keeping any other settings changed while it ran.
+ */
+export const recordBuild = (built: BuildConfig) => (current: BuildConfig): BuildConfig => ({
+  ...current,
+  versionCode: Math.max(current.versionCode, built.versionCode + 1),
+  lastBuild: { versionCode: built.versionCode, versionName: built.versionName, time: Date.now() }
+});
@@ -0,0 +1,232 @@
+/**
+ * Single-file HTML bundler: inlines every local stylesheet, script, image,
+ * font and CSS import into the entry page so it works opened from disk.
+ * Binaries become data URIs; references that cannot be inlined are reported.
+ */
+import { File, Project } from '../types';
+import { resolvePath, isExternalRef, findIndexFile, getFilePath } from './paths';
+import { getAttribute, hasAttribute, removeAttribute, setAttribute, escapeInlineCode } from './html';
+import { isBinaryFile, getBlob, guessMimeType, blobToDataUrl } from './blobStore';
+
+export interface BundleWarning {
+  file: string; // Project path of the file holding the reference
+  reference: string;
+  reason: string;
+}
+
+export interface BundleResult {
+  html: string;
+  warnings: BundleWarning[];
+}
+
+// Attributes of media elements that load a single URL
+const MEDIA_TAGS = /<(img|source|video|audio|track|input|embed|object)\b[^>]*>/gi;
+const MEDIA_ATTRIBUTES = ['src', 'poster', 'data'];
+// Link relations that point at an icon, inlined like images
+const ICON_RELS = /\b(icon|apple-touch-icon|mask-icon)\b/i;
+// Hints for files that no longer exist once everything is inlined
+const PRELOAD_RELS = /\b(preload|modulepreload|prefetch)\b/i;
+
+// An @import statement (url or string form, then media) or a url() reference, in one pass
+export const CSS_REFERENCE = /@import\s*(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)\s*([^;]*);|url\(\s*(['"]?)([^'")]+)\6\s*\)/gi;
+// Static imports and re-exports, bare side-effect imports and dynamic import()
+const MODULE_SPECIFIER = /(\bfrom\s*|\bimport\s*\(?\s*)(['"])([^'"\n]+)\2/g;
+
+/** Like String.replace with an async replacer, run one match at a time. */
+const replaceAsync = async (text: string, pattern: RegExp, replacer: (...match: string[]) => Promise<string>) => {
+  const parts: string[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    parts.push(text.slice(last, match.index), await replacer(...match));
+    last = match.index! + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return parts.join('');
+};
+
+const isRelativeSpecifier = (specifier: string) => /^\.{0,2}\//.test(specifier);
+
+interface BundleContext {
+  project: Project;
+  warnings: BundleWarning[];
+  dataUris: Map<string, string>; // By file id
+}
+
+const pathOf = (ctx: BundleContext, file: File) => getFilePath(ctx.project.files, file);
+
+const warn = (ctx: BundleContext, from: File, reference: string, reason: string) => {
+  const file = pathOf(ctx, from);
+  // Files reached through several paths are processed more than once
+  if (ctx.warnings.some(w => w.file === file && w.reference === reference && w.reason === reason)) return;
+  ctx.warnings.push({ file, reference, reason });
+};
+
+/** Resolves a local reference, reporting it when nothing matches. */
+const resolve = (ctx: BundleContext, from: File, href: string) => {
+  const file = resolvePath(ctx.project, from, href);
+  if (!file) warn(ctx, from, href, 'File not found in the project');
+  return file;
+};
+
+/** The file as a data URI; `content` overrides text files' content and skips the cache. */
+const toDataUri = async (ctx: BundleContext, file: File, content?: string): Promise<string> => {
+  const cached = content === undefined && ctx.dataUris.get(file.id);
+  if (cached) return cached;
+  let uri: string;
+  if (isBinaryFile(file)) {
+    const blob = file.blobHash ? await getBlob(file.blobHash) : null;
+    // Legacy projects may still hold binaries as data URLs
+    if (blob) uri = await blobToDataUrl(new Blob([blob], { type: guessMimeType(file.name) }));
+    else if (file.content.startsWith('data:')) uri = file.content;
+    else throw new Error(`The contents of ${pathOf(ctx, file)} are missing.`);
+  } else {
+    const type = file.language === 'javascript' ? 'text/javascript' : guessMimeType(file.name);
+    uri = await blobToDataUrl(new Blob([content ?? file.content], { type }));
+  }
+  if (content === undefined) ctx.dataUris.set(file.id, uri);
+  return uri;
+};
+
+/** A reference replaced by its file's data URI, or kept as is when it cannot be. */
+const inlineUrl = async (ctx: BundleContext, from: File, href: string): Promise<string> => {
+  if (!href.trim() || isExternalRef(href)) return href;
+  const file = resolve(ctx, from, href);
+  return file ? toDataUri(ctx, file) : href;
+};
+
+/**
+ * CSS with imports expanded in place and url() references as data URIs.
+ * `importing` holds the ids of the stylesheets that led here.
+ */
+const inlineCss = async (ctx: BundleContext, css: string, from: File, importing: string[] = []): Promise<string> => {
+  const chain = [...importing, from.id];
+  return replaceAsync(css, CSS_REFERENCE, async (match, _q1, importUrl, _q2, importString, media, _q3, url) => {
+    if (url !== undefined) {
+      if (isExternalRef(url)) return match;
+      const file = resolve(ctx, from, url);
+      // Base64 data URIs need no quotes, which keeps them safe inside style attributes
+      return file ? `url(${await toDataUri(ctx, file)})` : match;
+    }
+
+    const href = importUrl ?? importString;
+    if (isExternalRef(href)) return match;
+    const file = resolve(ctx, from, href);
+    if (!file) return match;
+    if (chain.includes(file.id)) {
+      warn(ctx, from, href, 'Circular @import skipped');
+      return '';
+    }
+    const body = `/* Imported from ${pathOf(ctx, file)} */\n${await inlineCss(ctx, file.content, file, chain)}`;
+    return media.trim() ? `@media ${media.trim()} {\n${body}\n}` : body;
+  });
+};
+
+/**
+ * Module code whose relative imports point at data URI modules, built depth
+ * first. Data URI modules cannot resolve relative specifiers themselves, so
+ * the whole import graph is rewritten.
+ */
+const inlineModule = async (ctx: BundleContext, code: string, from: File, importing: string[] = []): Promise<string> => {
+  const chain = [...importing, from.id];
+  return replaceAsync(code, MODULE_SPECIFIER, async (match, prefix, quote, specifier) => {
+    if (!isRelativeSpecifier(specifier)) {
+      if (!isExternalRef(specifier)) warn(ctx, from, specifier, 'Bare module specifiers need an import map or a bundler');
+      return match;
+    }
+    const file = resolve(ctx, from, specifier);
+    if (!file) return match;
+    if (file.language !== 'javascript') {
+      warn(ctx, from, specifier, 'Only JavaScript modules can be inlined');
+      return match;
+    }
+    if (chain.includes(file.id)) {
+      warn(ctx, from, specifier, 'Circular import cannot be inlined');
+      return match;
+    }
+    const source = await inlineModule(ctx, file.content, file, chain);
+    return `${prefix}${quote}${await toDataUri(ctx, file, source)}${quote}`;
+  });
+};
+
+const bundleHtml = async (ctx: BundleContext, entry: File): Promise<string> => {
+  let html = entry.content;
+
+  // Inline CSS first, so stylesheets inlined below are not processed twice
+  html = await replaceAsync(html, /(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, async (_match, open, css, close) =>
+    `${open}${escapeInlineCode(await inlineCss(ctx, css, entry), 'style')}${close}`);
+
+  html = await replaceAsync(html, /(\sstyle\s*=\s*)("[^"]*"|'[^']*')/gi, async (match, prefix, value: string) => {
+    if (!/url\(/i.test(value)) return match;
+    const quote = value[0];
+    const css = await inlineCss(ctx, value.slice(1, -1).replace(/&quot;/g, '"').replace(/&#39;/g, "'"), entry);
+    return `${prefix}${quote}${quote === '"' ? css.replace(/"/g, '&quot;') : css.replace(/'/g, '&#39;')}${quote}`;
+  });
+
+  html = await replaceAsync(html, /<link\b[^>]*>/gi, async (tag) => {
+    const rel = getAttribute(tag, 'rel') || '';
+    const href = getAttribute(tag, 'href') || '';
+    if (!href || isExternalRef(href)) return tag;
+    if (/\bstylesheet\b/i.test(rel)) {
+      const cssFile = resolve(ctx, entry, href);
+      if (!cssFile) return tag;
+      const media = getAttribute(tag, 'media');
+      const css = await inlineCss(ctx, cssFile.content, cssFile);
+      return `\n<style${media ? ` media="${media}"` : ''}>\n/* Injected from ${pathOf(ctx, cssFile)} */\n${escapeInlineCode(css, 'style')}\n</style>\n`;
+    }
+    if (ICON_RELS.test(rel)) return setAttribute(tag, 'href', await inlineUrl(ctx, entry, href));
+    if (PRELOAD_RELS.test(rel)) return '';
+    warn(ctx, entry, href, `<link rel="${rel}"> is not inlined`);
+    return tag;
+  });
+
+  html = await replaceAsync(html, MEDIA_TAGS, async (tag) => {
+    let result = tag;
+    for (const name of MEDIA_ATTRIBUTES) {
+      const value = getAttribute(result, name);
+      if (value) result = setAttribute(result, name, await inlineUrl(ctx, entry, value));
+    }
+    const srcset = getAttribute(result, 'srcset');
+    if (srcset) {
+      const candidates: string[] = [];
+      for (const candidate of srcset.split(',')) {
+        const [url, ...descriptor] = candidate.trim().split(/\s+/);
+        candidates.push([await inlineUrl(ctx, entry, url), ...descriptor].join(' '));
+      }
+      result = setAttribute(result, 'srcset', candidates.join(', '));
+    }
+    return result;
+  });
+
+  for (const tag of html.match(/<iframe\b[^>]*>/gi) || []) {
+    const src = getAttribute(tag, 'src');
+    if (src && !isExternalRef(src)) warn(ctx, entry, src, 'Frames are not inlined');
+  }
+
+  // Scripts last, so the passes above never touch inlined code
+  return replaceAsync(html, /(<script\b[^>]*>)([\s\S]*?)<\/script>/gi, async (match, openTag: string, body: string) => {
+    const src = getAttribute(openTag, 'src');
+    const isModule = /^module$/i.test(getAttribute(openTag, 'type') || '');
+    if (!src) {
+      return isModule ? `${openTag}${escapeInlineCode(await inlineModule(ctx, body, entry), 'script')}</script>` : match;
+    }
+    if (isExternalRef(src)) return match;
+    const jsFile = resolve(ctx, entry, src);
+    if (!jsFile) return match;
+
+    const code = isModule ? await inlineModule(ctx, jsFile.content, jsFile) : jsFile.content;
+    // Inline classic scripts run at once, so deferred and async ones keep a data URI src to keep their timing
+    if (!isModule && (hasAttribute(openTag, 'defer') || hasAttribute(openTag, 'async'))) {
+      return `${setAttribute(openTag, 'src', await toDataUri(ctx, jsFile, code))}</script>`;
+    }
+    return `${removeAttribute(openTag, 'src')}\n/* Injected from ${pathOf(ctx, jsFile)} */\n${escapeInlineCode(code, 'script')}\n</script>`;
+  });
+};
+
+/** Bundles the project's entry page into one self-contained HTML document. */
+export const bundleSingleFile = async (project: Project): Promise<BundleResult> => {
+  const entry = findIndexFile(project.files);
+  if (!entry || !entry.name.endsWith('.html')) throw new Error("Project must contain 'index.html' for Single File conversion.");
+  const ctx: BundleContext = { project, warnings: [], dataUris: new Map() };
+  const html = await bundleHtml(ctx, entry);
+  return { html, warnings: ctx.warnings };
+};
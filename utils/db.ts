@@ -0,0 +1,71 @@
+const DB_NAME = 'buildora';
+const DB_VERSION = 4;
+
+export const STORES = {
+  projects: 'projects',
+  files: 'files',
+  blobs: 'blobs',
+  snapshots: 'snapshots',
+  keystores: 'keystores',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    // Project metadata only, files live in their own store
+    db.createObjectStore(STORES.projects, { keyPath: 'id' });
+    const files = db.createObjectStore(STORES.files, { keyPath: ['projectId', 'id'] });
+    files.createIndex('projectId', 'projectId', { unique: false });
+  }
+  if (oldVersion < 2) {
+    // Binary assets keyed by the SHA-256 of their bytes
+    db.createObjectStore(STORES.blobs, { keyPath: 'hash' });
+  }
+  if (oldVersion < 3) {
+    const snapshots = db.createObjectStore(STORES.snapshots, { keyPath: 'id' });
+    snapshots.createIndex('projectId', 'projectId', { unique: false });
+  }
+  if (oldVersion < 4) {
+    // APK signing keys, private keys encrypted with the user's passphrase
+    db.createObjectStore(STORES.keystores, { keyPath: 'alias' });
+  }
+};
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
+
+export const clearDatabase = async () => {
+  const db = await openDB();
+  const storeNames = Array.from(db.objectStoreNames);
+  const tx = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(name => tx.objectStore(name).clear());
+  await transactionDone(tx);
+};
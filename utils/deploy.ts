@@ -0,0 +1,287 @@
+/**
+ * Static hosting presets: the config files each host reads from the site
+ * root, and a pre-flight checklist of problems that break a deployed site
+ * but go unnoticed in the preview.
+ */
+import { File, Project } from '../types';
+import { buildPathIndex, findIndexFile, getFilePath, isExternalRef, resolvePath, resolveHref, dirname } from './paths';
+import { getAttribute } from './html';
+import { CSS_REFERENCE } from './bundler';
+
+export type DeployTarget = 'github-pages' | 'netlify' | 'vercel' | 'apache' | 'nginx';
+
+export interface DeployOptions {
+  spaFallback: boolean; // Serve index.html for unknown paths so client-side routes load
+  basePath: string; // URL path the site is served from, such as /repo/ for a GitHub Pages project site
+}
+
+/** A generated file, replacing any project file at the same path. */
+export interface DeployFile {
+  path: string;
+  data: string;
+}
+
+export interface DeployIssue {
+  severity: 'error' | 'warning';
+  file?: string; // Project path of the file holding the problem
+  message: string;
+}
+
+export const DEPLOY_TARGETS: Record<DeployTarget, { label: string; description: string; runsPhp: boolean }> = {
+  'github-pages': { label: 'GitHub Pages', description: 'Push the folder to a repository and enable Pages on its branch', runsPhp: false },
+  netlify: { label: 'Netlify', description: 'Drag the folder onto Netlify Drop or connect the repository', runsPhp: false },
+  vercel: { label: 'Vercel', description: 'Run `vercel` in the folder or import the repository', runsPhp: false },
+  apache: { label: 'Apache', description: 'Upload to the document root or the site path below; .htaccess needs AllowOverride All', runsPhp: true },
+  nginx: { label: 'Nginx', description: 'Upload the files and include nginx.conf in your server config', runsPhp: true }
+};
+
+const NOT_FOUND_PAGE = '404.html';
+// Attributes whose value is fetched or navigated to
+const URL_ATTRIBUTES = ['src', 'href', 'poster', 'data', 'action'];
+
+// Windows drive or file: URL, as copied from a local editor
+const DEVICE_PATH = /^(?:[a-z]:[\\/]|file:)/i;
+
+const hasPhp = (project: Project) => project.files.some(f => !f.isDirectory && f.name.endsWith('.php'));
+
+/** The site path with a leading and trailing slash, `/` for the domain root. */
+const toBasePath = (path: string) => {
+  const segments = path.trim().split('/').filter(Boolean);
+  return segments.length ? `/${segments.join('/')}/` : '/';
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+/** The page with a `<base>`, since hosts serve 404.html at the depth of the unknown path. */
+const withBase = (html: string, basePath: string) => {
+  if (/<base\b/i.test(html)) return html;
+  const tag = `<base href="${escapeAttribute(basePath)}">`;
+  if (/<head\b[^>]*>/i.test(html)) return html.replace(/<head\b[^>]*>/i, match => match + tag);
+  if (/<html\b[^>]*>/i.test(html)) return html.replace(/<html\b[^>]*>/i, match => match + tag);
+  return html.replace(/^(\s*<!doctype[^>]*>)?/i, match => match + tag);
+};
+
+const createNotFoundPage = (title: string, basePath: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Page not found - ${title.replace(/</g, '&lt;')}</title>
+<style>
+  body { font-family: system-ui, sans-serif; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; color: #374151; }
+  main { text-align: center; }
+  a { color: #2563eb; }
+</style>
+</head>
+<body>
+<main>
+  <h1>404</h1>
+  <p>This page does not exist.</p>
+  <p><a href="${escapeAttribute(basePath)}">Back to the home page</a></p>
+</main>
+</body>
+</html>
+`;
+
+const createNetlifyToml = () => `[build]
+  publish = "."
+
+[[headers]]
+  for = "/*"
+  [headers.values]
+    X-Content-Type-Options = "nosniff"
+    Referrer-Policy = "strict-origin-when-cross-origin"
+`;
+
+const createVercelJson = (options: DeployOptions, indexName: string) => JSON.stringify({
+  cleanUrls: false,
+  trailingSlash: false,
+  ...(options.spaFallback && { rewrites: [{ source: '/(.*)', destination: `/${indexName}` }] }),
+  headers: [{
+    source: '/(.*)',
+    headers: [
+      { key: 'X-Content-Type-Options', value: 'nosniff' },
+      { key: 'Referrer-Policy', value: 'strict-origin-when-cross-origin' }
+    ]
+  }]
+}, null, 2);
+
+const createHtaccess = (options: DeployOptions, php: boolean, indexName: string, basePath: string) => `# Generated by Buildora
+DirectoryIndex ${php ? 'index.php index.html' : 'index.html'}
+Options -Indexes
+AddDefaultCharset UTF-8
+${options.spaFallback ? '' : `# ErrorDocument takes a URL path, so it includes the site path set at export
+ErrorDocument 404 ${basePath}${NOT_FOUND_PAGE}\n`}
+<IfModule mod_rewrite.c>
+  RewriteEngine On
+  # Hide dotfiles such as .git
+  RewriteRule "(^|/)\\.(?!well-known/)" - [F]
+${options.spaFallback ? `  # Unknown paths load the app, which routes them itself
+  RewriteCond %{REQUEST_FILENAME} !-f
+  RewriteCond %{REQUEST_FILENAME} !-d
+  RewriteRule ^ ${indexName} [L]
+` : ''}</IfModule>
+
+<IfModule mod_deflate.c>
+  AddOutputFilterByType DEFLATE text/html text/css text/javascript application/javascript application/json image/svg+xml
+</IfModule>
+
+<IfModule mod_headers.c>
+  Header set X-Content-Type-Options "nosniff"
+</IfModule>
+`;
+
+const createNginxConf = (options: DeployOptions, php: boolean, siteName: string, indexName: string) => `# Generated by Buildora
+# Include this server block from nginx.conf or copy it to sites-available/.
+server {
+    listen 80;
+    server_name example.com;
+    root /var/www/${siteName};
+    index ${php ? 'index.php index.html' : 'index.html'};
+    charset utf-8;
+
+    error_page 404 /${NOT_FOUND_PAGE};
+
+    location / {
+        try_files $uri $uri/ ${options.spaFallback ? `/${indexName}${indexName.endsWith('.php') ? '?$query_string' : ''}` : '=404'};
+    }
+
+    # Hide dotfiles such as .git
+    location ~ /\\.(?!well-known/) {
+        deny all;
+    }
+${php ? `
+    location ~ \\.php$ {
+        try_files $uri =404;
+        include fastcgi_params;
+        fastcgi_param SCRIPT_FILENAME $document_root$fastcgi_script_name;
+        # Match the socket of your PHP-FPM version
+        fastcgi_pass unix:/run/php/php-fpm.sock;
+    }
+` : ''}
+    gzip on;
+    gzip_types text/css text/javascript application/javascript application/json image/svg+xml;
+    add_header X-Content-Type-Options nosniff;
+}
+`;
+
+/** Local references of a file: HTML attributes, srcsets and CSS url()/@import. */
+const collectReferences = (file: File): string[] => {
+  const refs: string[] = [];
+  const addCss = (css: string) => {
+    for (const match of css.matchAll(CSS_REFERENCE)) refs.push(match[7] ?? match[2] ?? match[4]);
+  };
+  if (file.language === 'css') {
+    addCss(file.content);
+  } else if (file.language === 'html' || file.language === 'php') {
+    for (const [tag] of file.content.matchAll(/<[a-z][^>]*>/gi)) {
+      for (const name of URL_ATTRIBUTES) {
+        const value = getAttribute(tag, name);
+        if (value) refs.push(value);
+      }
+      const srcset = getAttribute(tag, 'srcset');
+      if (srcset) refs.push(...srcset.split(',').map(candidate => candidate.trim().split(/\s+/)[0]));
+      const style = getAttribute(tag, 'style');
+      if (style) addCss(style);
+    }
+    for (const [, css] of file.content.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi)) addCss(css);
+  }
+  // Server-side code builds URLs the checklist cannot follow
+  return refs.filter(ref => ref.trim() && (!isExternalRef(ref) || DEVICE_PATH.test(ref)) && !ref.includes('<?'));
+};
+
+/** Problems to fix before uploading the project to `target`. */
+export const checkDeployment = (project: Project, target: DeployTarget): DeployIssue[] => {
+  const issues: DeployIssue[] = [];
+  const { label, runsPhp } = DEPLOY_TARGETS[target];
+
+  const index = findIndexFile(project.files);
+  if (!index) {
+    issues.push({ severity: 'error', message: 'No index.html or index.php: the site root would show an error page.' });
+  } else {
+    const indexPath = getFilePath(project.files, index);
+    if (dirname(indexPath)) issues.push({ severity: 'warning', file: indexPath, message: 'The entry page is not at the project root, so the site root has no page.' });
+    if (!runsPhp && index.name.endsWith('.php')) issues.push({ severity: 'error', file: indexPath, message: `${label} serves static files only and cannot run the PHP entry page.` });
+  }
+
+  const paths = buildPathIndex(project.files);
+  const lowerCasePaths = new Map(Array.from(paths.keys(), path => [path.toLowerCase(), path]));
+  for (const [path, file] of paths) {
+    if (file.isDirectory) continue;
+    if (!runsPhp && path.endsWith('.php') && file !== index) {
+      issues.push({ severity: 'warning', file: path, message: `PHP does not run on ${label}; the file will be served as plain text or not at all.` });
+    }
+
+    const reported = new Set<string>();
+    for (const ref of collectReferences(file)) {
+      if (reported.has(ref)) continue;
+      reported.add(ref);
+      if (DEVICE_PATH.test(ref)) {
+        issues.push({ severity: 'error', file: path, message: `"${ref}" points at a file on this device.` });
+        continue;
+      }
+      if (ref.trim().startsWith('/')) {
+        issues.push({ severity: 'warning', file: path, message: `"${ref}" is an absolute path; it breaks when the site is served from a subfolder, as GitHub Pages project sites are.` });
+      }
+      if (!resolvePath(project, file, ref)) {
+        const caseMatch = lowerCasePaths.get(resolveHref(path, ref).toLowerCase());
+        issues.push({
+          severity: 'warning',
+          file: path,
+          message: caseMatch
+            ? `"${ref}" differs from "${caseMatch}" only in case; web servers treat them as different files.`
+            : `"${ref}" does not match any file in the project.`
+        });
+      }
+    }
+  }
+  return issues;
+};
+
+/** Host config files to add at the site root. */
+export const createDeployFiles = (project: Project, target: DeployTarget, options: DeployOptions): DeployFile[] => {
+  const files: DeployFile[] = [];
+  const paths = buildPathIndex(project.files);
+  const index = findIndexFile(project.files);
+  const indexName = index ? getFilePath(project.files, index) : 'index.html';
+  const php = hasPhp(project);
+  const siteName = project.name.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-|-$/g, '') || 'site';
+  const basePath = toBasePath(options.basePath);
+
+  // Hosts serve 404.html for unknown paths; a copy of the app lets client-side routes load there
+  const notFound = (): DeployFile[] => {
+    if (paths.has(NOT_FOUND_PAGE)) return [];
+    if (options.spaFallback && index && index.name.endsWith('.html')) {
+      // Relative URLs of the copy would resolve against the unknown path, so they are based at the entry page's folder
+      const folder = dirname(indexName);
+      return [{ path: NOT_FOUND_PAGE, data: withBase(index.content, folder ? `${basePath}${folder}/` : basePath) }];
+    }
+    return [{ path: NOT_FOUND_PAGE, data: createNotFoundPage(project.name, basePath) }];
+  };
+
+  switch (target) {
+    case 'github-pages':
+      // Without it Jekyll drops files and folders starting with an underscore
+      files.push({ path: '.nojekyll', data: '' });
+      files.push(...notFound());
+      break;
+    case 'netlify':
+      files.push({ path: 'netlify.toml', data: createNetlifyToml() });
+      files.push({ path: '_redirects', data: options.spaFallback ? `/*    /${indexName}    200\n` : `/*    /${NOT_FOUND_PAGE}    404\n` });
+      if (!options.spaFallback) files.push(...notFound());
+      break;
+    case 'vercel':
+      files.push({ path: 'vercel.json', data: createVercelJson(options, indexName) });
+      if (!options.spaFallback) files.push(...notFound());
+      break;
+    case 'apache':
+      files.push({ path: '.htaccess', data: createHtaccess(options, php, indexName, basePath) });
+      if (!options.spaFallback) files.push(...notFound());
+      break;
+    case 'nginx':
+      files.push({ path: 'nginx.conf', data: createNginxConf(options, php, siteName, indexName) });
+      if (!options.spaFallback) files.push(...notFound());
+      break;
+  }
+  return files;
+};
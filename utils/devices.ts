@@ -0,0 +1,79 @@
+export interface DevicePreset {
+  id: string;
+  name: string;
+  category: 'phone' | 'tablet' | 'desktop';
+  width: number;
+  height: number;
+  dpr: number;
+  touch: boolean;
+  userAgent?: string; // Left unset to keep the browser's own user agent
+}
+
+export interface Viewport {
+  presetId: string; // A preset id, 'responsive' (fill the pane) or 'custom'
+  width: number;
+  height: number;
+  dpr: number;
+  landscape: boolean;
+  touch: boolean;
+  userAgent?: string;
+}
+
+/** Hints the preview runtime applies inside the frame (see previewRuntime.ts). */
+export interface EmulationHints {
+  userAgent?: string;
+  touch: boolean;
+  dpr: number;
+}
+
+const IOS_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IPAD_UA = 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const ANDROID_UA = 'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+const ANDROID_TABLET_UA = 'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'iphone-se', name: 'iPhone SE', category: 'phone', width: 375, height: 667, dpr: 2, touch: true, userAgent: IOS_UA },
+  { id: 'iphone-15', name: 'iPhone 15', category: 'phone', width: 393, height: 852, dpr: 3, touch: true, userAgent: IOS_UA },
+  { id: 'pixel-7', name: 'Pixel 7', category: 'phone', width: 412, height: 915, dpr: 2.625, touch: true, userAgent: ANDROID_UA },
+  { id: 'galaxy-s20', name: 'Galaxy S20', category: 'phone', width: 360, height: 800, dpr: 3, touch: true, userAgent: ANDROID_UA },
+  { id: 'ipad-mini', name: 'iPad Mini', category: 'tablet', width: 768, height: 1024, dpr: 2, touch: true, userAgent: IPAD_UA },
+  { id: 'ipad-pro', name: 'iPad Pro 11"', category: 'tablet', width: 834, height: 1194, dpr: 2, touch: true, userAgent: IPAD_UA },
+  { id: 'galaxy-tab', name: 'Galaxy Tab S8', category: 'tablet', width: 800, height: 1280, dpr: 2, touch: true, userAgent: ANDROID_TABLET_UA },
+  { id: 'laptop', name: 'Laptop', category: 'desktop', width: 1366, height: 768, dpr: 1, touch: false },
+  { id: 'desktop', name: 'Desktop', category: 'desktop', width: 1920, height: 1080, dpr: 1, touch: false },
+];
+
+// Shown side by side in multi-viewport mode until the user picks others
+export const DEFAULT_MULTI_VIEWPORTS = ['iphone-15', 'ipad-mini', 'laptop'];
+
+export const RESPONSIVE_VIEWPORT: Viewport = {
+  presetId: 'responsive', width: 0, height: 0, dpr: 1, landscape: false, touch: false
+};
+
+export const getPreset = (id: string) => DEVICE_PRESETS.find(p => p.id === id);
+
+export const viewportFromPreset = (preset: DevicePreset, landscape = false): Viewport => ({
+  presetId: preset.id,
+  width: preset.width,
+  height: preset.height,
+  dpr: preset.dpr,
+  landscape,
+  touch: preset.touch,
+  userAgent: preset.userAgent
+});
+
+/** Rendered CSS size of a viewport, with orientation applied. */
+export const getViewportSize = (viewport: Viewport) => {
+  return viewport.landscape
+    ? { width: viewport.height, height: viewport.width }
+    : { width: viewport.width, height: viewport.height };
+};
+
+const FRAME_NAME_PREFIX = 'buildora:';
+
+/** Frame name carrying emulation hints; window.name survives navigations inside the frame. */
+export const getFrameName = (viewport: Viewport) => {
+  if (viewport.presetId === 'responsive') return '';
+  const hints: EmulationHints = { userAgent: viewport.userAgent, touch: viewport.touch, dpr: viewport.dpr };
+  return FRAME_NAME_PREFIX + JSON.stringify(hints);
+};
@@ -0,0 +1,72 @@
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+// Above this many cells the LCS table gets too large for a phone
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Line-based diff using the longest common subsequence of the two texts. */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Trim the common prefix and suffix, which is most of the file for typical edits
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    midA.forEach((text, i) => result.push({ type: 'remove', text, oldLine: start + i + 1 }));
+    midB.forEach((text, j) => result.push({ type: 'add', text, newLine: start + j + 1 }));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        result.push({ type: 'equal', text: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+        result.push({ type: 'remove', text: midA[i], oldLine: start + i + 1 });
+        i++;
+      } else {
+        result.push({ type: 'add', text: midB[j], newLine: start + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'equal', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+  }
+
+  return result;
+};
@@ -0,0 +1,147 @@
+/**
+ * Hands generated files to the user. Everything is local by default; the
+ * cloud upload is only for sharing a link and makes the file public.
+ */
+
+export type SaveMethod = 'download' | 'picker' | 'share' | 'cloud';
+
+export type SaveResult =
+  | { method: 'download'; url: string } // Object URL, revoke when done
+  | { method: 'picker' }
+  | { method: 'share'; file: File } // Pass to shareFile from a click, the share sheet needs the gesture
+  | { method: 'cloud'; url: string; host: string };
+
+// File System Access API, not yet part of TypeScript's DOM types
+type ShowSaveFilePicker = (options: {
+  suggestedName: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+const getSaveFilePicker = () => (window as Window & { showSaveFilePicker?: ShowSaveFilePicker }).showSaveFilePicker;
+
+const extensionOf = (name: string) => name.match(/\.[^.]+$/)?.[0] ?? '';
+
+export const canSaveWithPicker = () => typeof getSaveFilePicker() === 'function';
+
+export const canShareFile = (name: string, type: string) =>
+  typeof navigator.canShare === 'function' && navigator.canShare({ files: [new File([], name, { type })] });
+
+/** Starts a regular browser download and returns the object URL for "download again" links. */
+export const downloadBlob = (blob: Blob, name: string, keepUrl = false) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  if (!keepUrl) setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return url;
+};
+
+const isAbort = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+/**
+ * Lets the user pick where to save; resolves null when the dialog is dismissed.
+ * Browsers only open it during a click, so call it before any slow build work.
+ */
+export const pickSaveLocation = async (name: string, type: string): Promise<FileSystemFileHandle | null> => {
+  const showSaveFilePicker = getSaveFilePicker();
+  if (!showSaveFilePicker) throw new Error('This browser cannot save to a chosen folder.');
+  try {
+    return await showSaveFilePicker({
+      suggestedName: name,
+      types: [{ description: name, accept: { [type || 'application/octet-stream']: [extensionOf(name)] } }]
+    });
+  } catch (e) {
+    if (isAbort(e)) return null;
+    throw e;
+  }
+};
+
+const writeToHandle = async (handle: FileSystemFileHandle, blob: Blob) => {
+  const writable = await handle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+};
+
+/** Opens the system share sheet from a click; resolves false when the user dismisses it. */
+export const shareFile = async (file: File) => {
+  try {
+    await navigator.share({ files: [file], title: file.name });
+    return true;
+  } catch (e) {
+    if (isAbort(e)) return false;
+    throw e;
+  }
+};
+
+/**
+ * Uploads to a temporary public host and returns its download link, trying
+ * file.io, tmpfiles.org and transfer.sh in turn.
+ */
+export const uploadToCloud = async (blob: Blob, name: string, onProgress?: (message: string) => void): Promise<{ url: string; host: string }> => {
+  try {
+    onProgress?.('Uploading to file.io...');
+    const formData = new FormData();
+    formData.append('file', blob, name);
+    formData.append('expires', '1d');
+    formData.append('maxDownloads', '1');
+    const response = await fetch('https://file.io', { method: 'POST', body: formData });
+    if (response.ok) {
+      const data = await response.json();
+      if (data.success && data.link) return { url: data.link, host: 'file.io' };
+    }
+  } catch (e) {
+    console.warn("file.io upload failed, trying fallback...", e);
+  }
+
+  try {
+    onProgress?.('Uploading to tmpfiles.org...');
+    const formData = new FormData();
+    formData.append('file', blob, name);
+    const response = await fetch('https://tmpfiles.org/api/v1/upload', { method: 'POST', body: formData });
+    if (response.ok) {
+      const data = await response.json();
+      // The returned page URL becomes a direct download with /dl/
+      if (data?.data?.url) return { url: data.data.url.replace('tmpfiles.org/', 'tmpfiles.org/dl/'), host: 'tmpfiles.org' };
+    }
+  } catch (e) {
+    console.warn("tmpfiles.org upload failed, trying fallback...", e);
+  }
+
+  try {
+    onProgress?.('Uploading to transfer.sh...');
+    const response = await fetch(`https://transfer.sh/${encodeURIComponent(name)}`, { method: 'PUT', body: blob });
+    if (response.ok) {
+      const text = (await response.text()).trim();
+      if (text.startsWith('http')) return { url: text, host: 'transfer.sh' };
+    }
+  } catch (e) {
+    console.error("transfer.sh upload failed", e);
+  }
+
+  throw new Error("Failed to upload to cloud storage. Please check your internet connection.");
+};
+
+export interface SaveOptions {
+  handle?: FileSystemFileHandle; // From pickSaveLocation, required for 'picker'
+  onProgress?: (message: string) => void;
+}
+
+/** Saves a generated file the chosen way. */
+export const saveBlob = async (blob: Blob, name: string, method: SaveMethod, options: SaveOptions = {}): Promise<SaveResult> => {
+  switch (method) {
+    case 'download':
+      return { method, url: downloadBlob(blob, name, true) };
+    case 'picker':
+      if (!options.handle) throw new Error('Choose where to save the file first.');
+      await writeToHandle(options.handle, blob);
+      return { method };
+    case 'share': {
+      const file = new File([blob], name, { type: blob.type });
+      if (!navigator.canShare?.({ files: [file] })) throw new Error('This device cannot share files.');
+      return { method, file };
+    }
+    case 'cloud':
+      return { method, ...await uploadToCloud(blob, name, options.onProgress) };
+  }
+};
@@ -0,0 +1,275 @@
+import { Buffer } from 'buffer';
+import FS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+import JSZip from 'jszip';
+import { Project, File } from '../types';
+import { getFileBytes, isBinaryFile, putBlob, guessMimeType } from './blobStore';
+import { buildPathIndex, getLanguageFromName, dirname, basename } from './paths';
+
+declare global {
+  var Buffer: typeof import('buffer').Buffer | undefined;
+}
+
+// isomorphic-git expects Node's Buffer to exist globally
+if (!globalThis.Buffer) {
+  globalThis.Buffer = Buffer;
+}
+
+const FS_NAME = 'buildora-git';
+let fs = new FS(FS_NAME);
+
+export const DEFAULT_AUTHOR = { name: 'Buildora User', email: 'user@buildora.local' };
+
+export type ChangeKind = 'added' | 'modified' | 'deleted' | 'untracked';
+
+export interface FileStatus {
+  path: string;
+  staged: ChangeKind | null;
+  unstaged: ChangeKind | null;
+}
+
+export interface CommitEntry {
+  oid: string;
+  message: string;
+  author: string;
+  timestamp: number;
+}
+
+const repoDir = (projectId: string) => `/${projectId}`;
+
+const encoder = new TextEncoder();
+
+const exists = async (path: string) => {
+  try {
+    await fs.promises.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const mkdirp = async (path: string) => {
+  const parts = path.split('/').filter(Boolean);
+  let current = '';
+  for (const part of parts) {
+    current += `/${part}`;
+    if (!(await exists(current))) await fs.promises.mkdir(current);
+  }
+};
+
+const removeRecursive = async (path: string) => {
+  const stat = await fs.promises.stat(path);
+  if (stat.isDirectory()) {
+    const entries = await fs.promises.readdir(path);
+    for (const entry of entries) await removeRecursive(`${path}/${entry}`);
+    await fs.promises.rmdir(path);
+  } else {
+    await fs.promises.unlink(path);
+  }
+};
+
+/** Lists paths below `dir` relative to it, directories first. */
+const walk = async (dir: string, includeGitDir = false, prefix = ''): Promise<{ path: string; isDirectory: boolean }[]> => {
+  const result: { path: string; isDirectory: boolean }[] = [];
+  const entries = await fs.promises.readdir(dir);
+  for (const entry of entries) {
+    if (entry === '.git' && !prefix && !includeGitDir) continue;
+    const relPath = prefix ? `${prefix}/${entry}` : entry;
+    const stat = await fs.promises.stat(`${dir}/${entry}`);
+    if (stat.isDirectory()) {
+      result.push({ path: relPath, isDirectory: true });
+      result.push(...await walk(`${dir}/${entry}`, includeGitDir, relPath));
+    } else {
+      result.push({ path: relPath, isDirectory: false });
+    }
+  }
+  return result;
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+export const hasRepository = (projectId: string) => exists(`${repoDir(projectId)}/.git`);
+
+export const initRepository = async (projectId: string) => {
+  const dir = repoDir(projectId);
+  await mkdirp(dir);
+  await git.init({ fs, dir, defaultBranch: 'main' });
+};
+
+/** Mirrors `project.files` into the repository's working directory. */
+export const syncWorkdir = async (project: Project) => {
+  const dir = repoDir(project.id);
+  const pathMap = buildPathIndex(project.files);
+  const onDisk = await walk(dir);
+
+  // Remove what no longer exists in the project (deepest paths first)
+  for (const entry of [...onDisk].reverse()) {
+    const file = pathMap.get(entry.path);
+    if (!file || !!file.isDirectory !== entry.isDirectory) {
+      await removeRecursive(`${dir}/${entry.path}`);
+    }
+  }
+
+  for (const [path, file] of pathMap) {
+    const fullPath = `${dir}/${path}`;
+    if (file.isDirectory) {
+      await mkdirp(fullPath);
+      continue;
+    }
+    const bytes = isBinaryFile(file) ? await getFileBytes(file) : encoder.encode(file.content);
+    if (!bytes) continue;
+    if (await exists(fullPath)) {
+      const current = await fs.promises.readFile(fullPath) as Uint8Array;
+      if (bytesEqual(current, bytes)) continue;
+    }
+    await mkdirp(dirname(fullPath));
+    await fs.promises.writeFile(fullPath, bytes);
+  }
+};
+
+/**
+ * Rebuilds project files from the working directory, e.g. after a checkout.
+ * Files keep their IDs when their path did not change.
+ */
+export const readWorkdir = async (project: Project): Promise<File[]> => {
+  const dir = repoDir(project.id);
+  const existing = buildPathIndex(project.files);
+  const idsByPath = new Map<string, string>();
+  const files: File[] = [];
+
+  for (const entry of await walk(dir)) {
+    const name = basename(entry.path);
+    const parentPath = dirname(entry.path);
+    const id = existing.get(entry.path)?.id || Date.now().toString() + Math.random().toString().slice(2);
+    idsByPath.set(entry.path, id);
+    const parentId = parentPath ? idsByPath.get(parentPath) || 'root' : 'root';
+
+    if (entry.isDirectory) {
+      files.push({ id, name, content: '', language: 'html', parentId, isDirectory: true });
+      continue;
+    }
+
+    const language = getLanguageFromName(name);
+    const bytes = await fs.promises.readFile(`${dir}/${entry.path}`) as Uint8Array;
+    if (language === 'image' || language === 'font') {
+      const blobHash = await putBlob(bytes, guessMimeType(name));
+      files.push({ id, name, content: '', language, parentId, isDirectory: false, blobHash });
+    } else {
+      files.push({ id, name, content: new TextDecoder().decode(bytes), language, parentId, isDirectory: false });
+    }
+  }
+
+  return files;
+};
+
+const toChange = (head: number, other: number): ChangeKind => {
+  if (head === 0) return 'added';
+  if (other === 0) return 'deleted';
+  return 'modified';
+};
+
+export const getStatus = async (project: Project): Promise<FileStatus[]> => {
+  await syncWorkdir(project);
+  const matrix = await git.statusMatrix({ fs, dir: repoDir(project.id) });
+
+  return matrix
+    .map(([path, head, workdir, stage]) => {
+      let staged: ChangeKind | null = null;
+      let unstaged: ChangeKind | null = null;
+
+      // stage: 0 absent, 1 same as HEAD, 2 same as workdir, 3 differs from both
+      if (stage !== 1 && !(head === 0 && stage === 0)) {
+        staged = toChange(head, stage);
+      }
+      if (workdir === 0 && stage !== 0) unstaged = 'deleted';
+      else if (workdir === 2 && stage !== 2) unstaged = head === 0 && stage === 0 ? 'untracked' : 'modified';
+      else if (workdir === 1 && stage === 3) unstaged = 'modified';
+
+      return { path: path as string, staged, unstaged };
+    })
+    .filter(s => s.staged || s.unstaged);
+};
+
+export const stageFile = async (project: Project, path: string) => {
+  const dir = repoDir(project.id);
+  if (await exists(`${dir}/${path}`)) {
+    await git.add({ fs, dir, filepath: path });
+  } else {
+    await git.remove({ fs, dir, filepath: path });
+  }
+};
+
+export const unstageFile = async (project: Project, path: string) => {
+  await git.resetIndex({ fs, dir: repoDir(project.id), filepath: path });
+};
+
+export const stageAll = async (project: Project) => {
+  const status = await getStatus(project);
+  for (const s of status.filter(s => s.unstaged)) await stageFile(project, s.path);
+};
+
+export const commit = async (project: Project, message: string, author = DEFAULT_AUTHOR) => {
+  return git.commit({ fs, dir: repoDir(project.id), message, author });
+};
+
+export const getLog = async (projectId: string, depth = 50): Promise<CommitEntry[]> => {
+  try {
+    const commits = await git.log({ fs, dir: repoDir(projectId), depth });
+    return commits.map(c => ({
+      oid: c.oid,
+      message: c.commit.message,
+      author: c.commit.author.name,
+      timestamp: c.commit.author.timestamp * 1000
+    }));
+  } catch (e: any) {
+    // A fresh repository has no commits and therefore no HEAD to walk
+    if (e?.code === 'NotFoundError') return [];
+    throw e;
+  }
+};
+
+export const listBranches = (projectId: string) => git.listBranches({ fs, dir: repoDir(projectId) });
+
+export const getCurrentBranch = async (projectId: string) => {
+  return (await git.currentBranch({ fs, dir: repoDir(projectId) })) || 'HEAD';
+};
+
+export const createBranch = async (projectId: string, name: string) => {
+  await git.branch({ fs, dir: repoDir(projectId), ref: name });
+};
+
+/** Switches branches and returns the files of the checked-out tree. */
+export const checkoutBranch = async (project: Project, branch: string): Promise<File[]> => {
+  await syncWorkdir(project);
+  await git.checkout({ fs, dir: repoDir(project.id), ref: branch });
+  return readWorkdir(project);
+};
+
+/** Adds the repository's `.git` directory to a ZIP folder. */
+export const addGitDirToZip = async (projectId: string, zipFolder: JSZip) => {
+  const gitDir = `${repoDir(projectId)}/.git`;
+  const target = zipFolder.folder('.git');
+  if (!target) throw new Error("Could not create .git folder in ZIP");
+
+  for (const entry of await walk(gitDir, true)) {
+    if (entry.isDirectory) {
+      target.folder(entry.path);
+    } else {
+      const bytes = await fs.promises.readFile(`${gitDir}/${entry.path}`) as Uint8Array;
+      target.file(entry.path, bytes, { binary: true });
+    }
+  }
+};
+
+export const deleteRepository = async (projectId: string) => {
+  const dir = repoDir(projectId);
+  if (await exists(dir)) await removeRecursive(dir);
+};
+
+export const wipeRepositories = () => {
+  fs = new FS(FS_NAME, { wipe: true });
+};
@@ -0,0 +1,90 @@
+import { Project, File, Snapshot } from '../types';
+import { openDB, promisifyRequest, transactionDone, STORES } from './db';
+
+// Automatic snapshots beyond this count are pruned, manual ones are kept
+const MAX_AUTO_SNAPSHOTS = 50;
+
+export const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+export type FileChange = 'added' | 'removed' | 'modified';
+
+const isSameFile = (a: File, b: File) =>
+  a.name === b.name && a.content === b.content && a.blobHash === b.blobHash && a.parentId === b.parentId;
+
+/** Compares two file lists by id and reports what changed from `before` to `after`. */
+export const compareFiles = (before: File[], after: File[]): { file: File; change: FileChange }[] => {
+  const beforeById = new Map(before.map(f => [f.id, f]));
+  const afterIds = new Set(after.map(f => f.id));
+  const changes: { file: File; change: FileChange }[] = [];
+
+  after.forEach(f => {
+    const previous = beforeById.get(f.id);
+    if (!previous) changes.push({ file: f, change: 'added' });
+    else if (!isSameFile(previous, f)) changes.push({ file: f, change: 'modified' });
+  });
+  before.forEach(f => {
+    if (!afterIds.has(f.id)) changes.push({ file: f, change: 'removed' });
+  });
+
+  return changes.filter(c => !c.file.isDirectory || c.change !== 'modified');
+};
+
+export const listSnapshots = async (projectId: string): Promise<Snapshot[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.snapshots, 'readonly');
+  const snapshots = await promisifyRequest<Snapshot[]>(
+    tx.objectStore(STORES.snapshots).index('projectId').getAll(projectId)
+  );
+  return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+const pruneSnapshots = async (projectId: string) => {
+  const autoSnapshots = (await listSnapshots(projectId)).filter(s => s.reason === 'auto');
+  if (autoSnapshots.length <= MAX_AUTO_SNAPSHOTS) return;
+
+  const db = await openDB();
+  const tx = db.transaction(STORES.snapshots, 'readwrite');
+  const store = tx.objectStore(STORES.snapshots);
+  autoSnapshots.slice(MAX_AUTO_SNAPSHOTS).forEach(s => store.delete(s.id));
+  await transactionDone(tx);
+};
+
+/**
+ * Records the project's current files. Returns null when nothing changed
+ * since the latest snapshot, so callers can snapshot freely.
+ */
+export const createSnapshot = async (
+  project: Project,
+  reason: Snapshot['reason'],
+  label: string
+): Promise<Snapshot | null> => {
+  const [latest] = await listSnapshots(project.id);
+  const changes = compareFiles(latest ? latest.files : [], project.files);
+  if (latest && changes.length === 0) return null;
+
+  const snapshot: Snapshot = {
+    id: Date.now().toString() + Math.random().toString().slice(2, 8),
+    projectId: project.id,
+    timestamp: Date.now(),
+    reason,
+    label,
+    // Binary files only carry their blobHash, so snapshots stay small
+    files: project.files.map(f => ({ ...f, isOpen: undefined })),
+    changedFiles: changes.filter(c => !c.file.isDirectory).map(c => c.file.name)
+  };
+
+  const db = await openDB();
+  const tx = db.transaction(STORES.snapshots, 'readwrite');
+  tx.objectStore(STORES.snapshots).put(snapshot);
+  await transactionDone(tx);
+
+  if (reason === 'auto') await pruneSnapshots(project.id);
+  return snapshot;
+};
+
+export const deleteSnapshot = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.snapshots, 'readwrite');
+  tx.objectStore(STORES.snapshots).delete(id);
+  await transactionDone(tx);
+};
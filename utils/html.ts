@@ -0,0 +1,25 @@
+/** Reads an attribute from a single HTML start tag string, e.g. `<link href="a.css">`. */
+export const getAttribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  if (!match) return null;
+  return match[1] ?? match[2] ?? match[3] ?? '';
+};
+
+export const hasAttribute = (tag: string, name: string) => new RegExp(`\\s${name}(?=[\\s=>/])`, 'i').test(tag);
+
+export const removeAttribute = (tag: string, name: string) => {
+  return tag.replace(new RegExp(`\\s${name}(\\s*=\\s*("[^"]*"|'[^']*'|[^\\s>]+))?(?=[\\s>/])`, 'i'), '');
+};
+
+/** Sets an attribute on a single start tag string, adding it before the closing `>` if missing. */
+export const setAttribute = (tag: string, name: string, value: string) => {
+  const attribute = `${name}="${value.replace(/"/g, '&quot;')}"`;
+  const existing = new RegExp(`(\\s)${name}(\\s*=\\s*("[^"]*"|'[^']*'|[^\\s>]+))?(?=[\\s>/])`, 'i');
+  if (existing.test(tag)) return tag.replace(existing, (_match, space) => space + attribute);
+  return tag.replace(/\s*(\/?>)$/, ` ${attribute}$1`);
+};
+
+/** Prevents inlined code from closing the surrounding `<script>`/`<style>` element early. */
+export const escapeInlineCode = (code: string, tagName: 'script' | 'style') => {
+  return code.replace(new RegExp(`</(${tagName})`, 'gi'), '<\\/$1');
+};
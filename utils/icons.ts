@@ -0,0 +1,204 @@
+/**
+ * Launcher icons, PWA icons and splash screens rendered with canvas from the
+ * single icon and splash images of a build config.
+ *
+ * Icons follow the adaptive icon layout: 108dp layers of which launchers show
+ * the middle 72dp through a mask of their choosing, with the artwork kept in
+ * the 66dp safe zone so no mask cuts it off.
+ */
+import JSZip from 'jszip';
+import { BuildConfig } from '../types';
+import { dataUrlToBlob } from './blobStore';
+
+export type IconVariant = 'legacy' | 'round' | 'foreground' | 'background';
+export type MaskShape = 'circle' | 'squircle' | 'rounded' | 'square' | 'teardrop';
+
+export interface IconSource {
+  image: ImageBitmap;
+  backgroundColor: string;
+  scale: number;
+}
+
+// Pixels per dp for each density bucket
+export const DENSITIES: Record<string, number> = { ldpi: 0.75, mdpi: 1, hdpi: 1.5, xhdpi: 2, xxhdpi: 3, xxxhdpi: 4 };
+
+// Portrait splash size in pixels per density bucket; landscape swaps them
+const SPLASH_SIZES: Record<string, [number, number]> = {
+  mdpi: [320, 480],
+  hdpi: [480, 800],
+  xhdpi: [720, 1280],
+  xxhdpi: [960, 1600],
+  xxxhdpi: [1280, 1920]
+};
+
+export const PWA_ICONS: { size: number; purpose: 'any' | 'maskable' }[] = [
+  ...[48, 72, 96, 128, 144, 152, 192, 384, 512].map(size => ({ size, purpose: 'any' as const })),
+  { size: 192, purpose: 'maskable' },
+  { size: 512, purpose: 'maskable' }
+];
+
+export const pwaIconName = ({ size, purpose }: { size: number; purpose: string }) =>
+  purpose === 'maskable' ? `maskable-${size}.png` : `icon-${size}.png`;
+
+/** Corner radii (top-left, top-right, bottom-right, bottom-left) as fractions of the edge. */
+export const MASKS: Record<MaskShape, { label: string; radii: number[] }> = {
+  circle: { label: 'Circle', radii: [0.5, 0.5, 0.5, 0.5] },
+  squircle: { label: 'Squircle', radii: [0.3, 0.3, 0.3, 0.3] }, // Approximated with round corners
+  rounded: { label: 'Rounded', radii: [0.16, 0.16, 0.16, 0.16] },
+  square: { label: 'Square', radii: [0, 0, 0, 0] },
+  teardrop: { label: 'Teardrop', radii: [0.5, 0.5, 0.15, 0.5] }
+};
+
+const LAYER_DP = 108;
+const VISIBLE_DP = 72;
+const SAFE_ZONE_DP = 66;
+const LAUNCHER_ICON_DP = 48;
+
+const ADAPTIVE_ICON_XML = (name: string) => `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@mipmap/${name}_background" />
+    <foreground android:drawable="@mipmap/${name}_foreground" />
+</adaptive-icon>
+`;
+
+export const loadImage = (dataUrl: string) => createImageBitmap(dataUrlToBlob(dataUrl));
+
+/** Decodes the config's icon once for rendering many sizes; close `image` when done. */
+export const loadIconSource = async (config: BuildConfig): Promise<IconSource | null> => {
+  if (!config.icon) return null;
+  return { image: await loadImage(config.icon), backgroundColor: config.iconBackgroundColor, scale: config.iconScale };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+const toPng = async (canvas: HTMLCanvasElement): Promise<Blob> => {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not render the image.');
+  return blob;
+};
+
+/** Draws the image as large as fits in the box, centered on (x, y). */
+const drawContained = (ctx: CanvasRenderingContext2D, image: ImageBitmap, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, x - drawWidth / 2, y - drawHeight / 2, drawWidth, drawHeight);
+};
+
+const clipMask = (ctx: CanvasRenderingContext2D, mask: MaskShape, size: number) => {
+  ctx.beginPath();
+  ctx.roundRect(0, 0, size, size, MASKS[mask].radii.map(radius => radius * size));
+  ctx.clip();
+};
+
+interface IconLayout {
+  cropped: boolean; // Only the visible 72dp, as launchers show it
+  mask?: MaskShape;
+  background?: boolean;
+  foreground?: boolean;
+}
+
+const renderIcon = (source: IconSource, size: number, { cropped, mask, background = true, foreground = true }: IconLayout) => {
+  const { canvas, ctx } = createCanvas(size, size);
+  const pixelsPerDp = size / (cropped ? VISIBLE_DP : LAYER_DP);
+  if (mask) clipMask(ctx, mask, size);
+  if (background) {
+    ctx.fillStyle = source.backgroundColor;
+    ctx.fillRect(0, 0, size, size);
+  }
+  if (foreground) {
+    const box = SAFE_ZONE_DP * pixelsPerDp * source.scale;
+    drawContained(ctx, source.image, size / 2, size / 2, box, box);
+  }
+  return toPng(canvas);
+};
+
+/** One of the launcher icon PNGs Android expects under `res/mipmap-<density>/`. */
+export const renderLauncherIcon = (source: IconSource, variant: IconVariant, density: string) => {
+  const pixelsPerDp = DENSITIES[density] ?? 1;
+  switch (variant) {
+    case 'legacy':
+      return renderIcon(source, Math.round(LAUNCHER_ICON_DP * pixelsPerDp), { cropped: true, mask: 'rounded' });
+    case 'round':
+      return renderIcon(source, Math.round(LAUNCHER_ICON_DP * pixelsPerDp), { cropped: true, mask: 'circle' });
+    case 'foreground':
+      return renderIcon(source, Math.round(LAYER_DP * pixelsPerDp), { cropped: false, background: false });
+    case 'background':
+      return renderIcon(source, Math.round(LAYER_DP * pixelsPerDp), { cropped: false, foreground: false });
+  }
+};
+
+/** Maskable icons keep the full layer so browsers can apply their own mask. */
+export const renderPwaIcon = (source: IconSource, size: number, purpose: 'any' | 'maskable') =>
+  purpose === 'maskable'
+    ? renderIcon(source, size, { cropped: false })
+    : renderIcon(source, size, { cropped: true, mask: 'rounded' });
+
+// iOS rounds the corners itself and shows transparency as black
+export const renderAppleTouchIcon = (source: IconSource) => renderIcon(source, 180, { cropped: true });
+
+/** Both adaptive layers at full size, for previews that apply masks with CSS. */
+export const renderAdaptivePreview = (source: IconSource, size: number) => renderIcon(source, size, { cropped: false });
+
+/** The splash image, or the icon when there is none, centered on the splash background. */
+export const renderSplash = async (config: BuildConfig, width: number, height: number): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = config.splashBackgroundColor;
+  ctx.fillRect(0, 0, width, height);
+
+  const source = config.splash || config.icon;
+  if (source) {
+    const image = await loadImage(source);
+    // Same proportions as the launch screen preview in the build settings
+    if (config.splash) drawContained(ctx, image, width / 2, height / 2, width * 0.7, height * 0.6);
+    else drawContained(ctx, image, width / 2, height / 2, Math.min(width, height) * 0.3, Math.min(width, height) * 0.3);
+    image.close();
+  }
+  return toPng(canvas);
+};
+
+/**
+ * ZIP of every generated asset: Android `res/` folders ready to merge into a
+ * project, and a `pwa/` icon set named as the web manifest export expects.
+ */
+export const generateAssetPack = async (config: BuildConfig, onProgress?: (message: string) => void): Promise<Blob> => {
+  const source = await loadIconSource(config);
+  if (!source) throw new Error('Choose an app icon first.');
+  const zip = new JSZip();
+
+  try {
+    onProgress?.('Rendering launcher icons...');
+    for (const density of Object.keys(DENSITIES)) {
+      const folder = `android/res/mipmap-${density}/`;
+      zip.file(`${folder}ic_launcher.png`, await renderLauncherIcon(source, 'legacy', density));
+      zip.file(`${folder}ic_launcher_round.png`, await renderLauncherIcon(source, 'round', density));
+      zip.file(`${folder}ic_launcher_foreground.png`, await renderLauncherIcon(source, 'foreground', density));
+      zip.file(`${folder}ic_launcher_background.png`, await renderLauncherIcon(source, 'background', density));
+    }
+    zip.file('android/res/mipmap-anydpi-v26/ic_launcher.xml', ADAPTIVE_ICON_XML('ic_launcher'));
+    zip.file('android/res/mipmap-anydpi-v26/ic_launcher_round.xml', ADAPTIVE_ICON_XML('ic_launcher'));
+
+    onProgress?.('Rendering splash screens...');
+    for (const [density, [width, height]] of Object.entries(SPLASH_SIZES)) {
+      zip.file(`android/res/drawable-port-${density}/splash.png`, await renderSplash(config, width, height));
+      zip.file(`android/res/drawable-land-${density}/splash.png`, await renderSplash(config, height, width));
+    }
+
+    onProgress?.('Rendering web icons...');
+    for (const icon of PWA_ICONS) {
+      zip.file(`pwa/${pwaIconName(icon)}`, await renderPwaIcon(source, icon.size, icon.purpose));
+    }
+    zip.file('pwa/apple-touch-icon.png', await renderAppleTouchIcon(source));
+    zip.file('pwa/favicon-32.png', await renderPwaIcon(source, 32, 'any'));
+  } finally {
+    source.image.close();
+  }
+
+  onProgress?.('Compressing...');
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,193 @@
+import JSZip from 'jszip';
+import { Project, File, FileLanguage } from '../types';
+import { putBlob, guessMimeType } from './blobStore';
+import { ensureFolders, normalizePath, dirname, basename, getLanguageFromName } from './paths';
+import { defaultBuildConfig } from './buildConfig';
+import { NativeProjectInfo, readNativeProject } from './nativeProject';
+
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  project: Project;
+  skipped: SkippedEntry[];
+  native?: NativeProjectInfo; // Set when the ZIP held a Capacitor or Cordova project
+}
+
+interface Signature {
+  language: FileLanguage;
+  mime: string;
+  bytes: (number | null)[]; // null matches any byte
+  offset?: number;
+}
+
+const SIGNATURES: Signature[] = [
+  { language: 'image', mime: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { language: 'image', mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { language: 'image', mime: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { language: 'image', mime: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { language: 'image', mime: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { language: 'font', mime: 'font/woff', bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { language: 'font', mime: 'font/woff2', bytes: [0x77, 0x4f, 0x46, 0x32] },
+  { language: 'font', mime: 'font/otf', bytes: [0x4f, 0x54, 0x54, 0x4f] },
+  { language: 'font', mime: 'font/ttf', bytes: [0x00, 0x01, 0x00, 0x00, 0x00] },
+];
+
+const matchesSignature = (data: Uint8Array, signature: Signature) => {
+  const offset = signature.offset || 0;
+  if (data.length < offset + signature.bytes.length) return false;
+  return signature.bytes.every((b, i) => b === null || data[offset + i] === b);
+};
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+/** Decodes `data` as text, or returns null when it does not look like text. */
+const decodeText = (data: Uint8Array): string | null => {
+  // NUL bytes practically never occur in source files
+  if (data.subarray(0, 8000).includes(0)) return null;
+  try {
+    return utf8.decode(data);
+  } catch {
+    return null;
+  }
+};
+
+export type SniffResult =
+  | { kind: 'binary'; language: FileLanguage; mime: string }
+  | { kind: 'text'; language: FileLanguage; text: string }
+  | { kind: 'unsupported' };
+
+/** Determines a file's type from its bytes, using the name only for text files. */
+export const sniffContent = (name: string, data: Uint8Array): SniffResult => {
+  const signature = SIGNATURES.find(s => matchesSignature(data, s));
+  if (signature) return { kind: 'binary', language: signature.language, mime: signature.mime };
+
+  const text = decodeText(data);
+  if (text === null) return { kind: 'unsupported' };
+
+  // SVGs are text, but the project treats them like other images
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(text.slice(0, 2048))) {
+    return { kind: 'binary', language: 'image', mime: 'image/svg+xml' };
+  }
+
+  const language = getLanguageFromName(name);
+  if (language === 'image' || language === 'font') {
+    // Named like an asset but the bytes are not one
+    return { kind: 'unsupported' };
+  }
+  return { kind: 'text', language, text };
+};
+
+const isIgnoredPath = (path: string) => {
+  return path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX' || segment === 'Thumbs.db');
+};
+
+/** Returns the single top-level folder shared by every path, if there is one. */
+const getCommonRoot = (paths: string[]): string | null => {
+  if (paths.length === 0) return null;
+  const first = paths[0].split('/')[0];
+  const allNested = paths.every(p => p.includes('/') && p.split('/')[0] === first);
+  return allNested ? first : null;
+};
+
+/** Some CJS/ESM interop setups expose the JSZip class only as the module's `default`. */
+const hasDefaultExport = (module: unknown): module is { default: typeof JSZip } =>
+  (typeof module === 'function' || typeof module === 'object') && module !== null
+  && 'default' in module && typeof module.default === 'function';
+
+const resolveJSZip = (module: typeof JSZip): typeof JSZip => hasDefaultExport(module) ? module.default : module;
+
+export interface ZipImportOptions {
+  /**
+   * Only import entries below this folder (after stripping the common root).
+   * Defaults to the web folder of Capacitor and Cordova projects.
+   */
+  subfolder?: string;
+}
+
+/** Recreates a project from a ZIP archive, keeping its folder structure. */
+export const importZipProject = async (
+  zipData: Blob | ArrayBuffer,
+  projectName: string,
+  options: ZipImportOptions = {}
+): Promise<ImportResult> => {
+  const zip = await resolveJSZip(JSZip).loadAsync(zipData);
+  const skipped: SkippedEntry[] = [];
+  const hidden: SkippedEntry[] = []; // Full archive paths, filtered once the imported folder is known
+
+  const entries = Object.values(zip.files).filter(entry => {
+    if (!isIgnoredPath(entry.name)) return true;
+    if (!entry.dir && !entry.name.includes('__MACOSX')) hidden.push({ path: entry.name, reason: 'hidden file' });
+    return false;
+  });
+
+  const commonRoot = getCommonRoot(entries.filter(e => !e.dir).map(e => normalizePath(e.name)));
+  let prefix = commonRoot ? `${commonRoot}/` : '';
+
+  // Native project configs are small text files at the root
+  const configTexts = new Map<string, string>();
+  for (const name of ['capacitor.config.json', 'capacitor.config.ts', 'buildora.android.json', 'config.xml']) {
+    const entry = zip.file(prefix + name);
+    if (entry) configTexts.set(name, await entry.async('string'));
+  }
+  const native = readNativeProject(path => configTexts.get(path) ?? null) ?? undefined;
+
+  const subfolder = options.subfolder ?? native?.webDir;
+  if (subfolder) prefix += `${normalizePath(subfolder)}/`;
+
+  let files: File[] = [];
+  let hasPhp = false;
+
+  for (const entry of entries) {
+    const fullPath = normalizePath(entry.name);
+    if (!`${fullPath}/`.startsWith(prefix) || `${fullPath}/` === prefix) continue;
+    const path = fullPath.slice(prefix.length);
+
+    if (entry.dir) {
+      files = ensureFolders(files, path).files;
+      continue;
+    }
+
+    const data: Uint8Array = await entry.async('uint8array');
+    const name = basename(path);
+    const sniffed = sniffContent(name, data);
+    if (sniffed.kind === 'unsupported') {
+      skipped.push({ path, reason: 'unsupported file type' });
+      continue;
+    }
+
+    const folders = ensureFolders(files, dirname(path));
+    files = folders.files;
+
+    const base = {
+      id: Date.now().toString() + Math.random().toString().slice(2),
+      name,
+      parentId: folders.parentId,
+      isDirectory: false
+    };
+
+    if (sniffed.kind === 'binary') {
+      const blobHash = await putBlob(data, sniffed.mime || guessMimeType(name));
+      files.push({ ...base, content: '', language: sniffed.language, blobHash });
+    } else {
+      if (sniffed.language === 'php') hasPhp = true;
+      files.push({ ...base, content: sniffed.text, language: sniffed.language });
+    }
+  }
+
+  const project: Project = {
+    id: Date.now().toString(),
+    name: native?.config.appName || projectName,
+    type: hasPhp ? 'php' : 'html',
+    lastModified: Date.now(),
+    files
+  };
+  // Settings from the native config carry over to APK and PWA builds
+  if (native) project.buildConfig = { ...defaultBuildConfig(project), ...native.config };
+
+  // Hidden files outside the imported folder were never candidates
+  const hiddenInFolder = subfolder ? hidden.filter(entry => normalizePath(entry.path).startsWith(prefix)) : hidden;
+  return { project, skipped: [...hiddenInFolder, ...skipped], native };
+};
@@ -0,0 +1,122 @@
+import { Keystore } from '../types';
+import { openDB, promisifyRequest, transactionDone, STORES } from './db';
+import { KeyEntry, DistinguishedName, RSA_SIGNING, createCertificate, getFingerprint, importSigningKey } from './apk/certificate';
+import { parsePkcs12, createPkcs12 } from './apk/pkcs12';
+import { isJks, parseJks, createJks } from './apk/jks';
+import { ApkSigner } from './apk/sign';
+
+export const MIN_PASSPHRASE_LENGTH = 6; // keytool rejects shorter store passwords
+
+// Google Play requires app signing certificates valid beyond 2033
+const VALIDITY_YEARS = 25;
+const PBKDF2_ITERATIONS = 310000;
+
+export type KeystoreFormat = 'pkcs12' | 'jks';
+
+type KeystoreRecord = Keystore & {
+  certificates: Uint8Array[];
+  encryptedKey: Uint8Array; // AES-GCM encrypted PKCS#8 private key
+  salt: Uint8Array;
+  iv: Uint8Array;
+  iterations: number;
+};
+
+const toKeystore = ({ alias, created, fingerprint }: KeystoreRecord): Keystore => ({ alias, created, fingerprint });
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey({ name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' }, base, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+};
+
+const getRecord = async (alias: string) => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.keystores, 'readonly');
+  return promisifyRequest<KeystoreRecord | undefined>(tx.objectStore(STORES.keystores).get(alias));
+};
+
+const saveEntry = async (entry: KeyEntry, passphrase: string): Promise<Keystore> => {
+  const alias = entry.alias.trim();
+  if (!alias) throw new Error('Enter an alias for the key.');
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  if (await getRecord(alias)) throw new Error(`A key named "${alias}" already exists.`);
+  await importSigningKey(entry.privateKey); // Rejects keys that cannot sign APKs
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const record: KeystoreRecord = {
+    alias,
+    created: Date.now(),
+    fingerprint: await getFingerprint(entry.certificates[0]),
+    certificates: entry.certificates,
+    encryptedKey: new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, entry.privateKey as BufferSource)),
+    salt,
+    iv,
+    iterations: PBKDF2_ITERATIONS
+  };
+
+  const db = await openDB();
+  const tx = db.transaction(STORES.keystores, 'readwrite');
+  tx.objectStore(STORES.keystores).put(record);
+  await transactionDone(tx);
+  return toKeystore(record);
+};
+
+const unlockEntry = async (alias: string, passphrase: string): Promise<KeyEntry> => {
+  const record = await getRecord(alias);
+  if (!record) throw new Error(`Signing key "${alias}" no longer exists.`);
+  const key = await deriveKey(passphrase, record.salt, record.iterations);
+  try {
+    const privateKey = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv as BufferSource }, key, record.encryptedKey as BufferSource));
+    return { alias: record.alias, privateKey, certificates: record.certificates };
+  } catch {
+    throw new Error('Incorrect passphrase.');
+  }
+};
+
+export const listKeystores = async (): Promise<Keystore[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.keystores, 'readonly');
+  const records = await promisifyRequest<KeystoreRecord[]>(tx.objectStore(STORES.keystores).getAll());
+  return records.map(toKeystore).sort((a, b) => b.created - a.created);
+};
+
+/** Creates a 2048-bit RSA key with a self-signed certificate. */
+export const generateKeystore = async (alias: string, passphrase: string, name: DistinguishedName): Promise<Keystore> => {
+  const keyPair = await crypto.subtle.generateKey(
+    { ...RSA_SIGNING, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ['sign', 'verify']
+  );
+  const certificate = await createCertificate(keyPair, name, VALIDITY_YEARS);
+  const privateKey = new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey));
+  return saveEntry({ alias, privateKey, certificates: [certificate] }, passphrase);
+};
+
+/** Imports the first key of a PKCS#12 or JKS file; the file password becomes its passphrase. */
+export const importKeystore = async (file: Blob, password: string, alias?: string): Promise<Keystore> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const entry = isJks(bytes) ? await parseJks(bytes, password) : await parsePkcs12(bytes, password);
+  return saveEntry({ ...entry, alias: alias?.trim() || entry.alias }, password);
+};
+
+/** Keystore file protected with the key's passphrase, for use with keytool or Android Studio. */
+export const exportKeystore = async (alias: string, passphrase: string, format: KeystoreFormat): Promise<Blob> => {
+  const entry = await unlockEntry(alias, passphrase);
+  return format === 'jks'
+    ? new Blob([await createJks(entry, passphrase) as BlobPart], { type: 'application/octet-stream' })
+    : new Blob([await createPkcs12(entry, passphrase) as BlobPart], { type: 'application/x-pkcs12' });
+};
+
+export const deleteKeystore = async (alias: string) => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.keystores, 'readwrite');
+  tx.objectStore(STORES.keystores).delete(alias);
+  await transactionDone(tx);
+};
+
+/** Decrypts a stored key for signing. */
+export const unlockKeystore = async (keystore: Keystore, passphrase: string): Promise<ApkSigner> => {
+  const entry = await unlockEntry(keystore.alias, passphrase);
+  return { key: await importSigningKey(entry.privateKey), certificate: entry.certificates[0] };
+};
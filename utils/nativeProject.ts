@@ -0,0 +1,377 @@
+/**
+ * Capacitor and Cordova project skeletons, for finishing Android builds with
+ * the native toolchains on a desktop. The project's files go in `www/`, and
+ * the build settings become the framework's config plus Android settings.
+ * Importing reads the settings and the `www/` folder back.
+ */
+import { BuildConfig, Project } from '../types';
+import { findIndexFile, getFilePath, normalizePath } from './paths';
+import { dataUrlToBlob } from './blobStore';
+import { DENSITIES, IconVariant, loadIconSource, renderLauncherIcon } from './icons';
+import { PERMISSIONS } from './apk/manifest';
+
+export type NativeTarget = 'capacitor' | 'cordova';
+
+export const WEB_DIR = 'www';
+
+export const NATIVE_TARGETS: Record<NativeTarget, { label: string; description: string }> = {
+  capacitor: { label: 'Capacitor', description: 'capacitor.config.json, npm scripts and a hook that applies permissions and orientation' },
+  cordova: { label: 'Cordova', description: 'config.xml with preferences, permissions and launcher icons' }
+};
+
+/** A generated file, at a path relative to the skeleton root. */
+export interface NativeProjectFile {
+  path: string;
+  data: string | Blob;
+}
+
+/** What an imported skeleton says about the web app. */
+export interface NativeProjectInfo {
+  target: NativeTarget;
+  webDir: string;
+  config: Partial<BuildConfig>;
+}
+
+// Android settings the Capacitor hook applies after `npx cap sync`
+const CAPACITOR_SETTINGS = 'buildora.android.json';
+const CAPACITOR_HOOK = 'scripts/apply-android-settings.js';
+const CORDOVA_ICON_FOLDER = 'res/android';
+
+// Manifest android:screenOrientation values
+const SCREEN_ORIENTATIONS: Record<BuildConfig['orientation'], string> = {
+  portrait: 'portrait',
+  landscape: 'landscape',
+  sensor: 'sensor',
+  auto: 'unspecified'
+};
+
+// Cordova's Orientation preference only knows these
+const CORDOVA_ORIENTATIONS: Record<BuildConfig['orientation'], string> = {
+  portrait: 'portrait',
+  landscape: 'landscape',
+  sensor: 'default',
+  auto: 'default'
+};
+
+const LAUNCHER_VARIANTS: [IconVariant, string][] = [
+  ['legacy', 'ic_launcher.png'],
+  ['foreground', 'ic_launcher_foreground.png'],
+  ['background', 'ic_launcher_background.png']
+];
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const npmName = (text: string) => text.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'app';
+
+const grantedPermissions = (config: BuildConfig) => PERMISSIONS.filter(([flag]) => config[flag]).flatMap(([, names]) => names);
+
+/** Turns on the permission toggles whose Android permissions all appear in `text`. */
+const readPermissions = (text: string): Partial<BuildConfig> => Object.fromEntries(PERMISSIONS
+  .filter(([, names]) => names.every(name => text.includes(`"${name}"`)))
+  .map(([flag]) => [flag, true]));
+
+const imageExtension = (dataUrl: string) => {
+  const subtype = dataUrl.match(/^data:image\/([a-z]+)/i)?.[1].toLowerCase();
+  return subtype === 'jpeg' ? 'jpg' : subtype || 'png';
+};
+
+const createCapacitorConfig = (config: BuildConfig) => ({
+  appId: config.packageName,
+  appName: config.appName,
+  webDir: WEB_DIR,
+  android: {
+    allowMixedContent: config.mixedContentMode === 'always',
+    backgroundColor: config.splashBackgroundColor
+  },
+  plugins: {
+    SplashScreen: {
+      backgroundColor: config.splashBackgroundColor,
+      launchShowDuration: 1500
+    }
+  }
+});
+
+const CAPACITOR_HOOK_SCRIPT = `// Generated by Buildora: applies ${CAPACITOR_SETTINGS} to the Android project.
+// Runs after every \`npx cap sync\` through the capacitor:sync:after npm script.
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const settings = JSON.parse(fs.readFileSync(path.join(root, '${CAPACITOR_SETTINGS}'), 'utf8'));
+const manifestPath = path.join(root, 'android', 'app', 'src', 'main', 'AndroidManifest.xml');
+const gradlePath = path.join(root, 'android', 'app', 'build.gradle');
+
+if (!fs.existsSync(manifestPath)) {
+  console.log('No Android project yet. Run "npx cap add android" first.');
+  process.exit(0);
+}
+
+let manifest = fs.readFileSync(manifestPath, 'utf8');
+for (const permission of settings.permissions) {
+  if (!manifest.includes('"' + permission + '"')) {
+    manifest = manifest.replace(/\\n([ \\t]*)<application\\b/, '\\n$1<uses-permission android:name="' + permission + '" />\\n$1<application');
+  }
+}
+manifest = manifest.replace(/<activity\\b[^>]*>/, (tag) => tag
+  .replace(/\\s+android:screenOrientation="[^"]*"/, '')
+  .replace('<activity', '<activity android:screenOrientation="' + settings.screenOrientation + '"'));
+fs.writeFileSync(manifestPath, manifest);
+
+if (fs.existsSync(gradlePath)) {
+  const gradle = fs.readFileSync(gradlePath, 'utf8')
+    .replace(/versionCode \\d+/, 'versionCode ' + settings.versionCode)
+    .replace(/versionName "[^"]*"/, 'versionName "' + settings.versionName + '"');
+  fs.writeFileSync(gradlePath, gradle);
+}
+console.log('Applied ${CAPACITOR_SETTINGS}');
+`;
+
+const CAPACITOR_README = (config: BuildConfig) => `# ${config.appName}
+
+Capacitor project exported from Buildora. The web app is in \`${WEB_DIR}/\`.
+
+## Build the Android app
+
+1. Install Node.js 18+ and Android Studio.
+2. \`npm install\`
+3. \`npx cap add android\` (first time only)
+4. \`npm run assets\` to generate launcher icons and splash screens from \`assets/\`
+5. \`npx cap sync android\` copies \`${WEB_DIR}/\` and applies \`${CAPACITOR_SETTINGS}\` (permissions, orientation, version)
+6. \`npx cap open android\` and build or run from Android Studio
+
+Edit \`${CAPACITOR_SETTINGS}\` and \`capacitor.config.json\` to change the settings, then sync again.
+`;
+
+const CORDOVA_README = (config: BuildConfig) => `# ${config.appName}
+
+Cordova project exported from Buildora. The web app is in \`${WEB_DIR}/\`.
+
+## Build the Android app
+
+1. Install Node.js 18+, a JDK and the Android SDK.
+2. \`npm install\`
+3. \`npx cordova platform add android\` (first time only)
+4. \`npx cordova build android\`, or \`npx cordova run android\` with a device connected
+
+Settings, permissions and icons live in \`config.xml\`.
+`;
+
+const createCapacitorFiles = (config: BuildConfig): NativeProjectFile[] => {
+  const name = npmName(config.appName);
+  const files: NativeProjectFile[] = [
+    { path: 'capacitor.config.json', data: JSON.stringify(createCapacitorConfig(config), null, 2) },
+    {
+      path: 'package.json',
+      data: JSON.stringify({
+        name,
+        version: config.versionName,
+        private: true,
+        scripts: {
+          assets: `capacitor-assets generate --android --iconBackgroundColor "${config.iconBackgroundColor}" --splashBackgroundColor "${config.splashBackgroundColor}"`,
+          sync: 'cap sync android',
+          open: 'cap open android',
+          'capacitor:sync:after': `node ${CAPACITOR_HOOK}`
+        },
+        dependencies: {
+          '@capacitor/android': '^6.1.2',
+          '@capacitor/core': '^6.1.2',
+          '@capacitor/splash-screen': '^6.0.2'
+        },
+        devDependencies: {
+          '@capacitor/assets': '^3.0.5',
+          '@capacitor/cli': '^6.1.2'
+        }
+      }, null, 2)
+    },
+    {
+      path: CAPACITOR_SETTINGS,
+      data: JSON.stringify({
+        versionCode: config.versionCode,
+        versionName: config.versionName,
+        screenOrientation: SCREEN_ORIENTATIONS[config.orientation],
+        permissions: grantedPermissions(config)
+      }, null, 2)
+    },
+    { path: CAPACITOR_HOOK, data: CAPACITOR_HOOK_SCRIPT },
+    { path: '.gitignore', data: 'node_modules/\nandroid/\n' },
+    { path: 'README.md', data: CAPACITOR_README(config) }
+  ];
+
+  // Source images for @capacitor/assets, which renders every density itself
+  if (config.icon) files.push({ path: `assets/icon.${imageExtension(config.icon)}`, data: dataUrlToBlob(config.icon) });
+  if (config.splash) files.push({ path: `assets/splash.${imageExtension(config.splash)}`, data: dataUrlToBlob(config.splash) });
+  return files;
+};
+
+const createConfigXml = (config: BuildConfig, indexPath: string, hasIcons: boolean) => {
+  const preferences: [string, string | number | boolean][] = [
+    ['Orientation', CORDOVA_ORIENTATIONS[config.orientation]],
+    ['Fullscreen', config.fullscreen],
+    ['BackgroundColor', `0xff${config.splashBackgroundColor.replace('#', '')}`],
+    ['AndroidWindowSplashScreenBackground', config.splashBackgroundColor],
+    ['AndroidLaunchMode', 'singleTask'],
+    ['android-minSdkVersion', 24]
+  ];
+  const icons = hasIcons
+    ? Object.keys(DENSITIES).map(density => {
+        const folder = `${CORDOVA_ICON_FOLDER}/mipmap-${density}`;
+        return `        <icon density="${density}" src="${folder}/ic_launcher.png" foreground="${folder}/ic_launcher_foreground.png" background="${folder}/ic_launcher_background.png" />`;
+      })
+    : [];
+  const permissions = grantedPermissions(config).map(name => `            <uses-permission android:name="${name}" />`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<widget id="${escapeXml(config.packageName)}" version="${escapeXml(config.versionName)}" android-versionCode="${config.versionCode}"
+        xmlns="http://www.w3.org/ns/widgets" xmlns:android="http://schemas.android.com/apk/res/android" xmlns:cdv="http://cordova.apache.org/ns/1.0">
+    <name>${escapeXml(config.appName)}</name>
+    <description>Exported from Buildora</description>
+    <content src="${escapeXml(indexPath)}" />
+    <access origin="*" />
+    <allow-intent href="http://*/*" />
+    <allow-intent href="https://*/*" />
+${preferences.map(([name, value]) => `    <preference name="${name}" value="${escapeXml(String(value))}" />`).join('\n')}
+    <platform name="android">
+${icons.join('\n')}${icons.length ? '\n' : ''}        <config-file parent="/manifest" target="AndroidManifest.xml">
+${permissions.join('\n')}
+        </config-file>
+    </platform>
+</widget>
+`;
+};
+
+const createCordovaFiles = async (config: BuildConfig, indexPath: string): Promise<NativeProjectFile[]> => {
+  const files: NativeProjectFile[] = [];
+  const source = await loadIconSource(config);
+  if (source) {
+    try {
+      for (const density of Object.keys(DENSITIES)) {
+        for (const [variant, name] of LAUNCHER_VARIANTS) {
+          files.push({ path: `${CORDOVA_ICON_FOLDER}/mipmap-${density}/${name}`, data: await renderLauncherIcon(source, variant, density) });
+        }
+      }
+    } finally {
+      source.image.close();
+    }
+  }
+
+  files.push(
+    { path: 'config.xml', data: createConfigXml(config, indexPath, !!source) },
+    {
+      path: 'package.json',
+      data: JSON.stringify({
+        name: npmName(config.appName),
+        displayName: config.appName,
+        version: config.versionName,
+        private: true,
+        scripts: {
+          build: 'cordova build android',
+          run: 'cordova run android'
+        },
+        devDependencies: {
+          cordova: '^12.0.0',
+          'cordova-android': '^13.0.0'
+        },
+        cordova: { platforms: ['android'], plugins: {} }
+      }, null, 2)
+    },
+    { path: '.gitignore', data: 'node_modules/\nplatforms/\nplugins/\n' },
+    { path: 'README.md', data: CORDOVA_README(config) }
+  );
+  return files;
+};
+
+/**
+ * Skeleton files to add around the project, which the caller places in
+ * `www/`. Both frameworks load static files only, so PHP entry pages fail.
+ */
+export const createNativeProjectFiles = async (project: Project, config: BuildConfig, target: NativeTarget): Promise<NativeProjectFile[]> => {
+  const index = findIndexFile(project.files);
+  if (!index || !index.name.endsWith('.html')) {
+    throw new Error(`${NATIVE_TARGETS[target].label} apps need an 'index.html'; PHP pages cannot run inside them.`);
+  }
+  const indexPath = getFilePath(project.files, index);
+  if (target === 'capacitor') {
+    // Capacitor always starts at the web folder's index.html
+    if (indexPath !== 'index.html') throw new Error('Capacitor loads www/index.html; move the entry page to the project root.');
+    return createCapacitorFiles(config);
+  }
+  return createCordovaFiles(config, indexPath);
+};
+
+const readCapacitorSettings = (settingsJson: string | null): Partial<BuildConfig> => {
+  if (!settingsJson) return {};
+  try {
+    const settings = JSON.parse(settingsJson);
+    const orientation = (Object.keys(SCREEN_ORIENTATIONS) as BuildConfig['orientation'][])
+      .find(key => SCREEN_ORIENTATIONS[key] === settings.screenOrientation);
+    return {
+      ...(Number.isInteger(settings.versionCode) && { versionCode: settings.versionCode }),
+      ...(typeof settings.versionName === 'string' && { versionName: settings.versionName }),
+      ...(orientation && { orientation }),
+      ...(Array.isArray(settings.permissions) && readPermissions(JSON.stringify(settings.permissions)))
+    };
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Reads a skeleton's config files, given their text at the project root.
+ * Returns null when they do not describe a Capacitor or Cordova project.
+ */
+export const readNativeProject = (read: (path: string) => string | null): NativeProjectInfo | null => {
+  const capacitorJson = read('capacitor.config.json');
+  const capacitorTs = capacitorJson === null ? read('capacitor.config.ts') : null;
+  if (capacitorJson !== null || capacitorTs !== null) {
+    let capacitor: { appId?: unknown; appName?: unknown; webDir?: unknown } = {};
+    try {
+      if (capacitorJson !== null) capacitor = JSON.parse(capacitorJson);
+    } catch {
+      // Fall through with the defaults
+    }
+    // TypeScript configs are not evaluated, only scanned for the common keys
+    const tsValue = (key: string) => capacitorTs?.match(new RegExp(`\\b${key}\\s*:\\s*['"]([^'"]+)['"]`))?.[1];
+    const appId = typeof capacitor.appId === 'string' ? capacitor.appId : tsValue('appId');
+    const appName = typeof capacitor.appName === 'string' ? capacitor.appName : tsValue('appName');
+    const webDir = typeof capacitor.webDir === 'string' ? capacitor.webDir : tsValue('webDir') ?? WEB_DIR;
+    return {
+      target: 'capacitor',
+      webDir: normalizePath(webDir),
+      config: {
+        ...(appId && { packageName: appId }),
+        ...(appName && { appName }),
+        ...readCapacitorSettings(read(CAPACITOR_SETTINGS))
+      }
+    };
+  }
+
+  const configXml = read('config.xml');
+  if (configXml === null || !/<widget\b/.test(configXml)) return null;
+  const doc = new DOMParser().parseFromString(configXml, 'application/xml');
+  const widget = doc.documentElement;
+  if (widget.nodeName !== 'widget') return null;
+
+  const preference = (name: string) => Array.from(doc.getElementsByTagName('preference'))
+    .find(element => element.getAttribute('name')?.toLowerCase() === name.toLowerCase())?.getAttribute('value') ?? null;
+  const appName = doc.getElementsByTagName('name')[0]?.textContent?.trim();
+  const versionCode = parseInt(widget.getAttribute('android-versionCode') || '', 10);
+  const orientation = preference('Orientation');
+  const fullscreen = preference('Fullscreen');
+  return {
+    target: 'cordova',
+    webDir: WEB_DIR,
+    config: {
+      ...(widget.getAttribute('id') && { packageName: widget.getAttribute('id')! }),
+      ...(widget.getAttribute('version') && { versionName: widget.getAttribute('version')! }),
+      ...(versionCode > 0 && { versionCode }),
+      ...(appName && { appName }),
+      ...(orientation && { orientation: orientation === 'portrait' || orientation === 'landscape' ? orientation : 'sensor' }),
+      ...(fullscreen && { fullscreen: fullscreen === 'true' }),
+      ...readPermissions(configXml)
+    }
+  };
+};
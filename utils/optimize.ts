@@ -0,0 +1,292 @@
+/**
+ * Production build stage for exports: minifies HTML, CSS and JS with
+ * esbuild-wasm, recompresses images, and fingerprints asset names with
+ * content hashes. The result is a copy of the project, so every export
+ * mode can run on it unchanged.
+ */
+import esbuildWasmUrl from 'esbuild-wasm/esbuild.wasm?url';
+import { File, Project } from '../types';
+import { resolvePath, isExternalRef, getFilePath } from './paths';
+import { getAttribute, setAttribute, escapeInlineCode } from './html';
+import { isBinaryFile, getFileBytes, guessMimeType, dataUrlToBlob, blobToDataUrl, hashBytes } from './blobStore';
+import { CSS_REFERENCE } from './bundler';
+
+type Esbuild = typeof import('esbuild-wasm');
+
+export interface OptimizeOptions {
+  minify: boolean;
+  compressImages: boolean;
+  hashNames: boolean;
+}
+
+export interface SizeReportEntry {
+  path: string;
+  outputPath: string;
+  before: number; // Bytes
+  after: number;
+  note?: string;
+}
+
+export interface OptimizeResult {
+  project: Project;
+  report: SizeReportEntry[];
+}
+
+const JPEG_QUALITY = 0.82;
+const HASH_LENGTH = 8;
+const COMPRESSIBLE_IMAGES = ['image/png', 'image/jpeg', 'image/webp'];
+// Only these script types hold JavaScript
+const JS_SCRIPT_TYPES = /^(|module|text\/javascript|application\/javascript)$/i;
+// Whitespace inside these elements is significant or not HTML
+const PROTECTED_HTML = /<(pre|textarea|script|style)\b[^>]*>[\s\S]*?<\/\1>/gi;
+const URL_ATTRIBUTES = ['src', 'href', 'poster', 'data'];
+
+const encoder = new TextEncoder();
+
+let esbuildReady: Promise<Esbuild> | null = null;
+
+const getEsbuild = () => {
+  if (!esbuildReady) {
+    esbuildReady = import('esbuild-wasm')
+      .then(async esbuild => {
+        await esbuild.initialize({ wasmURL: esbuildWasmUrl });
+        return esbuild;
+      })
+      .catch(e => {
+        esbuildReady = null;
+        throw e;
+      });
+  }
+  return esbuildReady;
+};
+
+// Top-level names stay as they are, since classic scripts share them as globals
+const minifyJs = async (esbuild: Esbuild, code: string) =>
+  (await esbuild.transform(code, { loader: 'js', minify: true, charset: 'utf8' })).code;
+
+const minifyCss = async (esbuild: Esbuild, css: string) =>
+  (await esbuild.transform(css, { loader: 'css', minify: true, charset: 'utf8' })).code;
+
+/** Drops comments and collapses whitespace, leaving `pre`/`textarea` alone and minifying inline code. */
+const minifyHtml = async (esbuild: Esbuild, html: string) => {
+  const collapse = (text: string) => text
+    .replace(/<!--(?!\[if)[\s\S]*?-->/g, '')
+    .replace(/\s+/g, space => space.includes('\n') ? '\n' : ' ');
+
+  const parts: string[] = [];
+  let last = 0;
+  for (const match of html.matchAll(PROTECTED_HTML)) {
+    parts.push(collapse(html.slice(last, match.index)));
+    last = match.index! + match[0].length;
+
+    const block = match[0];
+    const tagName = match[1].toLowerCase();
+    const openTag = block.slice(0, block.indexOf('>') + 1);
+    const body = block.slice(openTag.length, block.length - `</${tagName}>`.length);
+    if (tagName === 'script' && !getAttribute(openTag, 'src') && JS_SCRIPT_TYPES.test(getAttribute(openTag, 'type') || '') && body.trim()) {
+      parts.push(`${openTag}${escapeInlineCode((await minifyJs(esbuild, body)).trim(), 'script')}</script>`);
+    } else if (tagName === 'style' && body.trim()) {
+      parts.push(`${openTag}${escapeInlineCode((await minifyCss(esbuild, body)).trim(), 'style')}</style>`);
+    } else {
+      parts.push(block);
+    }
+  }
+  parts.push(collapse(html.slice(last)));
+  return parts.join('').trim();
+};
+
+/** Re-encodes an image, returning the new bytes only when they are smaller. */
+const compressImage = async (bytes: Uint8Array, type: string): Promise<Uint8Array | null> => {
+  if (!COMPRESSIBLE_IMAGES.includes(type)) return null;
+  // Canvas keeps only the first frame of APNG and animated WebP
+  const header = new TextDecoder('latin1').decode(bytes.subarray(0, 1024));
+  if (header.includes('acTL') || header.includes('ANIM')) return null;
+
+  const bitmap = await createImageBitmap(new Blob([bytes as BlobPart], { type }));
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, JPEG_QUALITY));
+  if (!blob || blob.type !== type || blob.size >= bytes.length) return null;
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+/** `href` with its file name replaced, keeping the folder, query and hash. */
+const renameHref = (href: string, name: string) => {
+  const end = href.search(/[?#]/);
+  const path = end < 0 ? href : href.slice(0, end);
+  return path.slice(0, path.lastIndexOf('/') + 1) + encodeURIComponent(name) + (end < 0 ? '' : href.slice(end));
+};
+
+const hashedName = (name: string, hash: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? `${name.slice(0, dot)}.${hash}${name.slice(dot)}` : `${name}.${hash}`;
+};
+
+interface Output {
+  file: File;
+  path: string;
+  before: number;
+  text?: string;
+  bytes?: Uint8Array;
+  name: string;
+  note?: string;
+}
+
+/** Builds an optimized copy of the project and a per-file size report. */
+export const optimizeProject = async (project: Project, options: OptimizeOptions, onProgress?: (message: string) => void): Promise<OptimizeResult> => {
+  let esbuild: Esbuild | null = null;
+  if (options.minify) {
+    onProgress?.('Loading minifier...');
+    esbuild = await getEsbuild();
+  }
+  const outputs = new Map<string, Output>();
+
+  for (const file of project.files) {
+    if (file.isDirectory) continue;
+    const path = getFilePath(project.files, file);
+    if (isBinaryFile(file)) {
+      const bytes = (await getFileBytes(file))
+        ?? (file.content.startsWith('data:') ? new Uint8Array(await dataUrlToBlob(file.content).arrayBuffer()) : new Uint8Array());
+      outputs.set(file.id, { file, path, before: bytes.length, bytes, name: file.name });
+    } else {
+      outputs.set(file.id, { file, path, before: encoder.encode(file.content).length, text: file.content, name: file.name });
+    }
+  }
+
+  for (const output of outputs.values()) {
+    const { file, path } = output;
+    try {
+      if (esbuild && output.text !== undefined && !path.endsWith('.php')) {
+        onProgress?.(`Minifying ${path}...`);
+        if (file.language === 'javascript') output.text = await minifyJs(esbuild, output.text);
+        else if (file.language === 'css') output.text = await minifyCss(esbuild, output.text);
+        else if (file.language === 'html' && /\.html?$/i.test(file.name)) output.text = await minifyHtml(esbuild, output.text);
+        else if (file.language === 'json') output.text = JSON.stringify(JSON.parse(output.text));
+      } else if (options.compressImages && output.bytes && file.language === 'image') {
+        onProgress?.(`Compressing ${path}...`);
+        output.bytes = (await compressImage(output.bytes, guessMimeType(file.name))) ?? output.bytes;
+      }
+    } catch (e: any) {
+      // A file that fails to parse is shipped as written
+      output.note = `Kept as is: ${e?.errors?.[0]?.text ?? String(e?.message || e).split('\n')[0]}`;
+    }
+  }
+
+  if (options.hashNames) {
+    onProgress?.('Fingerprinting file names...');
+    const renames = new Map<string, string>(); // File id to hashed name
+
+    const scriptText = Array.from(outputs.values())
+      .map(({ file, text }) => {
+        if (text === undefined) return '';
+        if (file.language === 'javascript' || file.language === 'json') return text;
+        const scripts = Array.from(text.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/gi), match => match[1]);
+        // PHP can echo any URL, so its code counts as script too
+        const php = file.language === 'php' ? Array.from(text.matchAll(/<\?(?:php|=)?([\s\S]*?)(?:\?>|$)/g), match => match[1]) : [];
+        return [...scripts, ...php].join('\n');
+      })
+      .join('\n');
+
+    const rewriteHref = (from: File, href: string) => {
+      if (!href.trim() || isExternalRef(href)) return href;
+      const target = resolvePath(project, from, href);
+      const name = target && renames.get(target.id);
+      return name ? renameHref(href, name) : href;
+    };
+
+    const rewriteCss = (css: string, from: File) => css.replace(CSS_REFERENCE, (match, _q1, importUrl, _q2, importString, _media, _q3, url) => {
+      const href = url ?? importUrl ?? importString;
+      const renamed = rewriteHref(from, href);
+      return renamed === href ? match : match.replace(href, renamed);
+    });
+
+    const rewriteHtml = (html: string, from: File) => html
+      .replace(/<[a-z][^>]*>/gi, tag => {
+        let result = tag;
+        for (const name of URL_ATTRIBUTES) {
+          const value = getAttribute(result, name);
+          const renamed = value && rewriteHref(from, value);
+          // Untouched tags keep their exact text, including any PHP inside them
+          if (renamed && renamed !== value) result = setAttribute(result, name, renamed);
+        }
+        const srcset = getAttribute(result, 'srcset');
+        const renamedSrcset = srcset && srcset.split(',').map(candidate => {
+          const [url, ...descriptor] = candidate.trim().split(/\s+/);
+          return [rewriteHref(from, url), ...descriptor].join(' ');
+        }).join(', ');
+        if (renamedSrcset && renamedSrcset !== srcset) result = setAttribute(result, 'srcset', renamedSrcset);
+        return result.replace(/(\sstyle\s*=\s*)("[^"]*"|'[^']*')/i, (_match, prefix, value) => prefix + rewriteCss(value, from));
+      })
+      .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_match, open, css, close) => open + rewriteCss(css, from) + close);
+
+    const fingerprint = async (output: Output) => {
+      const hash = (await hashBytes((output.bytes ?? encoder.encode(output.text!)) as BufferSource)).slice(0, HASH_LENGTH);
+      output.name = hashedName(output.file.name, hash);
+      renames.set(output.file.id, output.name);
+    };
+
+    // Names that scripts build URLs from cannot be rewritten safely
+    const hashable: Output[] = [];
+    for (const output of outputs.values()) {
+      if (!['css', 'javascript', 'image', 'font'].includes(output.file.language)) continue;
+      if (scriptText.includes(output.file.name)) output.note = output.note ?? 'Name kept: scripts refer to it';
+      else hashable.push(output);
+    }
+
+    // Stylesheets are hashed after the files they reference, so their hash covers the renamed references
+    const finishing = new Set<string>();
+    const finishCss = async (output: Output) => {
+      if (finishing.has(output.file.id)) return;
+      finishing.add(output.file.id);
+      for (const match of output.text!.matchAll(CSS_REFERENCE)) {
+        const href = match[7] ?? match[2] ?? match[4];
+        const target = isExternalRef(href) ? undefined : resolvePath(project, output.file, href);
+        const targetOutput = target && outputs.get(target.id);
+        if (targetOutput?.file.language === 'css' && hashable.includes(targetOutput)) await finishCss(targetOutput);
+      }
+      output.text = rewriteCss(output.text!, output.file);
+      await fingerprint(output);
+    };
+
+    for (const output of hashable) {
+      if (output.file.language !== 'css') await fingerprint(output);
+    }
+    for (const output of hashable) {
+      if (output.file.language === 'css') await finishCss(output);
+    }
+
+    for (const output of outputs.values()) {
+      // PHP pages link assets with the same tags as HTML pages
+      if ((output.file.language === 'html' || output.file.language === 'php') && output.text !== undefined) output.text = rewriteHtml(output.text, output.file);
+      // Stylesheets kept under their own name still point at renamed files
+      else if (output.file.language === 'css' && !renames.has(output.file.id)) output.text = rewriteCss(output.text!, output.file);
+    }
+  }
+
+  const files: File[] = [];
+  const report: SizeReportEntry[] = [];
+  for (const file of project.files) {
+    const output = outputs.get(file.id);
+    if (!output) {
+      files.push(file);
+      continue;
+    }
+    if (output.text !== undefined) {
+      files.push({ ...file, name: output.name, content: output.text });
+    } else if (output.bytes!.length !== output.before) {
+      // Recompressed images travel as data URLs, which exports read like legacy binaries
+      const content = await blobToDataUrl(new Blob([output.bytes as BlobPart], { type: guessMimeType(file.name) }));
+      files.push({ ...file, name: output.name, content, blobHash: undefined });
+    } else {
+      files.push({ ...file, name: output.name });
+    }
+    const outputPath = output.path.slice(0, output.path.length - file.name.length) + output.name;
+    const after = output.bytes ? output.bytes.length : encoder.encode(output.text!).length;
+    report.push({ path: output.path, outputPath, before: output.before, after, note: output.note });
+  }
+
+  return { project: { ...project, files }, report };
+};
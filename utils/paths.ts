@@ -0,0 +1,129 @@
+import { Project, File, FileLanguage } from '../types';
+
+/** Matches hrefs that point outside the project (other origins, data, anchors...). */
+const EXTERNAL_REF = /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i;
+
+export const isExternalRef = (href: string) => EXTERNAL_REF.test(href.trim());
+
+const safeDecode = (href: string) => {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+};
+
+/** Collapses `.`/`..` segments and strips leading slashes, query strings and hashes. */
+export const normalizePath = (path: string): string => {
+  const clean = path.split(/[?#]/)[0].replace(/\\/g, '/');
+  const segments: string[] = [];
+  clean.split('/').forEach(segment => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return segments.join('/');
+};
+
+export const dirname = (path: string) => {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+};
+
+export const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+export const joinPath = (...parts: string[]) => normalizePath(parts.filter(Boolean).join('/'));
+
+/** Full path of a file from the project root, e.g. `css/style.css`. */
+export const getFilePath = (files: File[], file: File): string => {
+  const segments = [file.name];
+  const seen = new Set([file.id]);
+  let parentId = file.parentId;
+  while (parentId !== 'root') {
+    const parent = files.find(f => f.id === parentId);
+    // Guard against orphaned or cyclic parent chains
+    if (!parent || seen.has(parent.id)) break;
+    seen.add(parent.id);
+    segments.unshift(parent.name);
+    parentId = parent.parentId;
+  }
+  return segments.join('/');
+};
+
+export const buildPathIndex = (files: File[]): Map<string, File> => {
+  return new Map(files.map(f => [getFilePath(files, f), f]));
+};
+
+export const findFileByPath = (files: File[], path: string): File | undefined => {
+  const target = normalizePath(path);
+  return files.find(f => !f.isDirectory && getFilePath(files, f) === target);
+};
+
+/** Resolves `href` relative to a project path. Root-relative hrefs start at the project root. */
+export const resolveHref = (fromPath: string, href: string): string => {
+  const trimmed = href.trim();
+  if (trimmed.startsWith('/')) return normalizePath(trimmed);
+  return joinPath(dirname(fromPath), trimmed);
+};
+
+/**
+ * Resolves an href found in `fromFile` (a link, script src, CSS url()...) to
+ * the project file it points at, the way a web server would.
+ */
+export const resolvePath = (project: Project, fromFile: File | null, href: string): File | undefined => {
+  if (!href || isExternalRef(href)) return undefined;
+  const fromPath = fromFile ? getFilePath(project.files, fromFile) : '';
+  const target = resolveHref(fromPath, safeDecode(href));
+  const match = findFileByPath(project.files, target);
+  if (match) return match;
+
+  // Directory hrefs serve their index file
+  return findFileByPath(project.files, joinPath(target, 'index.html'))
+    || findFileByPath(project.files, joinPath(target, 'index.php'));
+};
+
+/** The entry page served at `/`: a root-level index, falling back to any index file. */
+export const findIndexFile = (files: File[]): File | undefined => {
+  return findFileByPath(files, 'index.html')
+    || findFileByPath(files, 'index.php')
+    || files.find(f => !f.isDirectory && /^index\.(html|php)$/.test(f.name));
+};
+
+/**
+ * Makes sure every folder in `dirPath` exists, creating directory entries
+ * as needed. Returns the updated file list and the innermost folder's id.
+ */
+export const ensureFolders = (files: File[], dirPath: string): { files: File[]; parentId: string } => {
+  let result = files;
+  let parentId = 'root';
+  normalizePath(dirPath).split('/').filter(Boolean).forEach(segment => {
+    const existing = result.find(f => f.isDirectory && f.parentId === parentId && f.name === segment);
+    if (existing) {
+      parentId = existing.id;
+      return;
+    }
+    const folder: File = {
+      id: Date.now().toString() + Math.random().toString().slice(2),
+      name: segment,
+      content: '',
+      language: 'html',
+      parentId,
+      isDirectory: true
+    };
+    result = [...result, folder];
+    parentId = folder.id;
+  });
+  return { files: result, parentId };
+};
+
+export const getLanguageFromName = (name: string): FileLanguage => {
+  const ext = name.split('.').pop()?.toLowerCase() || '';
+  if (ext === 'css') return 'css';
+  if (ext === 'js' || ext === 'mjs') return 'javascript';
+  if (ext === 'php') return 'php';
+  if (ext === 'json' || ext === 'webmanifest') return 'json';
+  if (ext === 'xml') return 'xml';
+  if (['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'ico'].includes(ext)) return 'image';
+  if (['ttf', 'otf', 'woff', 'woff2'].includes(ext)) return 'font';
+  return 'html';
+};
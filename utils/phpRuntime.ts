@@ -0,0 +1,381 @@
+import { PhpBase } from 'php-wasm/PhpBase.mjs';
+import { Project } from '../types';
+import { getFileBytes, isBinaryFile } from './blobStore';
+import { buildPathIndex, dirname } from './paths';
+
+/**
+ * In-browser PHP (php-wasm, PHP 8.3) used by the preview server to execute
+ * `.php` files. Project files are mirrored into the runtime's in-memory
+ * filesystem below DOCUMENT_ROOT so include/require work across files.
+ *
+ * The runtime is one long-lived PHP request, so a real `exit` would end it
+ * for good. Mirrored scripts get `exit`/`die` rewritten into a throw that
+ * the request catches, and the upload functions into versions that accept
+ * the files this module writes for `$_FILES`.
+ */
+
+export interface PhpRequest {
+  path: string; // Project path of the script, e.g. `admin/index.php`
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: ArrayBuffer | null;
+}
+
+export interface PhpResponse {
+  status: number;
+  headers: [string, string][]; // As sent with header(), Set-Cookie excluded
+  body: string;
+}
+
+export type PhpLogListener = (type: 'log' | 'error' | 'warn', message: string) => void;
+
+const DOCUMENT_ROOT = '/preview';
+const UPLOAD_DIR = '/tmp/buildora-uploads';
+
+const PHP_INI = `
+display_errors=1
+html_errors=1
+log_errors=1
+error_reporting=E_ALL
+session.use_cookies=0
+session.cache_limiter=
+session.save_path=/tmp
+`;
+
+let runtime: Promise<PhpBase> | null = null;
+let syncedProject: { id: string; files: Project['files'] } | null = null;
+// Cookies set by each project's scripts, sent back with its later requests
+const cookieJars = new Map<string, Map<string, string>>();
+let queue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<PhpLogListener>();
+
+// Output of the request currently executing
+let stdout: string[] = [];
+
+const emit = (type: 'log' | 'error' | 'warn', message: string) => {
+  listeners.forEach(listener => listener(type, message));
+};
+
+/** Subscribes to PHP errors and warnings. Returns an unsubscribe function. */
+export const subscribePhpLogs = (listener: PhpLogListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getRuntime = () => {
+  if (!runtime) {
+    const loader = import('php-wasm/php8.3-web.mjs');
+    const php = new PhpBase(loader, { version: '8.3', ini: PHP_INI, autoTransaction: false });
+    php.addEventListener('output', event => {
+      stdout.push(...(event as CustomEvent<string[]>).detail);
+    });
+    php.addEventListener('error', event => {
+      (event as CustomEvent<string[]>).detail.forEach(line => {
+        if (line.trim()) emit(/warning|notice|deprecated/i.test(line) ? 'warn' : 'error', `PHP: ${line.trim()}`);
+      });
+    });
+    runtime = php.binary.then(() => php).catch(e => {
+      runtime = null;
+      throw e;
+    });
+  }
+  return runtime;
+};
+
+const removeTree = async (php: PhpBase, path: string) => {
+  const info = await php.analyzePath(path) as { exists: boolean };
+  if (!info.exists) return;
+  for (const entry of await php.readdir(path)) {
+    if (entry === '.' || entry === '..') continue;
+    const child = `${path}/${entry}`;
+    const stat = await php.stat(child) as { mode: number };
+    // S_IFDIR
+    if ((stat.mode & 0o170000) === 0o040000) await removeTree(php, child);
+    else await php.unlink(child);
+  }
+  await php.rmdir(path);
+};
+
+const ensureDir = async (php: PhpBase, path: string) => {
+  const info = await php.analyzePath(path) as { exists: boolean };
+  if (!info.exists) await php.mkdir(path);
+};
+
+const toBase64 = (value: unknown) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+// Rewrites `exit`/`die` and the upload functions with PHP's own tokenizer, so
+// strings and comments are left alone. Line numbers do not change.
+const rewriteScripts = (paths: string[]) => `<?php
+$buildoraRewrite = function ($source) {
+  $tokens = token_get_all($source);
+  $skip = [T_WHITESPACE, T_COMMENT, T_DOC_COMMENT];
+  $result = '';
+  foreach ($tokens as $i => $token) {
+    $text = is_array($token) ? $token[1] : $token;
+    $id = is_array($token) ? $token[0] : null;
+    for ($next = $i + 1; isset($tokens[$next]) && is_array($tokens[$next]) && in_array($tokens[$next][0], $skip); $next++);
+    for ($prev = $i - 1; $prev >= 0 && is_array($tokens[$prev]) && in_array($tokens[$prev][0], $skip); $prev--);
+    $isCall = ($tokens[$next] ?? null) === '(';
+    $isMember = $prev >= 0 && is_array($tokens[$prev])
+      && in_array($tokens[$prev][0], [T_OBJECT_OPERATOR, T_NULLSAFE_OBJECT_OPERATOR, T_DOUBLE_COLON, T_FUNCTION, T_NEW]);
+    $name = strtolower(ltrim($text, '\\\\'));
+    if ($id === T_EXIT) {
+      $text = '\\\\buildora_exit' . ($isCall ? '' : '()');
+    } elseif (($id === T_STRING || $id === T_NAME_FULLY_QUALIFIED) && $isCall && !$isMember
+      && in_array($name, ['move_uploaded_file', 'is_uploaded_file'], true)) {
+      $text = '\\\\buildora_' . $name;
+    }
+    $result .= $text;
+  }
+  return $result;
+};
+foreach (json_decode(base64_decode('${toBase64(paths)}'), true) as $buildoraPath) {
+  file_put_contents($buildoraPath, $buildoraRewrite(file_get_contents($buildoraPath)));
+}
+`;
+
+/** Mirrors the project into DOCUMENT_ROOT unless it is already up to date. */
+const syncFiles = async (php: PhpBase, project: Project) => {
+  if (syncedProject && syncedProject.id === project.id && syncedProject.files === project.files) return;
+
+  // Requests chdir() into the project, and the working directory cannot be removed
+  await php.run("<?php chdir('/');");
+  await removeTree(php, DOCUMENT_ROOT);
+  await php.mkdir(DOCUMENT_ROOT);
+  const scripts: string[] = [];
+  for (const [path, file] of buildPathIndex(project.files)) {
+    const fullPath = `${DOCUMENT_ROOT}/${path}`;
+    if (file.isDirectory) {
+      await php.mkdir(fullPath);
+    } else {
+      const bytes = isBinaryFile(file) ? await getFileBytes(file) : file.content;
+      if (bytes !== null) await php.writeFile(fullPath, bytes);
+      if (file.language === 'php') scripts.push(fullPath);
+    }
+  }
+  if (scripts.length > 0) {
+    await php.run(rewriteScripts(scripts));
+    php.flush();
+  }
+  syncedProject = { id: project.id, files: project.files };
+};
+
+const phpString = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+interface UploadedFile {
+  name: string;
+  full_path: string;
+  type: string;
+  tmp_name: string;
+  error: number;
+  size: number;
+}
+
+// Fields named `name[]` hold one array per property, e.g. $_FILES['photos']['name'][0]
+type UploadList = { [K in keyof UploadedFile]: UploadedFile[K][] };
+
+// PHP's UPLOAD_ERR_NO_FILE, sent for file inputs left empty
+const UPLOAD_ERR_NO_FILE = 4;
+
+/**
+ * Decodes an urlencoded or multipart body into $_POST fields and $_FILES
+ * entries. Uploads are written below UPLOAD_DIR, which is emptied first.
+ */
+const parseBody = async (php: PhpBase, request: PhpRequest) => {
+  const post: Record<string, string | string[]> = {};
+  const files: Record<string, UploadedFile | UploadList> = {};
+  const contentType = request.headers['content-type'] || '';
+  if (!request.body || !/application\/x-www-form-urlencoded|multipart\/form-data/i.test(contentType)) return { post, files };
+
+  await ensureDir(php, '/tmp');
+  await removeTree(php, UPLOAD_DIR);
+  await php.mkdir(UPLOAD_DIR);
+
+  const form = await new Response(request.body, { headers: { 'Content-Type': contentType } }).formData();
+  let uploadCount = 0;
+  for (const [key, value] of form) {
+    // PHP collects `name[]` fields into arrays
+    const isList = key.endsWith('[]');
+    const name = isList ? key.slice(0, -2) : key;
+
+    if (typeof value === 'string') {
+      const existing = post[name];
+      post[name] = !isList ? value : Array.isArray(existing) ? [...existing, value] : [value];
+      continue;
+    }
+
+    let upload: UploadedFile = { name: value.name, full_path: value.name, type: value.type, tmp_name: '', error: UPLOAD_ERR_NO_FILE, size: 0 };
+    if (value.name) {
+      const tmpName = `${UPLOAD_DIR}/php${++uploadCount}`;
+      await php.writeFile(tmpName, new Uint8Array(await value.arrayBuffer()));
+      upload = { ...upload, type: value.type || 'application/octet-stream', tmp_name: tmpName, error: 0, size: value.size };
+    }
+    if (!isList) {
+      files[name] = upload;
+      continue;
+    }
+    const existing = files[name];
+    const list: UploadList = existing && Array.isArray(existing.name)
+      ? existing as UploadList
+      : { name: [], full_path: [], type: [], tmp_name: [], error: [], size: [] };
+    files[name] = {
+      name: [...list.name, upload.name],
+      full_path: [...list.full_path, upload.full_path],
+      type: [...list.type, upload.type],
+      tmp_name: [...list.tmp_name, upload.tmp_name],
+      error: [...list.error, upload.error],
+      size: [...list.size, upload.size]
+    };
+  }
+  return { post, files };
+};
+
+const getCookieJar = (projectId: string) => {
+  let jar = cookieJars.get(projectId);
+  if (!jar) {
+    jar = new Map();
+    cookieJars.set(projectId, jar);
+  }
+  return jar;
+};
+
+/** Applies a `Set-Cookie` value from setcookie() or header() to the project's jar. */
+const storeCookie = (jar: Map<string, string>, header: string) => {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator <= 0) return;
+  const name = pair.slice(0, separator).trim();
+  let value = pair.slice(separator + 1).trim();
+  try {
+    value = decodeURIComponent(value);
+  } catch {
+    // Keep the raw value, as PHP does for malformed escapes
+  }
+
+  const expired = attributes.some(attribute => {
+    const [key, ...rest] = attribute.split('=');
+    const setting = rest.join('=').trim();
+    if (/^\s*max-age\s*$/i.test(key)) return Number(setting) <= 0;
+    if (/^\s*expires\s*$/i.test(key)) return Date.parse(setting) <= Date.now();
+    return false;
+  });
+  if (expired) jar.delete(name);
+  else jar.set(name, value);
+};
+
+const buildPrelude = async (php: PhpBase, request: PhpRequest, projectId: string) => {
+  const url = new URL(request.url);
+  const get: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => { get[key] = value; });
+  const { post, files } = await parseBody(php, request);
+  const cookies = Object.fromEntries(getCookieJar(projectId));
+  const scriptPath = `${DOCUMENT_ROOT}/${request.path}`;
+  const server = {
+    REQUEST_METHOD: request.method,
+    REQUEST_URI: url.pathname + url.search,
+    QUERY_STRING: url.search.slice(1),
+    SCRIPT_NAME: `/${request.path}`,
+    PHP_SELF: `/${request.path}`,
+    SCRIPT_FILENAME: scriptPath,
+    DOCUMENT_ROOT,
+    HTTP_HOST: url.host,
+    SERVER_NAME: url.hostname,
+    SERVER_PROTOCOL: 'HTTP/1.1',
+    REQUEST_TIME: Math.floor(Date.now() / 1000),
+    CONTENT_TYPE: request.headers['content-type'] || '',
+    HTTP_USER_AGENT: navigator.userAgent,
+    HTTP_COOKIE: Object.entries(cookies).map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('; ')
+  };
+
+  // Values travel base64-encoded so no quoting can break out of the string.
+  // Headers and the status code are left over from the previous request.
+  return `<?php
+if (!class_exists('BuildoraExit', false)) {
+  final class BuildoraExit extends Error {}
+  function buildora_exit($status = 0) {
+    if (is_string($status)) echo $status;
+    throw new BuildoraExit();
+  }
+  function buildora_is_uploaded_file($path) {
+    return is_string($path) && str_starts_with($path, ${phpString(`${UPLOAD_DIR}/`)}) && is_file($path);
+  }
+  function buildora_move_uploaded_file($from, $to) {
+    return buildora_is_uploaded_file($from) && rename($from, $to);
+  }
+}
+header_remove();
+http_response_code(200);
+ob_start();
+$_GET = json_decode(base64_decode('${toBase64(get)}'), true);
+$_POST = json_decode(base64_decode('${toBase64(post)}'), true);
+$_FILES = json_decode(base64_decode('${toBase64(files)}'), true);
+$_COOKIE = json_decode(base64_decode('${toBase64(cookies)}'), true);
+$_REQUEST = array_merge($_GET, $_POST);
+$_SERVER = array_merge($_SERVER, json_decode(base64_decode('${toBase64(server)}'), true));
+session_id(${phpString(`buildora${projectId.replace(/[^a-zA-Z0-9]/g, '')}`)});
+chdir(${phpString(dirname(scriptPath))});
+set_include_path(get_include_path() . PATH_SEPARATOR . ${phpString(DOCUMENT_ROOT)});
+try {
+  require ${phpString(scriptPath)};
+} catch (BuildoraExit $e) {
+}
+`;
+};
+
+// Runs after the script, as a separate call so it also reports after fatal errors
+const RESPONSE_INFO = "json_encode(['status' => http_response_code(), 'headers' => headers_list()])";
+
+/** Splits `Name: value` lines from headers_list(), storing cookies in the project's jar. */
+const readHeaders = (lines: string[], projectId: string) => {
+  const headers: [string, string][] = [];
+  lines.forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name.toLowerCase() === 'set-cookie') storeCookie(getCookieJar(projectId), value);
+    else headers.push([name, value]);
+  });
+  return headers;
+};
+
+/** Executes a PHP script of `project` and returns its output, status and headers as the response. */
+export const runPhpRequest = (project: Project, request: PhpRequest): Promise<PhpResponse> => {
+  // The runtime is a single process, so requests run one at a time
+  const run = queue.then(async (): Promise<PhpResponse> => {
+    const php = await getRuntime();
+    await syncFiles(php, project);
+    const code = await buildPrelude(php, request, project.id);
+
+    stdout = [];
+    try {
+      await php.run(code);
+      php.flush();
+      const body = stdout.join('');
+      const info = await php.exec(RESPONSE_INFO);
+      if (typeof info !== 'string' || !info) {
+        // A real exit (e.g. from eval'd code) ended the runtime's request; start over
+        await php.refresh();
+        syncedProject = null;
+        return { status: 200, headers: [], body };
+      }
+      const { status, headers } = JSON.parse(info) as { status: number; headers: string[] };
+      return { status, headers: readHeaders(headers, project.id), body };
+    } catch (e: any) {
+      emit('error', `PHP: ${e?.message || e}`);
+      return { status: 500, headers: [], body: stdout.join('') };
+    } finally {
+      stdout = [];
+    }
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,80 @@
+import { ConsoleValue, NetworkRequest } from '../types';
+
+/**
+ * Requests from the IDE to the page running in the preview frame, answered
+ * by the preview runtime (see previewRuntime.ts). The most recently mounted
+ * preview is the one commands go to.
+ */
+
+export interface EvaluationResult {
+  ok: boolean; // False when the expression threw or its promise rejected
+  value: ConsoleValue;
+}
+
+/**
+ * Request reports the preview runtime posts to the IDE. Each request sends a
+ * 'request' phase, then a 'response' (and usually a 'body') or an 'error'.
+ */
+export type NetworkMessage = { type: 'NETWORK_REQUEST'; id: string } & (
+  | ({ phase: 'request' } & Pick<NetworkRequest, 'initiator' | 'method' | 'url' | 'requestHeaders' | 'requestBody'>)
+  | ({ phase: 'response' } & Pick<NetworkRequest, 'status' | 'statusText' | 'mimeType' | 'responseHeaders' | 'responseBody' | 'duration'>)
+  | ({ phase: 'body' } & Pick<NetworkRequest, 'responseBody'>)
+  | ({ phase: 'error' } & Pick<NetworkRequest, 'error' | 'blocked' | 'duration'>)
+);
+
+export const isNetworkMessage = (data: unknown): data is NetworkMessage =>
+  typeof data === 'object' && data !== null && (data as { type?: unknown }).type === 'NETWORK_REQUEST';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+type FrameGetter = () => Window | null;
+
+const frames: FrameGetter[] = [];
+let nextRequestId = 1;
+
+/** Makes a preview frame the target of console commands until the returned cleanup runs. */
+export const registerPreviewFrame = (getFrame: FrameGetter) => {
+  frames.push(getFrame);
+  return () => {
+    const index = frames.lastIndexOf(getFrame);
+    if (index !== -1) frames.splice(index, 1);
+  };
+};
+
+export const hasPreviewFrame = () => frames.some(getFrame => !!getFrame());
+
+const request = <T>(type: string, payload: Record<string, unknown>, responseType: string): Promise<T> => {
+  const target = [...frames].reverse().map(getFrame => getFrame()).find(Boolean);
+  if (!target) return Promise.reject(new Error('No preview is running. Open the preview to use the console.'));
+
+  const id = nextRequestId++;
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', handler);
+    };
+    const handler = (event: MessageEvent) => {
+      if (event.source !== target || !event.data || event.data.type !== responseType || event.data.id !== id) return;
+      cleanup();
+      resolve(event.data as T);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error('The preview did not respond. It may be busy or still loading.'));
+    }, REQUEST_TIMEOUT_MS);
+    window.addEventListener('message', handler);
+    target.postMessage({ type, id, ...payload }, '*');
+  });
+};
+
+/** Evaluates an expression in the global scope of the previewed page. */
+export const evaluateInPreview = async (expression: string): Promise<EvaluationResult> => {
+  const response = await request<EvaluationResult>('PREVIEW_EVAL', { expression }, 'PREVIEW_EVAL_RESULT');
+  return { ok: response.ok, value: response.value };
+};
+
+/** Property names completing the identifier or member chain at the end of `expression`. */
+export const getPreviewCompletions = async (expression: string): Promise<string[]> => {
+  const response = await request<{ completions: string[] }>('PREVIEW_COMPLETE', { expression }, 'PREVIEW_COMPLETE_RESULT');
+  return response.completions || [];
+};
@@ -0,0 +1,819 @@
+/**
+ * Script injected at the top of every previewed page. It runs inside the
+ * preview iframe, so it is plain ES5 and talks to the IDE via postMessage.
+ */
+export const PREVIEW_RUNTIME = `
+(function() {
+    // Device emulation hints, passed by the IDE as the frame name
+    try {
+        var hints = window.name.indexOf('buildora:') === 0 ? JSON.parse(window.name.slice(9)) : null;
+        if (hints) {
+            if (hints.userAgent) {
+                Object.defineProperty(navigator, 'userAgent', { get: function() { return hints.userAgent; } });
+            }
+            Object.defineProperty(window, 'devicePixelRatio', { get: function() { return hints.dpr; } });
+            if (hints.touch) {
+                Object.defineProperty(navigator, 'maxTouchPoints', { get: function() { return 5; } });
+                if (!('ontouchstart' in window)) window.ontouchstart = null;
+            }
+        }
+    } catch(e) {}
+
+    // Console bridge: values are serialized into trees the IDE can render
+    var MAX_DEPTH = 4;
+    var MAX_ENTRIES = 100;
+    var groupDepth = 0;
+    var timers = {};
+    var counters = {};
+    var original = {};
+
+    function getClassName(value) {
+        try {
+            var proto = Object.getPrototypeOf(value);
+            if (proto === null) return 'Object';
+            return (proto.constructor && proto.constructor.name) || 'Object';
+        } catch(e) {
+            return 'Object';
+        }
+    }
+
+    function describeNode(node) {
+        if (node.nodeType === 1) {
+            var text = node.tagName.toLowerCase();
+            if (node.id) text += '#' + node.id;
+            if (typeof node.className === 'string' && node.className.trim()) {
+                text += '.' + node.className.trim().split(/\\s+/).join('.');
+            }
+            return '<' + text + '>';
+        }
+        if (node.nodeType === 3) return '#text "' + node.textContent.slice(0, 50) + '"';
+        if (node.nodeType === 9) return '#document';
+        return node.nodeName;
+    }
+
+    function shortDescription(value) {
+        if (value === null) return 'null';
+        var type = typeof value;
+        if (type === 'string') return JSON.stringify(value.length > 50 ? value.slice(0, 50) + '…' : value);
+        if (type === 'function') return 'ƒ';
+        if (type === 'symbol') return value.toString();
+        if (type !== 'object') return String(value);
+        if (Array.isArray(value)) return 'Array(' + value.length + ')';
+        if (value instanceof Error) return value.name;
+        if (typeof Node !== 'undefined' && value instanceof Node) return describeNode(value);
+        return getClassName(value);
+    }
+
+    function listEntries(value) {
+        var entries = [];
+        if (Array.isArray(value)) {
+            for (var i = 0; i < value.length && i < MAX_ENTRIES; i++) entries.push([String(i), value[i]]);
+        } else if (typeof Map !== 'undefined' && value instanceof Map) {
+            value.forEach(function(v, k) {
+                if (entries.length < MAX_ENTRIES) entries.push([shortDescription(k), v]);
+            });
+        } else if (typeof Set !== 'undefined' && value instanceof Set) {
+            value.forEach(function(v) {
+                if (entries.length < MAX_ENTRIES) entries.push([String(entries.length), v]);
+            });
+        } else {
+            var keys = Object.keys(value);
+            for (var j = 0; j < keys.length && j < MAX_ENTRIES; j++) {
+                var item;
+                try { item = value[keys[j]]; } catch(e) { item = e; }
+                entries.push([keys[j], item]);
+            }
+        }
+        return entries;
+    }
+
+    function serialize(value, depth, seen) {
+        var type = typeof value;
+        if (value === null) return { type: 'null', description: 'null' };
+        if (type === 'undefined') return { type: 'undefined', description: 'undefined' };
+        if (type === 'string' || type === 'number' || type === 'boolean' || type === 'bigint') {
+            return { type: type, description: type === 'number' && value === 0 && 1 / value < 0 ? '-0' : String(value) };
+        }
+        if (type === 'symbol') return { type: 'symbol', description: value.toString() };
+        if (type === 'function') return { type: 'function', description: 'ƒ ' + (value.name || 'anonymous') + '()' };
+        if (value instanceof Error) {
+            return { type: 'error', description: value.name + ': ' + value.message, stack: value.stack };
+        }
+        if (typeof Node !== 'undefined' && value instanceof Node) return { type: 'node', description: describeNode(value) };
+        if (value instanceof Date) return { type: 'object', description: isNaN(value) ? 'Invalid Date' : value.toISOString() };
+        if (value instanceof RegExp) return { type: 'object', description: String(value) };
+        if (seen.indexOf(value) !== -1) return { type: 'circular', description: '[Circular ' + getClassName(value) + ']' };
+
+        var isArray = Array.isArray(value);
+        var entries = listEntries(value);
+        var size = isArray ? value.length : (value instanceof Map || value instanceof Set) ? value.size : null;
+        var label = isArray ? 'Array(' + value.length + ')' : getClassName(value) + (size !== null ? '(' + size + ')' : '');
+        var preview = entries.slice(0, 5).map(function(entry) {
+            return isArray ? shortDescription(entry[1]) : entry[0] + ': ' + shortDescription(entry[1]);
+        }).join(', ') + (entries.length > 5 ? ', …' : '');
+        var result = {
+            type: isArray ? 'array' : 'object',
+            description: label + (isArray ? ' [' + preview + ']' : ' {' + preview + '}')
+        };
+        if (depth < MAX_DEPTH) {
+            seen.push(value);
+            result.entries = entries.map(function(entry) {
+                return { key: entry[0], value: serialize(entry[1], depth + 1, seen) };
+            });
+            seen.pop();
+        }
+        return result;
+    }
+
+    function toText(args) {
+        return args.map(function(a) {
+            if (typeof a === 'string') return a;
+            return serialize(a, MAX_DEPTH, []).description;
+        }).join(' ');
+    }
+
+    function post(level, args, extra) {
+        try {
+            var message = {
+                type: 'CONSOLE_LOG',
+                level: level,
+                message: toText(args),
+                args: args.map(function(a) { return serialize(a, 0, []); }),
+                depth: groupDepth
+            };
+            for (var key in extra) message[key] = extra[key];
+            window.parent.postMessage(message, '*');
+        } catch(e) {}
+    }
+
+    function buildTable(data, columns) {
+        var rows = listEntries(data).map(function(entry) {
+            var cells = {};
+            var value = entry[1];
+            if (value !== null && typeof value === 'object') {
+                listEntries(value).forEach(function(cell) { cells[cell[0]] = serialize(cell[1], MAX_DEPTH, []); });
+            } else {
+                cells.Value = serialize(value, 0, []);
+            }
+            return { index: entry[0], cells: cells };
+        });
+        var names = columns || [];
+        if (!columns) {
+            rows.forEach(function(row) {
+                Object.keys(row.cells).forEach(function(name) {
+                    if (names.indexOf(name) === -1) names.push(name);
+                });
+            });
+        }
+        return { columns: names, rows: rows };
+    }
+
+    // Stack of the page code that called console, without the frames added here
+    function callerStack() {
+        var lines = String(new Error().stack || '').split('\\n');
+        if (lines[0] && !/:\\d+:\\d+\\)?$/.test(lines[0])) lines.shift();
+        return lines.slice(3).join('\\n');
+    }
+
+    function wrap(name, handler) {
+        original[name] = console[name];
+        console[name] = function() {
+            var args = Array.prototype.slice.call(arguments);
+            try { handler(args); } catch(e) {}
+            if (original[name]) return original[name].apply(console, arguments);
+        };
+    }
+
+    wrap('log', function(args) { post('log', args); });
+    wrap('debug', function(args) { post('log', args); });
+    wrap('info', function(args) { post('info', args); });
+    wrap('warn', function(args) { post('warn', args); });
+    wrap('error', function(args) { post('error', args); });
+    wrap('trace', function(args) {
+        post('log', ['console.trace'].concat(args), { stack: callerStack() });
+    });
+    wrap('assert', function(args) {
+        if (args[0]) return;
+        post('error', ['Assertion failed:'].concat(args.length > 1 ? args.slice(1) : ['console.assert']), { stack: callerStack() });
+    });
+    wrap('table', function(args) {
+        var data = args[0];
+        if (data === null || typeof data !== 'object') {
+            post('log', args);
+            return;
+        }
+        post('log', [data], { table: buildTable(data, args[1]) });
+    });
+    wrap('group', function(args) {
+        post('log', args.length ? args : ['console.group'], { group: 'start' });
+        groupDepth++;
+    });
+    wrap('groupCollapsed', function(args) {
+        post('log', args.length ? args : ['console.group'], { group: 'collapsed' });
+        groupDepth++;
+    });
+    wrap('groupEnd', function() {
+        if (groupDepth > 0) groupDepth--;
+    });
+    wrap('time', function(args) {
+        timers[args.length ? String(args[0]) : 'default'] = performance.now();
+    });
+    function timerHandler(end) {
+        return function(args) {
+            var label = args.length ? String(args[0]) : 'default';
+            if (!(label in timers)) {
+                post('warn', ["Timer '" + label + "' does not exist"]);
+                return;
+            }
+            var elapsed = performance.now() - timers[label];
+            if (end) delete timers[label];
+            post('log', [label + ': ' + elapsed.toFixed(3) + ' ms'].concat(args.slice(1)));
+        };
+    }
+    wrap('timeLog', timerHandler(false));
+    wrap('timeEnd', timerHandler(true));
+    wrap('count', function(args) {
+        var label = args.length ? String(args[0]) : 'default';
+        counters[label] = (counters[label] || 0) + 1;
+        post('log', [label + ': ' + counters[label]]);
+    });
+    wrap('countReset', function(args) {
+        counters[args.length ? String(args[0]) : 'default'] = 0;
+    });
+
+    window.addEventListener('error', function(event) {
+        // Resource load failures have no message
+        if (!event.message) return;
+        var error = event.error;
+        post('error', [error instanceof Error ? error : event.message], {
+            stack: error && error.stack ? error.stack : '    at ' + event.filename + ':' + event.lineno + ':' + event.colno
+        });
+    });
+
+    window.addEventListener('unhandledrejection', function(event) {
+        var reason = event.reason;
+        post('error', ['Uncaught (in promise)', reason], { stack: reason && reason.stack ? reason.stack : undefined });
+    });
+
+    // Network inspector: fetch and XMLHttpRequest calls are reported to the IDE
+    var MAX_BODY_LENGTH = 100000;
+    var requestPrefix = Math.random().toString(36).slice(2, 8) + '-';
+    var requestCount = 0;
+
+    function postNetwork(update) {
+        try {
+            update.type = 'NETWORK_REQUEST';
+            window.parent.postMessage(update, '*');
+        } catch(e) {}
+    }
+
+    function resolveRequestUrl(url) {
+        try {
+            return new URL(url, location.href).href;
+        } catch(e) {
+            return String(url);
+        }
+    }
+
+    // Why the browser refused a failed request before it reached the network
+    function blockedReason(url) {
+        var target;
+        try {
+            target = new URL(url, location.href);
+        } catch(e) {
+            // Inline previews have no URL to resolve relative requests against
+            return location.protocol === 'about:' ? 'sandbox' : undefined;
+        }
+        if (location.protocol === 'https:' && target.protocol === 'http:'
+            && !/^(localhost|127\\.0\\.0\\.1|\\[::1\\])$/.test(target.hostname)) {
+            return 'mixed-content';
+        }
+        if (window.origin === 'null' && target.origin !== 'null') return 'sandbox';
+        return undefined;
+    }
+
+    function truncateBody(text) {
+        if (text.length <= MAX_BODY_LENGTH) return text;
+        return text.slice(0, MAX_BODY_LENGTH) + '\\n… (' + text.length + ' characters)';
+    }
+
+    function describeBody(body) {
+        if (body === undefined || body === null) return undefined;
+        if (typeof body === 'string') return truncateBody(body);
+        if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) return body.toString();
+        if (typeof FormData !== 'undefined' && body instanceof FormData) {
+            var parts = [];
+            body.forEach(function(value, key) {
+                parts.push(key + '=' + (typeof value === 'string' ? value : '[File ' + value.name + ']'));
+            });
+            return parts.join('&');
+        }
+        if (typeof Blob !== 'undefined' && body instanceof Blob) return '[Blob ' + body.size + ' bytes]';
+        if (body.byteLength !== undefined) return '[Binary ' + body.byteLength + ' bytes]';
+        return String(body);
+    }
+
+    function isTextType(type) {
+        return !type || /^text\\/|json|javascript|xml|x-www-form-urlencoded/.test(type);
+    }
+
+    function headersToObject(headers) {
+        var result = {};
+        if (!headers) return result;
+        if (Array.isArray(headers)) {
+            headers.forEach(function(pair) { result[String(pair[0]).toLowerCase()] = String(pair[1]); });
+        } else if (typeof headers.forEach === 'function') {
+            headers.forEach(function(value, key) { result[key] = value; });
+        } else {
+            Object.keys(headers).forEach(function(key) { result[key.toLowerCase()] = String(headers[key]); });
+        }
+        return result;
+    }
+
+    function parseHeaders(text) {
+        var result = {};
+        text.trim().split(/[\\r\\n]+/).forEach(function(line) {
+            var index = line.indexOf(':');
+            if (index > 0) result[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+        });
+        return result;
+    }
+
+    if (window.fetch) {
+        var originalFetch = window.fetch;
+        window.fetch = function(input, init) {
+            var id = requestPrefix + (++requestCount);
+            var isRequest = typeof Request !== 'undefined' && input instanceof Request;
+            var url = resolveRequestUrl(isRequest ? input.url : input);
+            var started = performance.now();
+            postNetwork({
+                id: id,
+                phase: 'request',
+                initiator: 'fetch',
+                method: String((init && init.method) || (isRequest ? input.method : 'GET')).toUpperCase(),
+                url: url,
+                requestHeaders: headersToObject((init && init.headers) || (isRequest ? input.headers : null)),
+                requestBody: describeBody(init && init.body)
+            });
+            return originalFetch.apply(window, arguments).then(function(response) {
+                var type = response.headers.get('content-type') || '';
+                postNetwork({
+                    id: id,
+                    phase: 'response',
+                    status: response.status,
+                    statusText: response.statusText,
+                    mimeType: type,
+                    responseHeaders: headersToObject(response.headers),
+                    duration: performance.now() - started
+                });
+                if (response.type === 'opaque') {
+                    postNetwork({ id: id, phase: 'body', responseBody: '[Opaque response, body not readable]' });
+                } else if (isTextType(type)) {
+                    // Read from a copy so the page still gets the whole body; streams report when they end
+                    response.clone().text().then(function(text) {
+                        postNetwork({ id: id, phase: 'body', responseBody: truncateBody(text) });
+                    }, function() {});
+                } else {
+                    postNetwork({ id: id, phase: 'body', responseBody: '[Binary ' + type + ']' });
+                }
+                return response;
+            }, function(error) {
+                postNetwork({
+                    id: id,
+                    phase: 'error',
+                    error: String((error && error.message) || error),
+                    blocked: blockedReason(url),
+                    duration: performance.now() - started
+                });
+                throw error;
+            });
+        };
+    }
+
+    if (window.XMLHttpRequest) {
+        var xhrProto = XMLHttpRequest.prototype;
+        var originalOpen = xhrProto.open;
+        var originalSend = xhrProto.send;
+        var originalSetRequestHeader = xhrProto.setRequestHeader;
+
+        xhrProto.open = function(method, url) {
+            this.__buildoraRequest = {
+                id: requestPrefix + (++requestCount),
+                method: String(method).toUpperCase(),
+                url: resolveRequestUrl(url),
+                headers: {}
+            };
+            return originalOpen.apply(this, arguments);
+        };
+
+        xhrProto.setRequestHeader = function(name, value) {
+            if (this.__buildoraRequest) this.__buildoraRequest.headers[String(name).toLowerCase()] = String(value);
+            return originalSetRequestHeader.apply(this, arguments);
+        };
+
+        xhrProto.send = function(body) {
+            var xhr = this;
+            var request = xhr.__buildoraRequest;
+            if (request) {
+                var started = performance.now();
+                var failure = null;
+                postNetwork({
+                    id: request.id,
+                    phase: 'request',
+                    initiator: 'xhr',
+                    method: request.method,
+                    url: request.url,
+                    requestHeaders: request.headers,
+                    requestBody: describeBody(body)
+                });
+                xhr.addEventListener('abort', function() { failure = 'Request aborted'; });
+                xhr.addEventListener('timeout', function() { failure = 'Request timed out'; });
+                xhr.addEventListener('loadend', function() {
+                    var duration = performance.now() - started;
+                    if (xhr.status === 0) {
+                        postNetwork({
+                            id: request.id,
+                            phase: 'error',
+                            error: failure || 'Network request failed',
+                            blocked: failure ? undefined : blockedReason(request.url),
+                            duration: duration
+                        });
+                        return;
+                    }
+                    var type = xhr.getResponseHeader('content-type') || '';
+                    var responseBody;
+                    if (xhr.responseType === '' || xhr.responseType === 'text') {
+                        responseBody = truncateBody(xhr.responseText);
+                    } else if (xhr.responseType === 'json') {
+                        responseBody = truncateBody(JSON.stringify(xhr.response, null, 2));
+                    } else if (xhr.responseType === 'document') {
+                        responseBody = '[Document]';
+                    } else {
+                        responseBody = '[Binary ' + type + ']';
+                    }
+                    postNetwork({
+                        id: request.id,
+                        phase: 'response',
+                        status: xhr.status,
+                        statusText: xhr.statusText,
+                        mimeType: type,
+                        responseHeaders: parseHeaders(xhr.getAllResponseHeaders()),
+                        responseBody: responseBody,
+                        duration: duration
+                    });
+                });
+            }
+            return originalSend.apply(this, arguments);
+        };
+    }
+
+    // In-page navigation reporting for the address bar (page loads are seen by the IDE)
+    function notifyNavigation() {
+        try {
+            window.parent.postMessage({ type: 'PREVIEW_NAVIGATED', url: location.href, title: document.title }, '*');
+        } catch(e) {}
+    }
+
+    window.addEventListener('hashchange', notifyNavigation);
+    window.addEventListener('popstate', notifyNavigation);
+    ['pushState', 'replaceState'].forEach(function(name) {
+        var original = history[name];
+        history[name] = function() {
+            var result = original.apply(this, arguments);
+            notifyNavigation();
+            return result;
+        };
+    });
+
+    // Hot CSS updates: re-request changed stylesheets without reloading the page
+    function swapStylesheet(link, stamp) {
+        var url = new URL(link.href, location.href);
+        url.searchParams.set('__hot', stamp);
+        var next = link.cloneNode();
+        next.href = url.href;
+        // Keep the old sheet until the new one has loaded to avoid a flash of unstyled content
+        next.onload = next.onerror = function() {
+            if (link.parentNode) link.parentNode.removeChild(link);
+        };
+        link.parentNode.insertBefore(next, link.nextSibling);
+    }
+
+    window.addEventListener('message', function(e) {
+        if (e.source !== window.parent || !e.data || e.data.type !== 'PREVIEW_CSS_UPDATE') return;
+        var links = Array.prototype.slice.call(document.querySelectorAll('link[rel~="stylesheet"][href]'));
+        var stamp = Date.now();
+        var matched = links.filter(function(link) {
+            var path = decodeURIComponent(new URL(link.href, location.href).pathname);
+            return e.data.paths.some(function(p) { return path.slice(-p.length - 1) === '/' + p; });
+        });
+        // A changed file that no <link> points at may be pulled in through @import
+        (matched.length ? matched : links).forEach(function(link) { swapStylesheet(link, stamp); });
+    });
+
+    // Console commands from the IDE, evaluated in the page's global scope
+    var KEYWORDS = ['await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'delete', 'do',
+        'else', 'false', 'finally', 'for', 'function', 'if', 'in', 'instanceof', 'let', 'new', 'null', 'return',
+        'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while'];
+
+    function evaluate(expression) {
+        // A leading brace is an object literal, as in browser consoles
+        if (/^\\s*\\{/.test(expression)) {
+            try {
+                return (0, eval)('(' + expression + ')');
+            } catch(e) {
+                if (!(e instanceof SyntaxError)) throw e;
+            }
+        }
+        return (0, eval)(expression);
+    }
+
+    function propertyNames(object) {
+        var names = [];
+        for (var target = Object(object); target; target = Object.getPrototypeOf(target)) {
+            Object.getOwnPropertyNames(target).forEach(function(name) {
+                if (names.indexOf(name) === -1) names.push(name);
+            });
+        }
+        return names;
+    }
+
+    function complete(expression) {
+        var match = /(?:^|[^\\w$.])((?:[A-Za-z_$][\\w$]*\\.)*)([A-Za-z_$][\\w$]*)?$/.exec(expression);
+        if (!match || (!match[1] && !match[2])) return [];
+        var prefix = match[2] || '';
+        var names;
+        if (match[1]) {
+            // Only plain member chains get here, so nothing but getters runs
+            var object = (0, eval)(match[1].slice(0, -1));
+            if (object === null || object === undefined) return [];
+            names = propertyNames(object);
+        } else {
+            names = propertyNames(window).concat(KEYWORDS);
+        }
+        return names.filter(function(name) {
+            return name !== prefix && name.indexOf(prefix) === 0 && /^[A-Za-z_$][\\w$]*$/.test(name);
+        }).sort().slice(0, 50);
+    }
+
+    window.addEventListener('message', function(e) {
+        if (e.source !== window.parent || !e.data) return;
+        var id = e.data.id;
+        if (e.data.type === 'PREVIEW_EVAL') {
+            var reply = function(ok, value) {
+                if (ok) window.$_ = value;
+                window.parent.postMessage({ type: 'PREVIEW_EVAL_RESULT', id: id, ok: ok, value: serialize(value, 0, []) }, '*');
+            };
+            try {
+                var result = evaluate(e.data.expression);
+                if (result && typeof result.then === 'function') {
+                    result.then(function(value) { reply(true, value); }, function(error) { reply(false, error); });
+                } else {
+                    reply(true, result);
+                }
+            } catch(error) {
+                reply(false, error);
+            }
+        } else if (e.data.type === 'PREVIEW_COMPLETE') {
+            var completions = [];
+            try { completions = complete(e.data.expression); } catch(error) {}
+            window.parent.postMessage({ type: 'PREVIEW_COMPLETE_RESULT', id: id, completions: completions }, '*');
+        }
+    });
+
+    // Element inspector: tap to select, then report the element to the IDE
+    var INSPECTED_STYLES = ['display', 'position', 'top', 'right', 'bottom', 'left', 'width', 'height',
+        'box-sizing', 'margin', 'padding', 'border', 'border-radius', 'color', 'background-color',
+        'background-image', 'font-family', 'font-size', 'font-weight', 'line-height', 'text-align',
+        'flex-direction', 'flex-wrap', 'justify-content', 'align-items', 'gap', 'grid-template-columns',
+        'z-index', 'opacity', 'overflow', 'transform', 'visibility'];
+    var inspecting = false;
+    var selected = null;
+    var overlay = null;
+
+    function px(value) {
+        return parseFloat(value) || 0;
+    }
+
+    function getBoxModel(element) {
+        var style = getComputedStyle(element);
+        var rect = element.getBoundingClientRect();
+        var sides = ['top', 'right', 'bottom', 'left'];
+        var box = {
+            margin: sides.map(function(side) { return px(style.getPropertyValue('margin-' + side)); }),
+            border: sides.map(function(side) { return px(style.getPropertyValue('border-' + side + '-width')); }),
+            padding: sides.map(function(side) { return px(style.getPropertyValue('padding-' + side)); })
+        };
+        box.width = Math.max(0, rect.width - box.border[1] - box.border[3] - box.padding[1] - box.padding[3]);
+        box.height = Math.max(0, rect.height - box.border[0] - box.border[2] - box.padding[0] - box.padding[2]);
+        return box;
+    }
+
+    function getOverlay() {
+        if (overlay) return overlay;
+        overlay = document.createElement('div');
+        overlay.setAttribute('data-buildora-inspector', '');
+        overlay.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;box-sizing:border-box;'
+            + 'border-style:solid;border-color:rgba(246,178,107,0.66);';
+        var colors = ['rgba(255,229,153,0.66)', 'rgba(147,196,125,0.55)'];
+        var parent = overlay;
+        colors.forEach(function(color) {
+            var layer = document.createElement('div');
+            layer.style.cssText = 'width:100%;height:100%;box-sizing:border-box;border-style:solid;border-color:' + color;
+            parent.appendChild(layer);
+            parent = layer;
+        });
+        var content = document.createElement('div');
+        content.style.cssText = 'width:100%;height:100%;background:rgba(111,168,220,0.66)';
+        parent.appendChild(content);
+        var label = document.createElement('div');
+        label.style.cssText = 'position:absolute;left:0;top:100%;margin-top:4px;padding:2px 6px;border-radius:3px;'
+            + 'background:#1f2937;color:#fff;font:11px monospace;white-space:nowrap';
+        overlay.appendChild(label);
+        return overlay;
+    }
+
+    function describeElement(element) {
+        var text = element.tagName.toLowerCase();
+        if (element.id) text += '#' + element.id;
+        if (typeof element.className === 'string' && element.className.trim()) {
+            text += '.' + element.className.trim().split(/\\s+/).join('.');
+        }
+        return text;
+    }
+
+    function highlight(element) {
+        var box = getOverlay();
+        if (!element || !element.getBoundingClientRect) {
+            box.style.display = 'none';
+            return;
+        }
+        var rect = element.getBoundingClientRect();
+        var model = getBoxModel(element);
+        box.style.display = 'block';
+        box.style.left = (rect.left - model.margin[3]) + 'px';
+        box.style.top = (rect.top - model.margin[0]) + 'px';
+        box.style.width = (rect.width + model.margin[1] + model.margin[3]) + 'px';
+        box.style.height = (rect.height + model.margin[0] + model.margin[2]) + 'px';
+        box.style.borderWidth = model.margin.join('px ') + 'px';
+        box.firstChild.style.borderWidth = model.border.join('px ') + 'px';
+        box.firstChild.firstChild.style.borderWidth = model.padding.join('px ') + 'px';
+        box.lastChild.textContent = describeElement(element) + '  ' + Math.round(rect.width) + ' × ' + Math.round(rect.height);
+        if (!box.parentNode) document.documentElement.appendChild(box);
+    }
+
+    // CSS rules that apply to the element, in cascade order
+    function getMatchedRules(element) {
+        var rules = [];
+        function visit(list, href) {
+            for (var i = 0; i < list.length; i++) {
+                var rule = list[i];
+                if (rule.selectorText) {
+                    try {
+                        if (element.matches(rule.selectorText)) {
+                            rules.push({ selector: rule.selectorText, href: href, declarations: rule.style.cssText });
+                        }
+                    } catch(e) {}
+                } else if (rule.cssRules && (!rule.media || matchMedia(rule.media.mediaText).matches)) {
+                    visit(rule.cssRules, href);
+                }
+            }
+        }
+        Array.prototype.forEach.call(document.styleSheets, function(sheet) {
+            if (sheet.ownerNode && sheet.ownerNode.hasAttribute && sheet.ownerNode.hasAttribute('data-buildora-inspector')) return;
+            try {
+                visit(sheet.cssRules, sheet.href);
+            } catch(e) {
+                // Cross-origin stylesheets cannot be read
+            }
+        });
+        return rules;
+    }
+
+    function reportSelection() {
+        if (!selected) return;
+        var path = [];
+        for (var node = selected; node && node.nodeType === 1; node = node.parentElement) {
+            path.unshift({ tagName: node.tagName.toLowerCase(), id: node.id || undefined, label: describeElement(node) });
+        }
+        var style = getComputedStyle(selected);
+        var styles = {};
+        INSPECTED_STYLES.forEach(function(name) {
+            var value = style.getPropertyValue(name);
+            if (value) styles[name] = value;
+        });
+        var tagName = selected.tagName.toLowerCase();
+        window.parent.postMessage({
+            type: 'PREVIEW_INSPECT_SELECTED',
+            element: {
+                tagName: tagName,
+                id: selected.id || undefined,
+                // Position among same-named elements, to find its tag in the HTML source
+                occurrence: Array.prototype.indexOf.call(document.getElementsByTagName(tagName), selected),
+                path: path,
+                attributes: Array.prototype.map.call(selected.attributes, function(attribute) {
+                    return { name: attribute.name, value: attribute.value };
+                }),
+                box: getBoxModel(selected),
+                styles: styles,
+                rules: getMatchedRules(selected),
+                pageUrl: location.href
+            }
+        }, '*');
+    }
+
+    function select(element) {
+        selected = element;
+        highlight(element);
+        reportSelection();
+    }
+
+    function setInspecting(enabled) {
+        inspecting = enabled;
+        if (!enabled) highlight(selected);
+    }
+
+    ['mousedown', 'mouseup', 'pointerdown', 'pointerup', 'touchstart', 'touchend'].forEach(function(type) {
+        window.addEventListener(type, function(e) {
+            if (inspecting) e.stopPropagation();
+        }, true);
+    });
+    window.addEventListener('mousemove', function(e) {
+        if (inspecting && e.target && e.target.nodeType === 1) highlight(e.target);
+    }, true);
+    window.addEventListener('click', function(e) {
+        if (!inspecting || !e.target || e.target.nodeType !== 1) return;
+        e.preventDefault();
+        e.stopPropagation();
+        inspecting = false;
+        select(e.target);
+    }, true);
+
+    function refreshHighlight() {
+        if (overlay && overlay.style.display !== 'none' && !inspecting) highlight(selected);
+    }
+    window.addEventListener('scroll', refreshHighlight, true);
+    window.addEventListener('resize', refreshHighlight);
+
+    window.addEventListener('message', function(e) {
+        if (e.source !== window.parent || !e.data) return;
+        var data = e.data;
+        if (data.type === 'PREVIEW_INSPECT') {
+            setInspecting(!!data.enabled);
+        } else if (data.type === 'PREVIEW_INSPECT_SELECT' && selected) {
+            // Depth counts from <html> along the reported path
+            var chain = [];
+            for (var node = selected; node && node.nodeType === 1; node = node.parentElement) chain.unshift(node);
+            if (chain[data.depth]) select(chain[data.depth]);
+        } else if (data.type === 'PREVIEW_INSPECT_EDIT' && selected) {
+            try {
+                if (data.style) selected.style.setProperty(data.style.property, data.style.value);
+                if (data.attribute) {
+                    if (data.attribute.value === null) selected.removeAttribute(data.attribute.name);
+                    else selected.setAttribute(data.attribute.name, data.attribute.value);
+                }
+            } catch(error) {
+                console.warn('Inspector edit failed: ' + error.message);
+            }
+            highlight(selected);
+            reportSelection();
+        } else if (data.type === 'PREVIEW_INSPECT_CLEAR') {
+            inspecting = false;
+            selected = null;
+            highlight(null);
+        }
+    });
+
+    // External links open in a new tab; inline (srcdoc) previews have no URL
+    // to resolve project links against, so the IDE loads those pages instead
+    document.addEventListener('click', function(e) {
+        var link = e.target && e.target.closest ? e.target.closest('a[href]') : null;
+        if (!link || e.defaultPrevented || e.button !== 0) return;
+        var href = link.getAttribute('href');
+        if (!href || href.charAt(0) === '#' || /^javascript:/i.test(href)) return;
+
+        if (/^([a-z][a-z0-9+.-]*:|\\/\\/)/i.test(href) && link.origin !== location.origin) {
+            e.preventDefault();
+            window.parent.postMessage({ type: 'PREVIEW_OPEN_EXTERNAL', url: link.href }, '*');
+        } else if (location.protocol === 'about:') {
+            e.preventDefault();
+            window.parent.postMessage({ type: 'PREVIEW_NAVIGATE', href: href }, '*');
+        }
+    });
+})();
+`;
+
+/** Where the preview server serves the runtime, relative to the project root. */
+export const RUNTIME_PATH = '__buildora__/runtime.js';
+
+/**
+ * Inserts the preview runtime as the first script of an HTML document. With
+ * `src` it is loaded from there as a one-line tag, so line numbers reported
+ * for the page's own inline scripts stay exact.
+ */
+export const injectRuntime = (html: string, src?: string): string => {
+  const tag = src ? `<script src="${src}"></script>` : `<script>${PREVIEW_RUNTIME}</script>`;
+  if (/<head\b[^>]*>/i.test(html)) return html.replace(/<head\b[^>]*>/i, match => match + tag);
+  if (/<html\b[^>]*>/i.test(html)) return html.replace(/<html\b[^>]*>/i, match => match + tag);
+  // Keep a leading doctype first, or the page would render in quirks mode
+  return html.replace(/^(\s*<!doctype[^>]*>)?/i, match => match + tag);
+};
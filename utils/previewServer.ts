@@ -0,0 +1,155 @@
+import { Project } from '../types';
+import { getBlob, guessMimeType, isBinaryFile } from './blobStore';
+import { buildPathIndex } from './paths';
+import { injectRuntime, PREVIEW_RUNTIME, RUNTIME_PATH } from './previewRuntime';
+import { runPhpRequest, PhpRequest } from './phpRuntime';
+
+/**
+ * Client side of the preview service worker (public/preview-sw.js), which
+ * serves project files below `__preview/<projectId>/` like a web server.
+ * The worker forwards requests for PHP files here to be executed.
+ */
+
+interface PublishedFile {
+  path: string;
+  body: string | Blob;
+  type: string;
+  php?: boolean; // Executed on request instead of served as-is
+}
+
+const PREVIEW_SEGMENT = '__preview/';
+const PUBLISH_TIMEOUT_MS = 5000;
+
+// Kept so the worker can ask for a project again after it was restarted
+const published = new Map<string, { project: Project; files: PublishedFile[] }>();
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const isPreviewServerSupported = () => 'serviceWorker' in navigator && window.isSecureContext;
+
+/** Replaces PHP with its static output, for browsers that cannot run the preview server. */
+export const simulatePhp = (content: string) => {
+  let html = content;
+  html = html.replace(/<\?php\s+echo\s+["'](.*?)["'];\s*\?>/g, '$1');
+  html = html.replace(/<\?php\s+echo\s+\$(.*?);\s*\?>/g, '{{Variable: $1}}');
+  html = html.replace(/<\?php[\s\S]*?\?>/g, '');
+  return `
+    <div style="background:#fff3cd; color:#856404; padding:8px; font-size:12px; text-align:center; font-family:sans-serif; border-bottom:1px solid #ffeeba;">
+      Buildora Local PHP Server (Simulated) &bull; Static Output Only
+    </div>
+    ${html}
+  `;
+};
+
+const handlePhpRequest = async (port: MessagePort, projectId: string, request: PhpRequest) => {
+  const entry = published.get(projectId);
+  if (!entry) {
+    port.postMessage(null);
+    return;
+  }
+  try {
+    const response = await runPhpRequest(entry.project, request);
+    const type = response.headers.find(([name]) => name.toLowerCase() === 'content-type')?.[1] || 'text/html; charset=utf-8';
+    const headers = response.headers.filter(([name]) => name.toLowerCase() !== 'content-type');
+    // JSON and other non-HTML output must reach the page unchanged
+    const body = /^text\/html/i.test(type) ? injectRuntime(response.body, getPreviewUrl(projectId, RUNTIME_PATH)) : response.body;
+    port.postMessage({ status: response.status, body, type, headers });
+  } catch (e: any) {
+    console.error("PHP request failed", e);
+    port.postMessage({ status: 500, body: `PHP runtime failed to start: ${e?.message || e}`, type: 'text/plain; charset=utf-8' });
+  }
+};
+
+const handleWorkerMessage = (event: MessageEvent) => {
+  const data = event.data || {};
+  const port = event.ports[0];
+  if (!port) return;
+  if (data.type === 'PREVIEW_RESYNC') {
+    port.postMessage({ files: published.get(data.projectId)?.files || null });
+  } else if (data.type === 'PREVIEW_PHP_REQUEST') {
+    handlePhpRequest(port, data.projectId, data.request);
+  }
+};
+
+/** Registers the preview worker once and resolves when it is active, or null if unavailable. */
+export const startPreviewServer = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!registration) {
+    registration = (async () => {
+      if (!isPreviewServerSupported()) return null;
+      try {
+        navigator.serviceWorker.addEventListener('message', handleWorkerMessage);
+        await navigator.serviceWorker.register('./preview-sw.js', { scope: './' });
+        return await navigator.serviceWorker.ready;
+      } catch (e) {
+        console.error("Preview server unavailable", e);
+        return null;
+      }
+    })();
+  }
+  return registration;
+};
+
+export const getPreviewUrl = (projectId: string, path = '') => {
+  return new URL(`${PREVIEW_SEGMENT}${encodeURIComponent(projectId)}/${encodeURI(path)}`, document.baseURI).href;
+};
+
+/** Maps a preview URL back to the project path it serves (with query and hash), or null for other URLs. */
+export const getPreviewPath = (projectId: string, url: string): string | null => {
+  const base = getPreviewUrl(projectId);
+  if (!url.startsWith(base)) return null;
+  try {
+    return decodeURI(url.slice(base.length));
+  } catch {
+    return url.slice(base.length);
+  }
+};
+
+const toPublishedFiles = async (project: Project): Promise<PublishedFile[]> => {
+  const runtimeUrl = getPreviewUrl(project.id, RUNTIME_PATH);
+  const result: PublishedFile[] = [{ path: RUNTIME_PATH, body: PREVIEW_RUNTIME, type: 'text/javascript; charset=utf-8' }];
+  for (const [path, file] of buildPathIndex(project.files)) {
+    if (file.isDirectory) continue;
+
+    if (isBinaryFile(file)) {
+      const blob = file.blobHash ? await getBlob(file.blobHash) : null;
+      if (blob) result.push({ path, body: blob, type: blob.type || guessMimeType(file.name) });
+      continue;
+    }
+
+    const type = guessMimeType(file.name);
+    if (file.language === 'php') {
+      result.push({ path, body: '', type: 'text/html; charset=utf-8', php: true });
+    } else if (type.startsWith('text/html')) {
+      result.push({ path, body: injectRuntime(file.content, runtimeUrl), type });
+    } else {
+      result.push({ path, body: file.content, type: type === 'application/octet-stream' ? 'text/plain; charset=utf-8' : type });
+    }
+  }
+  return result;
+};
+
+/** Sends the project's current files to the preview worker. Resolves false if it is unavailable. */
+export const publishProject = async (project: Project): Promise<boolean> => {
+  const reg = await startPreviewServer();
+  const worker = reg?.active;
+  if (!worker) return false;
+
+  const files = await toPublishedFiles(project);
+  published.set(project.id, { project, files });
+
+  return new Promise<boolean>(resolve => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(false), PUBLISH_TIMEOUT_MS);
+    channel.port1.onmessage = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    worker.postMessage({ type: 'PREVIEW_PUBLISH', projectId: project.id, files }, [channel.port2]);
+  });
+};
+
+export const unpublishProject = async (projectId: string) => {
+  published.delete(projectId);
+  const reg = await startPreviewServer();
+  reg?.active?.postMessage({ type: 'PREVIEW_UNPUBLISH', projectId });
+};
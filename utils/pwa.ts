@@ -0,0 +1,195 @@
+/**
+ * Progressive Web App export: a web manifest, icons and a service worker
+ * that precaches every project file, so the site installs and runs offline.
+ */
+import { BuildConfig, Project } from '../types';
+import { buildPathIndex, findIndexFile, getFilePath, dirname } from './paths';
+import { getAttribute } from './html';
+import { hashBytes } from './blobStore';
+import { PWA_ICONS, pwaIconName, loadIconSource, renderPwaIcon, renderAppleTouchIcon } from './icons';
+
+export const MANIFEST_NAME = 'manifest.webmanifest';
+export const SERVICE_WORKER_NAME = 'sw.js';
+const ICON_FOLDER = 'pwa-icons/'; // Kept apart from the project's own icons/ folder
+const SHORT_NAME_LENGTH = 12; // Longer names get truncated under home screen icons
+
+/** A generated file, replacing any project file at the same path. */
+export interface PwaFile {
+  path: string;
+  data: string | Blob;
+}
+
+type CacheStrategy = 'cache-first' | 'stale-while-revalidate' | 'network-first';
+
+// How the service worker answers requests for each WebView cache mode
+const CACHE_STRATEGIES: Record<BuildConfig['cacheMode'], CacheStrategy> = {
+  offline: 'cache-first',
+  default: 'stale-while-revalidate',
+  'no-cache': 'network-first'
+};
+
+const ORIENTATIONS: Record<BuildConfig['orientation'], string> = {
+  portrait: 'portrait',
+  landscape: 'landscape',
+  sensor: 'any',
+  auto: 'any'
+};
+
+const createManifest = (config: BuildConfig, startUrl: string, hasIcons: boolean) => ({
+  name: config.appName,
+  short_name: config.appName.length > SHORT_NAME_LENGTH ? config.appName.slice(0, SHORT_NAME_LENGTH).trim() : config.appName,
+  start_url: startUrl,
+  scope: './',
+  display: config.fullscreen ? 'fullscreen' : 'standalone',
+  orientation: ORIENTATIONS[config.orientation],
+  theme_color: config.statusBarColor,
+  background_color: config.splashBackgroundColor,
+  ...(hasIcons && {
+    icons: PWA_ICONS.map(icon => ({
+      src: ICON_FOLDER + pwaIconName(icon),
+      sizes: `${icon.size}x${icon.size}`,
+      type: 'image/png',
+      purpose: icon.purpose
+    }))
+  })
+});
+
+const createServiceWorker = (cacheName: string, precache: string[], startUrl: string, strategy: CacheStrategy) => `// Generated by Buildora
+const CACHE_PREFIX = 'buildora-';
+const CACHE = ${JSON.stringify(cacheName)};
+const START_URL = ${JSON.stringify(startUrl)};
+const PRECACHE = ${JSON.stringify(precache, null, 2)};
+const STRATEGY = ${JSON.stringify(strategy)};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drop caches of earlier versions
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const fromNetwork = async (request) => {
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const fromCache = async (request) => {
+  const cached = await caches.match(request, { ignoreSearch: request.mode === 'navigate' });
+  if (cached) return cached;
+  // Offline navigation to an unknown page opens the app instead
+  if (request.mode === 'navigate') return caches.match(START_URL);
+  return undefined;
+};
+
+const handle = async (request) => {
+  if (STRATEGY === 'network-first') {
+    try {
+      return await fromNetwork(request);
+    } catch (error) {
+      const cached = await fromCache(request);
+      if (cached) return cached;
+      throw error;
+    }
+  }
+
+  const cached = await fromCache(request);
+  if (cached) {
+    if (STRATEGY === 'stale-while-revalidate') fromNetwork(request).catch(() => {});
+    return cached;
+  }
+  return fromNetwork(request);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  event.respondWith(handle(request));
+});
+`;
+
+/** Head tags and registration script, with paths relative to the entry page. */
+const injectIntoIndex = (html: string, config: BuildConfig, root: string, hasIcons: boolean) => {
+  // The generated manifest replaces any the page links already
+  let result = html.replace(/<link\b[^>]*>\s*/gi, tag => /\bmanifest\b/i.test(getAttribute(tag, 'rel') || '') ? '' : tag);
+  result = result.replace(/<meta\b[^>]*>\s*/gi, tag => /^theme-color$/i.test(getAttribute(tag, 'name') || '') ? '' : tag);
+
+  const headTags = [
+    `<link rel="manifest" href="${root}${MANIFEST_NAME}">`,
+    `<meta name="theme-color" content="${config.statusBarColor.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}">`,
+    ...(hasIcons ? [`<link rel="apple-touch-icon" href="${root}${ICON_FOLDER}apple-touch-icon.png">`] : [])
+  ].join('\n');
+  const registration = `<script>
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', function () {
+    navigator.serviceWorker.register('${root}${SERVICE_WORKER_NAME}');
+  });
+}
+</script>`;
+
+  result = /<\/head>/i.test(result) ? result.replace(/<\/head>/i, `${headTags}\n</head>`) : `${headTags}\n${result}`;
+  result = /<\/body>/i.test(result) ? result.replace(/<\/body>(?![\s\S]*<\/body>)/i, `${registration}\n</body>`) : `${result}\n${registration}`;
+  return result;
+};
+
+/**
+ * Files to add to a static export so it installs as a PWA. Generated files
+ * go at the project root so the service worker's scope covers every page.
+ */
+export const createPwaFiles = async (project: Project, config: BuildConfig): Promise<PwaFile[]> => {
+  const indexFile = findIndexFile(project.files);
+  if (!indexFile || !indexFile.name.endsWith('.html')) throw new Error("Project must contain an 'index.html' to export as a PWA.");
+  const indexPath = getFilePath(project.files, indexFile);
+  const indexDir = dirname(indexPath);
+  const root = indexDir ? '../'.repeat(indexDir.split('/').length) : '';
+
+  const files: PwaFile[] = [];
+  const source = await loadIconSource(config);
+  if (source) {
+    try {
+      for (const icon of PWA_ICONS) {
+        files.push({ path: ICON_FOLDER + pwaIconName(icon), data: await renderPwaIcon(source, icon.size, icon.purpose) });
+      }
+      files.push({ path: `${ICON_FOLDER}apple-touch-icon.png`, data: await renderAppleTouchIcon(source) });
+    } finally {
+      source.image.close();
+    }
+  }
+
+  const startUrl = `./${encodeURI(indexPath)}`;
+  files.push({ path: MANIFEST_NAME, data: JSON.stringify(createManifest(config, startUrl, !!source), null, 2) });
+  files.push({ path: indexPath, data: injectIntoIndex(indexFile.content, config, root, !!source) });
+
+  // Server-side pages cannot work offline
+  const projectPaths = Array.from(buildPathIndex(project.files))
+    .filter(([path, file]) => !file.isDirectory && !path.endsWith('.php'))
+    .map(([path]) => path);
+  const precache = Array.from(new Set([
+    ...(indexDir ? [] : ['./']), // The root URL serves index.html
+    ...[...projectPaths, ...files.map(f => f.path)].map(path => `./${encodeURI(path)}`)
+  ]));
+
+  // Any change to the files gives the cache a new name, so installs update
+  const fingerprint = JSON.stringify([
+    config.versionCode,
+    config.versionName,
+    project.files.map(f => [f.id, f.name, f.blobHash ?? f.content])
+  ]);
+  const hash = (await hashBytes(new TextEncoder().encode(fingerprint))).slice(0, 8);
+  files.push({ path: SERVICE_WORKER_NAME, data: createServiceWorker(`buildora-${config.packageName}-${hash}`, precache, startUrl, CACHE_STRATEGIES[config.cacheMode]) });
+
+  return files;
+};
@@ -0,0 +1,63 @@
+/**
+ * Finds where an element or CSS rule seen in the preview is written in the
+ * project source, so the inspector can open the editor at that line.
+ */
+
+const lineAt = (text: string, offset: number) => text.slice(0, offset).split('\n').length;
+
+// Blanks out a match while keeping its line breaks, so offsets stay valid
+const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+
+/** Removes comments and script/style contents, where tags cannot start. */
+const maskHtml = (html: string) => {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, blank)
+    .replace(/(<(script|style|textarea)\b[^>]*>)([\s\S]*?)(<\/\2\s*>)/gi, (_, open, _tag, body, close) => open + blank(body) + close);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Line of an element's start tag: by id when it has one, otherwise the
+ * `occurrence`-th tag with that name. Null when the source has no such tag,
+ * e.g. for elements created by scripts or implied by the parser.
+ */
+export const findElementLine = (html: string, element: { tagName: string; id?: string; occurrence: number }): number | null => {
+  const source = maskHtml(html);
+  const tag = escapeRegExp(element.tagName);
+
+  if (element.id) {
+    const byId = new RegExp(`<${tag}\\b[^>]*\\sid\\s*=\\s*["']?${escapeRegExp(element.id)}(?=["'\\s>])`, 'i').exec(source);
+    if (byId) return lineAt(html, byId.index);
+  }
+
+  const pattern = new RegExp(`<${tag}(?=[\\s/>])`, 'gi');
+  let match: RegExpExecArray | null;
+  let index = 0;
+  while ((match = pattern.exec(source))) {
+    if (index++ === element.occurrence) return lineAt(html, match.index);
+  }
+  return null;
+};
+
+// Browsers re-serialize selectors, so both sides are compared in one spacing style
+const normalizeSelector = (selector: string) => {
+  return selector.replace(/\s+/g, ' ').replace(/\s*([>+~,])\s*/g, '$1').replace(/"/g, "'").trim();
+};
+
+/** Line of the rule with `selector` in a stylesheet, or in the `<style>` blocks of an HTML page. */
+export const findRuleLine = (source: string, selector: string): number | null => {
+  const text = source.replace(/\/\*[\s\S]*?\*\//g, blank);
+  const target = normalizeSelector(selector);
+  const prelude = /([^{};]+)\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = prelude.exec(text))) {
+    // Strip a leading `<style>` tag or text when searching HTML pages
+    const candidate = match[1].replace(/^[\s\S]*<[^<>]*>/, '');
+    if (normalizeSelector(candidate) === target) {
+      const start = match.index + match[1].length - candidate.trimStart().length;
+      return lineAt(source, start);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,38 @@
+import { StackFrame } from '../types';
+
+// Chrome: `    at fn (https://host/app.js:10:5)` or `    at https://host/app.js:10:5`
+const V8_FRAME = /^\s*at (?:(.*?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+// Firefox and Safari: `fn@https://host/app.js:10:5`
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+/** Parses a JavaScript error stack into frames, skipping lines it does not understand. */
+export const parseStack = (stack: string): StackFrame[] => {
+  const frames: StackFrame[] = [];
+  stack.split('\n').forEach(line => {
+    const match = V8_FRAME.exec(line) || GECKO_FRAME.exec(line);
+    if (!match) return;
+    frames.push({
+      functionName: match[1] || '',
+      file: match[2],
+      line: parseInt(match[3], 10),
+      column: parseInt(match[4], 10)
+    });
+  });
+  return frames;
+};
+
+/**
+ * Rewrites frame URLs with `resolveFile`, e.g. to project paths. Frames
+ * it returns null for (internal scripts) are dropped.
+ */
+export const mapStack = (frames: StackFrame[], resolveFile: (url: string) => string | null): StackFrame[] => {
+  return frames.flatMap(frame => {
+    const file = resolveFile(frame.file);
+    return file === null ? [] : [{ ...frame, file }];
+  });
+};
+
+export const formatFrame = (frame: StackFrame) => {
+  const location = `${frame.file}:${frame.line}:${frame.column}`;
+  return frame.functionName ? `${frame.functionName} (${location})` : location;
+};
@@ -1,64 +1,174 @@
 import { Project, File } from '../types';
 import { templates } from './templates';
+import { openDB, promisifyRequest, transactionDone, clearDatabase, STORES } from './db';
+import { extractInlineBlobs, isBinaryFile, collectGarbage, settleBlobs } from './blobStore';
 
-const STORAGE_KEY = 'buildora_projects';
+// Legacy key, only read once to migrate older installs into IndexedDB
+const LEGACY_STORAGE_KEY = 'buildora_projects';
 
-export const getProjects = (): Project[] => {
-  const data = localStorage.getItem(STORAGE_KEY);
+type ProjectRecord = Omit<Project, 'files'>;
+type FileRecord = File & { projectId: string };
+
+const toRecords = (project: Project): { meta: ProjectRecord; files: FileRecord[] } => {
+  const { files, ...meta } = project;
+  return {
+    meta,
+    files: files.map(f => ({ ...f, projectId: project.id }))
+  };
+};
+
+const fromRecord = ({ projectId, ...file }: FileRecord): File => file;
+
+const writeProject = (tx: IDBTransaction, project: Project, existingFileIds: string[] = []) => {
+  const { meta, files } = toRecords(project);
+  const fileStore = tx.objectStore(STORES.files);
+  tx.objectStore(STORES.projects).put(meta);
+
+  // Drop records of files that no longer exist in the project
+  const currentIds = new Set(files.map(f => f.id));
+  existingFileIds
+    .filter(id => !currentIds.has(id))
+    .forEach(id => fileStore.delete([project.id, id]));
+
+  files.forEach(f => fileStore.put(f));
+};
+
+const migrateFromLocalStorage = async () => {
+  const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!data) return;
+
+  let legacyProjects: Project[] = [];
   try {
-    return data ? JSON.parse(data) : [];
+    legacyProjects = JSON.parse(data);
   } catch (e) {
-    console.error("Failed to parse projects from storage", e);
-    return [];
+    console.error("Failed to parse legacy projects from localStorage", e);
+    return;
   }
+
+  const db = await openDB();
+  const tx = db.transaction([STORES.projects, STORES.files], 'readwrite');
+  legacyProjects.forEach(p => writeProject(tx, p));
+  await transactionDone(tx);
+
+  // Only remove the legacy copy once everything is safely in IndexedDB
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
 };
 
-export const saveProjects = (projects: Project[]) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
+// Older projects kept images/fonts as Base64 data URLs inside `content`
+const migrateInlineAssets = async (projects: Project[]): Promise<Project[]> => {
+  return Promise.all(projects.map(async project => {
+    if (!project.files.some(f => isBinaryFile(f) && f.content.startsWith('data:'))) return project;
+    const migrated = { ...project, files: await extractInlineBlobs(project.files) };
+    await saveProject(migrated);
+    return migrated;
+  }));
 };
 
-export const saveProject = (project: Project) => {
-  const projects = getProjects();
-  const index = projects.findIndex(p => p.id === project.id);
-  if (index !== -1) {
-    projects[index] = project;
-  } else {
-    projects.push(project);
+export const getProjects = async (): Promise<Project[]> => {
+  try {
+    await migrateFromLocalStorage();
+  } catch (e) {
+    console.error("Failed to migrate projects from localStorage", e);
+  }
+
+  const db = await openDB();
+  const tx = db.transaction([STORES.projects, STORES.files], 'readonly');
+  const [metas, fileRecords] = await Promise.all([
+    promisifyRequest<ProjectRecord[]>(tx.objectStore(STORES.projects).getAll()),
+    promisifyRequest<FileRecord[]>(tx.objectStore(STORES.files).getAll())
+  ]);
+
+  const filesByProject = new Map<string, File[]>();
+  fileRecords.forEach(record => {
+    const list = filesByProject.get(record.projectId) || [];
+    list.push(fromRecord(record));
+    filesByProject.set(record.projectId, list);
+  });
+
+  const projects = metas
+    .map(meta => ({ ...meta, files: filesByProject.get(meta.id) || [] }))
+    .sort((a, b) => b.lastModified - a.lastModified);
+
+  let result = projects;
+  try {
+    result = await migrateInlineAssets(projects);
+    await collectGarbage();
+  } catch (e) {
+    console.error("Failed to move inline assets into the blob store", e);
   }
-  saveProjects(projects);
+  return result;
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const db = await openDB();
+  const tx = db.transaction([STORES.projects, STORES.files], 'readonly');
+  const [meta, fileRecords] = await Promise.all([
+    promisifyRequest<ProjectRecord | undefined>(tx.objectStore(STORES.projects).get(id)),
+    promisifyRequest<FileRecord[]>(tx.objectStore(STORES.files).index('projectId').getAll(id))
+  ]);
+  return meta ? { ...meta, files: fileRecords.map(fromRecord) } : null;
+};
+
+export const saveProject = async (project: Project) => {
+  const db = await openDB();
+  const tx = db.transaction([STORES.projects, STORES.files], 'readwrite');
+  const existingKeys = await promisifyRequest(
+    tx.objectStore(STORES.files).index('projectId').getAllKeys(project.id)
+  );
+  const existingFileIds = existingKeys.map(key => (key as [string, string])[1]);
+  writeProject(tx, project, existingFileIds);
+  await transactionDone(tx);
+  settleBlobs(project.files);
 };
 
-export const deleteProject = (id: string) => {
-  const projects = getProjects().filter(p => p.id !== id);
-  saveProjects(projects);
+export const deleteProject = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction([STORES.projects, STORES.files, STORES.snapshots], 'readwrite');
+  tx.objectStore(STORES.projects).delete(id);
+  const fileStore = tx.objectStore(STORES.files);
+  const snapshotStore = tx.objectStore(STORES.snapshots);
+  const [fileKeys, snapshotKeys] = await Promise.all([
+    promisifyRequest(fileStore.index('projectId').getAllKeys(id)),
+    promisifyRequest(snapshotStore.index('projectId').getAllKeys(id))
+  ]);
+  fileKeys.forEach(key => fileStore.delete(key));
+  snapshotKeys.forEach(key => snapshotStore.delete(key));
+  await transactionDone(tx);
+  await collectGarbage();
 };
 
-export const duplicateProject = (id: string): Project | null => {
-  const projects = getProjects();
-  const original = projects.find(p => p.id === id);
-  
+export const duplicateProject = async (id: string): Promise<Project | null> => {
+  const original = await getProject(id);
   if (!original) return null;
 
-  // Deep copy the project
-  const newProject: Project = JSON.parse(JSON.stringify(original));
-  
-  // Update unique identifiers
-  newProject.id = Date.now().toString();
-  newProject.name = `${original.name} Copy`;
-  newProject.lastModified = Date.now();
-  
-  // Regenerate file IDs to ensure uniqueness
-  newProject.files = newProject.files.map(f => ({
-    ...f,
-    id: Date.now().toString() + Math.random().toString().slice(2)
-  }));
+  // Regenerate file IDs and keep folder references pointing at the new IDs.
+  // Binary files only copy their blobHash, so both projects share the bytes.
+  const idMap = new Map<string, string>();
+  original.files.forEach(f => {
+    idMap.set(f.id, Date.now().toString() + Math.random().toString().slice(2));
+  });
+
+  const newProject: Project = {
+    ...original,
+    id: Date.now().toString(),
+    name: `${original.name} Copy`,
+    lastModified: Date.now(),
+    files: original.files.map(f => ({
+      ...f,
+      id: idMap.get(f.id) as string,
+      parentId: idMap.get(f.parentId) || f.parentId
+    }))
+  };
 
-  projects.unshift(newProject);
-  saveProjects(projects);
-  
+  await saveProject(newProject);
   return newProject;
 };
 
+export const clearAllProjects = async () => {
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  await clearDatabase();
+};
+
 export const createProject = (name: string, type: 'html' | 'php'): Project => {
   // Select template based on type
   // In a future update, we could pass a templateId directly
@@ -70,7 +180,7 @@ export const createProject = (name: string, type: 'html' | 'php'): Project => {
   }
 
   const templateFiles = template.files(name);
-  
+
   // Convert template files to Project Files with IDs
   const files: File[] = templateFiles.map((tf, index) => ({
       ...tf,
@@ -86,4 +196,4 @@ export const createProject = (name: string, type: 'html' | 'php'): Project => {
     lastModified: Date.now(),
     files
   };
-};
\ No newline at end of file
+};
@@ -315,10 +315,10 @@ btn.addEventListener('click', () => {
         name: 'index.php',
         language: 'php',
         content: `<?php
-  // Basic PHP Local Server Simulation
+  // Runs on PHP compiled to WebAssembly, right in the browser
   $title = "${name}";
   echo "<h1>Welcome to " . $title . "</h1>";
-  echo "<p>PHP Server is simulated in this environment.</p>";
+  echo "<p>Running PHP " . PHP_VERSION . " locally.</p>";
 ?>`
       }
     ]
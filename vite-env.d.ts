@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+// The per-version php-wasm builds ship without type declarations; utils/phpRuntime
+// only hands the binary's module factory to PhpBase as its loader.
+declare module 'php-wasm/php8.3-web.mjs' {
+  const PHP: import('php-wasm/PhpBase.mjs').PhpBaseModuleFactory['default'];
+  export default PHP;
+}
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  optimizeDeps: {
+    // Pre-bundling would break php-wasm's `new URL('*.wasm', import.meta.url)` lookups
+    exclude: ['php-wasm'],
+  },
   base: './', // Ensure relative paths for assets (crucial for GitHub Pages)
   build: {
     outDir: 'dist',